@@ -3,6 +3,7 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
 
 -- Create profiles table (extends auth.users)
 CREATE TABLE IF NOT EXISTS public.profiles (
@@ -48,21 +49,339 @@ CREATE TABLE IF NOT EXISTS public.votes (
     UNIQUE(user_id, target_id, target_type)
 );
 
+-- Create comments table (short clarifications on questions and answers)
+-- answer_id is NULL for comments attached directly to the question
+-- parent_id points at the top-level comment a reply belongs to
+CREATE TABLE IF NOT EXISTS public.comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (char_length(content) BETWEEN 2 AND 600),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create notifications table (one row per recipient per event)
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    type TEXT NOT NULL CHECK (type IN ('new_answer', 'answer_accepted', 'mention', 'badge_awarded', 'watched_tag_question')),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    is_read BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create post_revisions table (every version of an edited question or answer)
+-- answer_id is NULL for question revisions; title/description/tags or content is set accordingly
+CREATE TABLE IF NOT EXISTS public.post_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    title TEXT,
+    description TEXT,
+    tags TEXT[],
+    content TEXT,
+    editor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (question_id, answer_id, revision_number)
+);
+
+-- Create reputation_events table (ledger of every reputation change)
+-- Vote events are tied to their vote and disappear with it; acceptance events are
+-- removed when the answer is unaccepted, so a profile's reputation is always
+-- 1 + the sum of its events
+CREATE TABLE IF NOT EXISTS public.reputation_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL CHECK (reason IN (
+        'question_upvoted', 'question_downvoted', 'answer_upvoted', 'answer_downvoted', 'answer_accepted'
+    )),
+    points INTEGER NOT NULL,
+    vote_id UUID UNIQUE REFERENCES public.votes(id) ON DELETE CASCADE,
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create user_badges table (badges awarded by the badge job, see src/lib/badges.ts)
+-- question_id/answer_id record the post a per-post badge was earned for, tag the tag of a tag badge
+CREATE TABLE IF NOT EXISTS public.user_badges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    badge_slug TEXT NOT NULL,
+    tag TEXT,
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    awarded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (user_id, badge_slug, tag, question_id, answer_id)
+);
+
+-- Create question_search table (full-text search document for each question)
+-- A generated column cannot read other tables, so the answer text is copied into
+-- answers_text by triggers and the weighted tsvector is generated from this row:
+-- title (A) ranks above description (B), which ranks above answers (C)
+CREATE TABLE IF NOT EXISTS public.question_search (
+    question_id UUID PRIMARY KEY REFERENCES public.questions(id) ON DELETE CASCADE,
+    title TEXT NOT NULL DEFAULT '',
+    description TEXT NOT NULL DEFAULT '',
+    answers_text TEXT NOT NULL DEFAULT '',
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', title), 'A') ||
+        setweight(to_tsvector('english', description), 'B') ||
+        setweight(to_tsvector('english', answers_text), 'C')
+    ) STORED
+);
+
+-- Create tags table (one row per tag used on questions)
+-- usage_count is the number of live questions with the tag, maintained by trigger
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT UNIQUE NOT NULL,
+    excerpt TEXT,
+    wiki TEXT,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create tag_synonyms table (alternative spellings rewritten to their tag when a question is posted)
+CREATE TABLE IF NOT EXISTS public.tag_synonyms (
+    synonym TEXT PRIMARY KEY,
+    tag_name TEXT NOT NULL REFERENCES public.tags(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create question_status_votes table (community votes to close or reopen a question)
+-- Votes for a round are cleared once they close or reopen the question, so users can vote again later
+CREATE TABLE IF NOT EXISTS public.question_status_votes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('close', 'reopen')),
+    reason TEXT CHECK (reason IN ('duplicate', 'off_topic', 'unclear', 'too_broad', 'opinion_based')),
+    duplicate_of UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(question_id, user_id, kind),
+    CHECK ((kind = 'close') = (reason IS NOT NULL)),
+    CHECK ((reason IS NOT DISTINCT FROM 'duplicate') = (duplicate_of IS NOT NULL))
+);
+
+-- Create flags table (reports of spam or abuse, reviewed by moderators at /moderation)
+-- target_id is a question, answer or comment id depending on target_type;
+-- question_id is the question the post appears on, for linking and cleanup
+CREATE TABLE IF NOT EXISTS public.flags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer', 'comment')),
+    target_id UUID NOT NULL,
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'rude', 'low_quality', 'other')),
+    note TEXT CHECK (char_length(note) <= 500),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'dismissed')),
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(reporter_id, target_type, target_id)
+);
+
+-- Create moderation_log table (audit trail of every moderator action)
+-- Rows are only ever inserted, by the API routes that perform the action
+CREATE TABLE IF NOT EXISTS public.moderation_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    moderator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    action TEXT NOT NULL,
+    target_type TEXT NOT NULL,
+    target_id UUID NOT NULL,
+    question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create shadow_bans table (users whose new posts are visible only to themselves and moderators)
+-- Kept out of profiles, which everyone can read, so a shadow-banned user cannot tell
+CREATE TABLE IF NOT EXISTS public.shadow_bans (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    reason TEXT CHECK (char_length(reason) <= 500),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create rate_limits table (fixed-window write counters per user or IP, see src/lib/rate-limit.ts)
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT PRIMARY KEY,
+    hits INTEGER NOT NULL DEFAULT 0,
+    reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Create attachments table (images uploaded in the editor, see src/lib/attachments.ts)
+-- url and thumbnail_url point at wherever the storage adapter wrote the files
+CREATE TABLE IF NOT EXISTS public.attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    uploader_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    url TEXT NOT NULL,
+    thumbnail_url TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create drafts table (unsent questions and answers, synced from the editor every few seconds)
+-- key is 'question' for the Ask page or 'answer:<question id>' for an answer; content holds the form fields
+CREATE TABLE IF NOT EXISTS public.drafts (
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    key TEXT NOT NULL,
+    content JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, key)
+);
+
+-- Columns added after the initial release (safe to re-run on an existing database)
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS edited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS edited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'moderator', 'admin'));
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS reputation INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS badge_id UUID REFERENCES public.user_badges(id) ON DELETE CASCADE;
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('new_answer', 'answer_accepted', 'mention', 'badge_awarded', 'watched_tag_question'));
+-- Tag preferences: watched tags are boosted in the "For you" feed and notify on new questions,
+-- ignored tags are greyed out (or hidden when hide_ignored_tags is set)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS watched_tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS ignored_tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS hide_ignored_tags BOOLEAN NOT NULL DEFAULT FALSE;
+-- Usernames follow validateUsername in src/lib/validation.ts (uniqueness comes from the UNIQUE index);
+-- NOT VALID so names created before the rule keep working until they are changed
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_username_format;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_username_format
+    CHECK (username ~ '^[A-Za-z0-9_.-]{3,30}$') NOT VALID;
+-- Listing stats kept up to date by triggers so every sort can use an index
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS answer_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS has_accepted_answer BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS hot_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+-- Why the asker says their question isn't a duplicate of the similar ones they were shown
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS difference_note TEXT CHECK (char_length(difference_note) <= 500);
+-- Question status: closed questions carry a close_reason, duplicates point at their canonical question
+-- closed_by is the moderator who closed it outright (NULL when community votes closed it)
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'duplicate'));
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS close_reason TEXT CHECK (close_reason IN ('off_topic', 'unclear', 'too_broad', 'opinion_based'));
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.questions(id) ON DELETE SET NULL;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS closed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+-- Suspensions: until suspended_until passes the user cannot post, vote or comment
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS suspension_reason TEXT CHECK (char_length(suspension_reason) <= 500);
+-- Posts written during a shadow ban, visible only to their author and moderators
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS is_shadowed BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS is_shadowed BOOLEAN NOT NULL DEFAULT FALSE;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_questions_author_id ON public.questions(author_id);
 CREATE INDEX IF NOT EXISTS idx_questions_created_at ON public.questions(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_questions_tags ON public.questions USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_questions_live ON public.questions(created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_active ON public.questions(last_activity_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_votes ON public.questions(votes DESC, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_hot ON public.questions(hot_score DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_questions_unanswered ON public.questions(created_at DESC) WHERE deleted_at IS NULL AND answer_count = 0;
+CREATE INDEX IF NOT EXISTS idx_questions_no_accepted ON public.questions(created_at DESC) WHERE deleted_at IS NULL AND NOT has_accepted_answer;
 CREATE INDEX IF NOT EXISTS idx_answers_question_id ON public.answers(question_id);
 CREATE INDEX IF NOT EXISTS idx_answers_author_id ON public.answers(author_id);
 CREATE INDEX IF NOT EXISTS idx_answers_created_at ON public.answers(created_at DESC);
+-- A question can have at most one accepted answer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_answers_one_accepted ON public.answers(question_id) WHERE is_accepted;
 CREATE INDEX IF NOT EXISTS idx_votes_target_id ON public.votes(target_id);
 CREATE INDEX IF NOT EXISTS idx_votes_user_id ON public.votes(user_id);
+CREATE INDEX IF NOT EXISTS idx_comments_question_id ON public.comments(question_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_answer_id ON public.comments(answer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON public.comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON public.post_revisions(question_id, answer_id, revision_number);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE is_read = FALSE;
+CREATE INDEX IF NOT EXISTS idx_reputation_events_user_id ON public.reputation_events(user_id, created_at DESC);
+-- An answer earns the acceptance bonus once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reputation_events_accepted ON public.reputation_events(answer_id) WHERE reason = 'answer_accepted';
+CREATE INDEX IF NOT EXISTS idx_user_badges_user_id ON public.user_badges(user_id, awarded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_question_status_votes_question ON public.question_status_votes(question_id, kind);
+CREATE INDEX IF NOT EXISTS idx_flags_pending ON public.flags(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_flags_target ON public.flags(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created_at ON public.moderation_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_question_search_vector ON public.question_search USING GIN(search_vector);
+-- Trigram matching for similar-question hints
+CREATE INDEX IF NOT EXISTS idx_questions_title_trgm ON public.questions USING GIN(title gin_trgm_ops) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_profiles_watched_tags ON public.profiles USING GIN(watched_tags);
+CREATE INDEX IF NOT EXISTS idx_tags_usage_count ON public.tags(usage_count DESC, name);
+CREATE INDEX IF NOT EXISTS idx_tags_created_at ON public.tags(created_at DESC);
+-- Prefix matching for tag suggestions (LIKE 'rea%')
+CREATE INDEX IF NOT EXISTS idx_tags_name_prefix ON public.tags(name text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_tag_synonyms_prefix ON public.tag_synonyms(synonym text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_tag_synonyms_tag_name ON public.tag_synonyms(tag_name);
+CREATE INDEX IF NOT EXISTS idx_attachments_uploader_id ON public.attachments(uploader_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON public.rate_limits(reset_at);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.questions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.answers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reputation_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+-- question_search has no policies: it is written by triggers and read through search_questions()
+ALTER TABLE public.question_search ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_synonyms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_status_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shadow_bans ENABLE ROW LEVEL SECURITY;
+-- rate_limits has no policies: it is only written through hit_rate_limit() by the service role
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+-- attachments has no policies: uploads go through /api/attachments with the service role
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+-- Create function to check the signed-in user's role in RLS policies
+-- Mirrors hasRole in src/lib/permissions.ts: admins can do everything moderators can
+-- SECURITY DEFINER so policies on profiles can call it without recursing
+CREATE OR REPLACE FUNCTION public.has_role(p_role TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid()
+          AND CASE role WHEN 'admin' THEN 2 WHEN 'moderator' THEN 1 ELSE 0 END
+              >= CASE p_role WHEN 'admin' THEN 2 WHEN 'moderator' THEN 1 ELSE 0 END
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create function to check whether the signed-in user is suspended, for the insert policies
+-- Mirrors isSuspended in src/lib/permissions.ts
+CREATE OR REPLACE FUNCTION public.is_suspended()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND suspended_until > NOW()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
 
 -- RLS Policies for profiles table
 CREATE POLICY "Profiles are viewable by everyone" ON public.profiles
@@ -74,44 +393,147 @@ CREATE POLICY "Users can insert their own profile" ON public.profiles
 CREATE POLICY "Users can update their own profile" ON public.profiles
     FOR UPDATE USING (auth.uid() = id);
 
+-- Admins grant and revoke roles (see guard_profile_role)
+CREATE POLICY "Admins can update any profile" ON public.profiles
+    FOR UPDATE USING (public.has_role('admin'));
+
 -- RLS Policies for questions table
+-- Soft-deleted and shadowed questions stay visible to their author and to moderators
 CREATE POLICY "Questions are viewable by everyone" ON public.questions
-    FOR SELECT USING (true);
+    FOR SELECT USING (
+        (deleted_at IS NULL AND NOT is_shadowed) OR auth.uid() = author_id OR public.has_role('moderator')
+    );
 
 CREATE POLICY "Authenticated users can insert questions" ON public.questions
-    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND NOT public.is_suspended());
 
 CREATE POLICY "Users can update their own questions" ON public.questions
     FOR UPDATE USING (auth.uid() = author_id);
 
-CREATE POLICY "Users can delete their own questions" ON public.questions
-    FOR DELETE USING (auth.uid() = author_id);
+CREATE POLICY "Moderators can update any question" ON public.questions
+    FOR UPDATE USING (public.has_role('moderator'));
+
+-- Questions are soft-deleted through DELETE /api/questions/[id]; hard deletes would
+-- cascade away other users' answers and votes
+DROP POLICY IF EXISTS "Users can delete their own questions" ON public.questions;
 
 -- RLS Policies for answers table
 CREATE POLICY "Answers are viewable by everyone" ON public.answers
-    FOR SELECT USING (true);
+    FOR SELECT USING (
+        (deleted_at IS NULL AND NOT is_shadowed) OR auth.uid() = author_id OR public.has_role('moderator')
+    );
 
+-- Closed and duplicate questions no longer take answers
 CREATE POLICY "Authenticated users can insert answers" ON public.answers
-    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+    FOR INSERT WITH CHECK (
+        auth.role() = 'authenticated'
+        AND NOT public.is_suspended()
+        AND EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id AND q.status = 'open')
+    );
 
 CREATE POLICY "Users can update their own answers" ON public.answers
     FOR UPDATE USING (auth.uid() = author_id);
 
-CREATE POLICY "Users can delete their own answers" ON public.answers
-    FOR DELETE USING (auth.uid() = author_id);
+CREATE POLICY "Moderators can update any answer" ON public.answers
+    FOR UPDATE USING (public.has_role('moderator'));
+
+-- Answers are soft-deleted through DELETE /api/answers/[id]
+DROP POLICY IF EXISTS "Users can delete their own answers" ON public.answers;
 
 -- RLS Policies for votes table
 CREATE POLICY "Votes are viewable by everyone" ON public.votes
     FOR SELECT USING (true);
 
-CREATE POLICY "Authenticated users can vote" ON public.votes
-    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+-- Votes are cast, changed and removed through POST /api/vote (service role), which checks
+-- suspensions, the downvote privilege and the vote rate limit; clients can't write them directly
+DROP POLICY IF EXISTS "Authenticated users can vote" ON public.votes;
+DROP POLICY IF EXISTS "Users can update their own votes" ON public.votes;
+DROP POLICY IF EXISTS "Users can delete their own votes" ON public.votes;
 
-CREATE POLICY "Users can update their own votes" ON public.votes
-    FOR UPDATE USING (auth.uid() = user_id);
+-- RLS Policies for comments table
+CREATE POLICY "Comments are viewable by everyone" ON public.comments
+    FOR SELECT USING (true);
+
+CREATE POLICY "Authenticated users can insert comments" ON public.comments
+    FOR INSERT WITH CHECK (auth.uid() = author_id AND NOT public.is_suspended());
+
+CREATE POLICY "Users can update their own comments" ON public.comments
+    FOR UPDATE USING (auth.uid() = author_id);
+
+CREATE POLICY "Users can delete their own comments" ON public.comments
+    FOR DELETE USING (auth.uid() = author_id);
+
+-- RLS Policies for post_revisions table
+-- Revisions are written by triggers only, so there are no insert/update policies
+-- The history of deleted and shadowed posts stays hidden along with the posts
+DROP POLICY IF EXISTS "Revisions are viewable by everyone" ON public.post_revisions;
+CREATE POLICY "Revisions of visible posts are viewable by everyone" ON public.post_revisions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.questions q
+            WHERE q.id = question_id AND q.deleted_at IS NULL AND NOT q.is_shadowed
+        )
+        AND (
+            answer_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM public.answers a
+                WHERE a.id = answer_id AND a.deleted_at IS NULL AND NOT a.is_shadowed
+            )
+        )
+    );
+
+-- RLS Policies for reputation_events table
+-- Events are written by triggers only
+CREATE POLICY "Reputation events are viewable by everyone" ON public.reputation_events
+    FOR SELECT USING (true);
+
+-- RLS Policies for user_badges table
+-- Badges are awarded by the badge job (service role) only
+CREATE POLICY "Badges are viewable by everyone" ON public.user_badges
+    FOR SELECT USING (true);
+
+-- RLS Policies for tags and tag_synonyms tables
+-- Tags are created by trigger; descriptions and synonyms are managed with the service role
+CREATE POLICY "Tags are viewable by everyone" ON public.tags
+    FOR SELECT USING (true);
+
+CREATE POLICY "Tag synonyms are viewable by everyone" ON public.tag_synonyms
+    FOR SELECT USING (true);
+
+-- RLS Policies for question_status_votes table
+-- Votes are cast through the close/reopen API routes, which check reputation first
+CREATE POLICY "Close and reopen votes are viewable by everyone" ON public.question_status_votes
+    FOR SELECT USING (true);
+
+-- RLS Policies for flags table
+-- Flags are raised through POST /api/flags and resolved through the moderation API routes
+CREATE POLICY "Users can view their own flags" ON public.flags
+    FOR SELECT USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view all flags" ON public.flags
+    FOR SELECT USING (public.has_role('moderator'));
+
+-- RLS Policies for moderation_log table
+-- Entries are written by the API routes that perform each action
+CREATE POLICY "Moderators can view the moderation log" ON public.moderation_log
+    FOR SELECT USING (public.has_role('moderator'));
 
-CREATE POLICY "Users can delete their own votes" ON public.votes
-    FOR DELETE USING (auth.uid() = user_id);
+-- RLS Policies for shadow_bans table
+-- Shadow bans are set and lifted through the moderation API routes (service role)
+CREATE POLICY "Moderators can view shadow bans" ON public.shadow_bans
+    FOR SELECT USING (public.has_role('moderator'));
+
+-- RLS Policies for drafts table
+CREATE POLICY "Users can manage their own drafts" ON public.drafts
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for notifications table
+-- Notifications are created by the server (service role) or by triggers only
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+    FOR UPDATE USING (auth.uid() = user_id);
 
 -- Create function to handle profile creation
 CREATE OR REPLACE FUNCTION public.handle_new_user()
@@ -128,6 +550,47 @@ CREATE OR REPLACE TRIGGER on_auth_user_created
     AFTER INSERT ON auth.users
     FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- Create function to record (or re-record after a change) the reputation earned by a vote
+-- +5 for a question upvote, +10 for an answer upvote, -2 for any downvote; self-votes earn nothing
+CREATE OR REPLACE FUNCTION public.record_vote_reputation(p_vote public.votes)
+RETURNS VOID AS $$
+DECLARE
+    post_author UUID;
+    post_question_id UUID;
+    post_answer_id UUID;
+BEGIN
+    IF p_vote.target_type = 'question' THEN
+        SELECT author_id, id INTO post_author, post_question_id
+        FROM public.questions WHERE id = p_vote.target_id;
+    ELSE
+        SELECT author_id, question_id, id INTO post_author, post_question_id, post_answer_id
+        FROM public.answers WHERE id = p_vote.target_id;
+    END IF;
+
+    IF post_author IS NULL OR post_author = p_vote.user_id THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.reputation_events (user_id, actor_id, reason, points, vote_id, question_id, answer_id)
+    VALUES (
+        post_author,
+        p_vote.user_id,
+        p_vote.target_type || CASE WHEN p_vote.vote_type = 'upvote' THEN '_upvoted' ELSE '_downvoted' END,
+        CASE
+            WHEN p_vote.vote_type = 'downvote' THEN -2
+            WHEN p_vote.target_type = 'answer' THEN 10
+            ELSE 5
+        END,
+        p_vote.id,
+        post_question_id,
+        post_answer_id
+    )
+    ON CONFLICT (vote_id) DO UPDATE
+        SET reason = EXCLUDED.reason,
+            points = EXCLUDED.points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- Create function to update vote counts
 CREATE OR REPLACE FUNCTION public.update_vote_count()
 RETURNS TRIGGER AS $$
@@ -143,6 +606,7 @@ BEGIN
             SET votes = votes + CASE WHEN NEW.vote_type = 'upvote' THEN 1 ELSE -1 END
             WHERE id = NEW.target_id;
         END IF;
+        PERFORM public.record_vote_reputation(NEW);
         RETURN NEW;
     ELSIF TG_OP = 'UPDATE' THEN
         IF OLD.target_type = 'question' THEN
@@ -156,7 +620,9 @@ BEGIN
                               - CASE WHEN OLD.vote_type = 'upvote' THEN 1 ELSE -1 END
             WHERE id = NEW.target_id;
         END IF;
+        PERFORM public.record_vote_reputation(NEW);
         RETURN NEW;
+    -- Deleted votes take their reputation event with them (ON DELETE CASCADE)
     ELSIF TG_OP = 'DELETE' THEN
         IF OLD.target_type = 'question' THEN
             UPDATE public.questions 
@@ -178,6 +644,941 @@ CREATE OR REPLACE TRIGGER on_vote_change
     AFTER INSERT OR UPDATE OR DELETE ON public.votes
     FOR EACH ROW EXECUTE FUNCTION public.update_vote_count();
 
+-- Create function to accept or unaccept an answer atomically
+-- Only the question author may call it; the caller is taken from the session (auth.uid())
+CREATE OR REPLACE FUNCTION public.set_answer_accepted(p_answer_id UUID, p_accepted BOOLEAN)
+RETURNS public.answers AS $$
+DECLARE
+    target public.answers;
+    question_author UUID;
+BEGIN
+    SELECT * INTO target FROM public.answers WHERE id = p_answer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Answer not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Lock the question row so concurrent accepts on the same question serialize
+    SELECT author_id INTO question_author
+    FROM public.questions
+    WHERE id = target.question_id
+    FOR UPDATE;
+
+    IF question_author IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the question author can accept answers' USING ERRCODE = '42501';
+    END IF;
+
+    -- Let guard_answer_acceptance know this change comes from the sanctioned path
+    PERFORM set_config('slackit.accepting_answer', 'on', TRUE);
+
+    IF p_accepted THEN
+        UPDATE public.answers
+        SET is_accepted = FALSE
+        WHERE question_id = target.question_id AND is_accepted AND id <> p_answer_id;
+    END IF;
+
+    UPDATE public.answers
+    SET is_accepted = p_accepted
+    WHERE id = p_answer_id
+    RETURNING * INTO target;
+
+    RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_answer_accepted(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_answer_accepted(UUID, BOOLEAN) TO authenticated;
+
+-- Create function to stop answer authors from flipping is_accepted with a plain UPDATE
+CREATE OR REPLACE FUNCTION public.guard_answer_acceptance()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_accepted IS DISTINCT FROM OLD.is_accepted
+       AND auth.role() IS DISTINCT FROM 'service_role'
+       AND COALESCE(current_setting('slackit.accepting_answer', TRUE), '') <> 'on' THEN
+        RAISE EXCEPTION 'Use set_answer_accepted to change the accepted answer' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to guard answer acceptance
+CREATE OR REPLACE TRIGGER guard_answer_acceptance
+    BEFORE UPDATE OF is_accepted ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_answer_acceptance();
+
+-- Create function to stop authors from reopening or closing their own question with a plain UPDATE
+-- Status changes go through the close/reopen API routes (service role)
+CREATE OR REPLACE FUNCTION public.guard_question_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.status, NEW.close_reason, NEW.duplicate_of, NEW.closed_at, NEW.closed_by)
+       IS DISTINCT FROM (OLD.status, OLD.close_reason, OLD.duplicate_of, OLD.closed_at, OLD.closed_by)
+       AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Use the close and reopen votes to change a question''s status' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to guard question status
+CREATE OR REPLACE TRIGGER guard_question_status
+    BEFORE UPDATE OF status, close_reason, duplicate_of, closed_at, closed_by ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_question_status();
+
+-- Create function to stop authors from deleting or restoring posts with a plain UPDATE
+-- Deletes and restores go through the delete/restore API routes (service role), which enforce the restore window
+CREATE OR REPLACE FUNCTION public.guard_post_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.deleted_at, NEW.deleted_by) IS DISTINCT FROM (OLD.deleted_at, OLD.deleted_by)
+       AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Use the delete and restore routes to change a post''s deletion' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create function to stop authors from setting their own scores, counts and times, which badges and sorts read
+-- Clients can't write them; they change through the vote and answer triggers (which run nested
+-- in another trigger), the service role and the backfills in this file
+CREATE OR REPLACE FUNCTION public.guard_post_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_stats JSONB;
+    new_stats JSONB;
+BEGIN
+    IF pg_trigger_depth() >= 2 OR COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'questions' THEN
+        new_stats := jsonb_build_object(
+            'votes', NEW.votes, 'answer_count', NEW.answer_count, 'has_accepted_answer', NEW.has_accepted_answer,
+            'view_count', NEW.view_count, 'hot_score', NEW.hot_score,
+            'created_at', NEW.created_at, 'last_activity_at', NEW.last_activity_at
+        );
+        -- New questions must keep the defaults; the times default to NOW(), the transaction start
+        old_stats := CASE WHEN TG_OP = 'INSERT'
+            THEN jsonb_build_object(
+                'votes', 0, 'answer_count', 0, 'has_accepted_answer', FALSE, 'view_count', 0, 'hot_score', NEW.hot_score,
+                'created_at', NOW(), 'last_activity_at', NOW()
+            )
+            ELSE jsonb_build_object(
+                'votes', OLD.votes, 'answer_count', OLD.answer_count, 'has_accepted_answer', OLD.has_accepted_answer,
+                'view_count', OLD.view_count, 'hot_score', OLD.hot_score,
+                'created_at', OLD.created_at, 'last_activity_at', OLD.last_activity_at
+            )
+        END;
+    ELSE
+        new_stats := jsonb_build_object('votes', NEW.votes);
+        old_stats := jsonb_build_object('votes', CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.votes END);
+    END IF;
+
+    IF new_stats IS DISTINCT FROM old_stats THEN
+        RAISE EXCEPTION 'Scores, counts and activity times are kept by the database' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers to guard question and answer stats
+CREATE OR REPLACE TRIGGER guard_question_stats
+    BEFORE INSERT OR UPDATE OF votes, answer_count, has_accepted_answer, view_count, hot_score, created_at, last_activity_at
+    ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_stats();
+
+CREATE OR REPLACE TRIGGER guard_answer_stats
+    BEFORE INSERT OR UPDATE OF votes ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_stats();
+
+-- Triggers to guard question and answer deletion
+CREATE OR REPLACE TRIGGER guard_question_deletion
+    BEFORE UPDATE OF deleted_at, deleted_by ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_deletion();
+
+CREATE OR REPLACE TRIGGER guard_answer_deletion
+    BEFORE UPDATE OF deleted_at, deleted_by ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_deletion();
+
+-- Create function to notify the answer author when their answer is accepted
+CREATE OR REPLACE FUNCTION public.notify_answer_accepted()
+RETURNS TRIGGER AS $$
+DECLARE
+    question_author UUID;
+BEGIN
+    IF NEW.is_accepted AND NOT COALESCE(OLD.is_accepted, FALSE) THEN
+        SELECT author_id INTO question_author FROM public.questions WHERE id = NEW.question_id;
+
+        IF NEW.author_id IS DISTINCT FROM question_author THEN
+            INSERT INTO public.notifications (user_id, actor_id, type, question_id, answer_id)
+            VALUES (NEW.author_id, question_author, 'answer_accepted', NEW.question_id, NEW.id);
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to notify on answer acceptance
+CREATE OR REPLACE TRIGGER on_answer_accepted
+    AFTER UPDATE OF is_accepted ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.notify_answer_accepted();
+
+-- Create function to award (or take back) the +15 acceptance bonus
+-- Accepting your own answer earns nothing
+CREATE OR REPLACE FUNCTION public.record_acceptance_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+    question_author UUID;
+BEGIN
+    IF NEW.is_accepted AND NOT COALESCE(OLD.is_accepted, FALSE) THEN
+        SELECT author_id INTO question_author FROM public.questions WHERE id = NEW.question_id;
+
+        IF NEW.author_id IS DISTINCT FROM question_author THEN
+            INSERT INTO public.reputation_events (user_id, actor_id, reason, points, question_id, answer_id)
+            VALUES (NEW.author_id, question_author, 'answer_accepted', 15, NEW.question_id, NEW.id)
+            ON CONFLICT (answer_id) WHERE reason = 'answer_accepted' DO NOTHING;
+        END IF;
+    ELSIF NOT NEW.is_accepted AND COALESCE(OLD.is_accepted, FALSE) THEN
+        DELETE FROM public.reputation_events
+        WHERE answer_id = NEW.id AND reason = 'answer_accepted';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to keep acceptance reputation in sync
+CREATE OR REPLACE TRIGGER on_answer_accepted_reputation
+    AFTER UPDATE OF is_accepted ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.record_acceptance_reputation();
+
+-- Create function to apply ledger changes to the cached reputation on profiles
+CREATE OR REPLACE FUNCTION public.apply_reputation_event()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE public.profiles SET reputation = reputation - OLD.points WHERE id = OLD.user_id;
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE public.profiles SET reputation = reputation + NEW.points WHERE id = NEW.user_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to keep profile reputation in sync with the ledger
+CREATE OR REPLACE TRIGGER on_reputation_event
+    AFTER INSERT OR UPDATE OF points OR DELETE ON public.reputation_events
+    FOR EACH ROW EXECUTE FUNCTION public.apply_reputation_event();
+
+-- Backfill the ledger from votes and accepted answers made before reputation existed
+-- (re-running is a no-op: existing events are skipped)
+DO $$
+DECLARE
+    existing_vote public.votes;
+BEGIN
+    FOR existing_vote IN
+        SELECT v.* FROM public.votes v
+        WHERE NOT EXISTS (SELECT 1 FROM public.reputation_events e WHERE e.vote_id = v.id)
+    LOOP
+        PERFORM public.record_vote_reputation(existing_vote);
+    END LOOP;
+END;
+$$;
+
+INSERT INTO public.reputation_events (user_id, actor_id, reason, points, question_id, answer_id)
+SELECT a.author_id, q.author_id, 'answer_accepted', 15, a.question_id, a.id
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE a.is_accepted AND a.author_id IS DISTINCT FROM q.author_id
+ON CONFLICT (answer_id) WHERE reason = 'answer_accepted' DO NOTHING;
+
+-- Create function to record question revisions when the title, description or tags change
+-- The first edit also stores the original version as revision 1
+CREATE OR REPLACE FUNCTION public.record_question_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    next_revision INTEGER;
+BEGIN
+    IF NEW.title IS NOT DISTINCT FROM OLD.title
+       AND NEW.description IS NOT DISTINCT FROM OLD.description
+       AND NEW.tags IS NOT DISTINCT FROM OLD.tags THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+    FROM public.post_revisions
+    WHERE question_id = NEW.id AND answer_id IS NULL;
+
+    IF next_revision = 1 THEN
+        INSERT INTO public.post_revisions (question_id, revision_number, title, description, tags, editor_id, created_at)
+        VALUES (OLD.id, 1, OLD.title, OLD.description, OLD.tags, OLD.author_id, OLD.created_at);
+        next_revision := 2;
+    END IF;
+
+    INSERT INTO public.post_revisions (question_id, revision_number, title, description, tags, editor_id)
+    VALUES (NEW.id, next_revision, NEW.title, NEW.description, NEW.tags, COALESCE(NEW.edited_by, NEW.author_id));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to record question revisions
+CREATE OR REPLACE TRIGGER on_question_edit
+    AFTER UPDATE OF title, description, tags ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.record_question_revision();
+
+-- Create function to record answer revisions when the content changes
+CREATE OR REPLACE FUNCTION public.record_answer_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    next_revision INTEGER;
+BEGIN
+    IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+    FROM public.post_revisions
+    WHERE answer_id = NEW.id;
+
+    IF next_revision = 1 THEN
+        INSERT INTO public.post_revisions (question_id, answer_id, revision_number, content, editor_id, created_at)
+        VALUES (OLD.question_id, OLD.id, 1, OLD.content, OLD.author_id, OLD.created_at);
+        next_revision := 2;
+    END IF;
+
+    INSERT INTO public.post_revisions (question_id, answer_id, revision_number, content, editor_id)
+    VALUES (NEW.question_id, NEW.id, next_revision, NEW.content, COALESCE(NEW.edited_by, NEW.author_id));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to record answer revisions
+CREATE OR REPLACE TRIGGER on_answer_edit
+    AFTER UPDATE OF content ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.record_answer_revision();
+
+-- Create function to stop users from changing roles through the profile update policy
+-- Only admins (or the service role) change roles, and never their own
+CREATE OR REPLACE FUNCTION public.guard_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role
+       AND auth.role() IS DISTINCT FROM 'service_role'
+       AND (NOT public.has_role('admin') OR NEW.id = auth.uid()) THEN
+        RAISE EXCEPTION 'Roles can only be changed by an administrator' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create function to stop users from editing their own reputation
+-- Reputation only changes through the ledger trigger (which runs nested in another trigger)
+CREATE OR REPLACE FUNCTION public.guard_profile_reputation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.reputation IS DISTINCT FROM OLD.reputation
+        AND pg_trigger_depth() < 2
+        AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Reputation can only be changed by the reputation ledger' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to guard profile reputation
+CREATE OR REPLACE TRIGGER guard_profile_reputation
+    BEFORE UPDATE OF reputation ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_reputation();
+
+-- Trigger to guard profile roles
+CREATE OR REPLACE TRIGGER guard_profile_role
+    BEFORE UPDATE OF role ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_role();
+
+-- Create function to stop users from lifting their own suspension through the profile update policy
+-- Suspensions are set and lifted through the moderation API routes (service role)
+CREATE OR REPLACE FUNCTION public.guard_profile_suspension()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.suspended_until, NEW.suspension_reason) IS DISTINCT FROM (OLD.suspended_until, OLD.suspension_reason)
+       AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Suspensions can only be changed by a moderator' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to guard profile suspensions
+CREATE OR REPLACE TRIGGER guard_profile_suspension
+    BEFORE UPDATE OF suspended_until, suspension_reason ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_suspension();
+
+-- Create function to hide posts written during a shadow ban
+-- Runs on every insert, so posts made through the API and directly are both covered
+CREATE OR REPLACE FUNCTION public.mark_shadowed_post()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.is_shadowed := EXISTS (
+        SELECT 1 FROM public.shadow_bans
+        WHERE user_id = NEW.author_id AND expires_at > NOW()
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers to mark shadowed questions and answers
+CREATE OR REPLACE TRIGGER mark_shadowed_question
+    BEFORE INSERT ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.mark_shadowed_post();
+
+CREATE OR REPLACE TRIGGER mark_shadowed_answer
+    BEFORE INSERT ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.mark_shadowed_post();
+
+-- Create function to stop shadow-banned authors from unhiding their posts through the update policies
+CREATE OR REPLACE FUNCTION public.guard_post_shadow()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_shadowed IS DISTINCT FROM OLD.is_shadowed
+       AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RAISE EXCEPTION 'Shadowed posts can only be changed by a moderator' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers to guard shadowed questions and answers
+CREATE OR REPLACE TRIGGER guard_question_shadow
+    BEFORE UPDATE OF is_shadowed ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_shadow();
+
+CREATE OR REPLACE TRIGGER guard_answer_shadow
+    BEFORE UPDATE OF is_shadowed ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.guard_post_shadow();
+
+-- Create function to score questions for the "hot" sort
+-- Votes and answers count logarithmically and every 12.5 hours of age is worth one order
+-- of magnitude of score, so newer questions overtake older ones without a now()-based
+-- ranking that could not be indexed
+CREATE OR REPLACE FUNCTION public.question_hot_score(p_votes INTEGER, p_answer_count INTEGER, p_created_at TIMESTAMP WITH TIME ZONE)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT sign(p_votes + p_answer_count) * log(greatest(abs(p_votes + p_answer_count), 1))
+        + extract(epoch FROM p_created_at) / 45000;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Create function to refresh the hot score whenever its inputs change
+CREATE OR REPLACE FUNCTION public.update_question_hot_score()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.hot_score := public.question_hot_score(COALESCE(NEW.votes, 0), NEW.answer_count, COALESCE(NEW.created_at, NOW()));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to keep hot scores current
+CREATE OR REPLACE TRIGGER on_question_hot_score_change
+    BEFORE INSERT OR UPDATE OF votes, answer_count, created_at ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.update_question_hot_score();
+
+-- Create function to bump a question's activity time when it is edited
+CREATE OR REPLACE FUNCTION public.touch_question_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.last_activity_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to bump activity on question edits
+CREATE OR REPLACE TRIGGER on_question_activity
+    BEFORE UPDATE OF title, description, tags ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.touch_question_activity();
+
+-- Create function to keep a question's answer stats in sync with its answers
+-- Deleted and shadowed answers are not counted; new and edited answers bump the question's activity
+CREATE OR REPLACE FUNCTION public.update_question_answer_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_question_id UUID := COALESCE(NEW.question_id, OLD.question_id);
+BEGIN
+    UPDATE public.questions q
+    SET answer_count = stats.answer_count,
+        has_accepted_answer = stats.has_accepted_answer,
+        last_activity_at = CASE
+            WHEN TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.content IS DISTINCT FROM OLD.content)
+                THEN NOW()
+            ELSE q.last_activity_at
+        END
+    FROM (
+        SELECT
+            COUNT(*) FILTER (WHERE deleted_at IS NULL AND NOT is_shadowed)::INTEGER AS answer_count,
+            COALESCE(BOOL_OR(is_accepted AND deleted_at IS NULL), FALSE) AS has_accepted_answer
+        FROM public.answers
+        WHERE question_id = target_question_id
+    ) stats
+    WHERE q.id = target_question_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to refresh answer stats
+CREATE OR REPLACE TRIGGER on_answer_stats_change
+    AFTER INSERT OR DELETE OR UPDATE OF content, is_accepted, deleted_at ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.update_question_answer_stats();
+
+-- Backfill listing stats for questions that existed before they were added
+UPDATE public.questions q
+SET answer_count = stats.answer_count,
+    has_accepted_answer = stats.has_accepted_answer,
+    last_activity_at = GREATEST(q.created_at, stats.last_answer_at, q.edited_at)
+FROM (
+    SELECT
+        q2.id,
+        COUNT(a.id) FILTER (WHERE a.deleted_at IS NULL)::INTEGER AS answer_count,
+        COALESCE(BOOL_OR(a.is_accepted AND a.deleted_at IS NULL), FALSE) AS has_accepted_answer,
+        MAX(a.created_at) FILTER (WHERE a.deleted_at IS NULL) AS last_answer_at
+    FROM public.questions q2
+    LEFT JOIN public.answers a ON a.question_id = q2.id
+    GROUP BY q2.id
+) stats
+WHERE q.id = stats.id;
+
+-- Create function to rank questions for a user's "For you" feed
+-- Starts from the hot score; a watched tag adds a boost worth about a day of recency
+-- and an ignored tag takes the same amount off (or leaves the question out, with hide_ignored_tags)
+CREATE OR REPLACE FUNCTION public.for_you_questions(p_user_id UUID, p_limit INTEGER DEFAULT 10, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (id UUID, total_count BIGINT) AS $$
+    SELECT q.id, COUNT(*) OVER() AS total_count
+    FROM public.questions q
+    CROSS JOIN (
+        SELECT watched_tags, ignored_tags, hide_ignored_tags FROM public.profiles WHERE profiles.id = p_user_id
+    ) prefs
+    WHERE q.deleted_at IS NULL AND NOT q.is_shadowed
+        AND NOT (prefs.hide_ignored_tags AND q.tags && prefs.ignored_tags)
+    ORDER BY q.hot_score
+        + CASE WHEN q.tags && prefs.watched_tags THEN 2 ELSE 0 END
+        - CASE WHEN q.tags && prefs.ignored_tags THEN 2 ELSE 0 END DESC,
+        q.created_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to keep tag usage counts in sync with live questions
+-- Tags are created the first time a question uses them
+CREATE OR REPLACE FUNCTION public.sync_tag_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_tags TEXT[] := '{}';
+    new_tags TEXT[] := '{}';
+BEGIN
+    IF TG_OP <> 'INSERT' AND OLD.deleted_at IS NULL THEN
+        old_tags := COALESCE(OLD.tags, '{}');
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND NEW.deleted_at IS NULL THEN
+        new_tags := COALESCE(NEW.tags, '{}');
+    END IF;
+
+    INSERT INTO public.tags (name)
+    SELECT DISTINCT t.name FROM unnest(new_tags) AS t(name)
+    ON CONFLICT (name) DO NOTHING;
+
+    UPDATE public.tags
+    SET usage_count = usage_count - 1
+    WHERE name = ANY(old_tags) AND NOT name = ANY(new_tags);
+
+    UPDATE public.tags
+    SET usage_count = usage_count + 1
+    WHERE name = ANY(new_tags) AND NOT name = ANY(old_tags);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to count tag usage (deleting or restoring a question counts too)
+CREATE OR REPLACE TRIGGER on_question_tags_change
+    AFTER INSERT OR DELETE OR UPDATE OF tags, deleted_at ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.sync_tag_usage();
+
+-- Backfill tags for questions that existed before the tags table
+INSERT INTO public.tags (name, usage_count)
+SELECT t.name, COUNT(DISTINCT q.id)
+FROM public.questions q
+CROSS JOIN LATERAL unnest(q.tags) AS t(name)
+WHERE q.deleted_at IS NULL
+GROUP BY t.name
+ON CONFLICT (name) DO UPDATE SET usage_count = EXCLUDED.usage_count;
+
+-- Create function to count a question view
+CREATE OR REPLACE FUNCTION public.increment_question_views(p_question_id UUID)
+RETURNS VOID AS $$
+    UPDATE public.questions SET view_count = view_count + 1 WHERE id = p_question_id AND deleted_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Views are counted by the API (service role) only
+REVOKE EXECUTE ON FUNCTION public.increment_question_views(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create function listing the users (and posts or tags) that meet one badge criterion
+-- Criteria and thresholds come from the badge rules in src/lib/badges.ts:
+--   question_count         users with at least p_threshold live questions
+--   accepted_answer_count  users with at least p_threshold accepted answers on other users' questions
+--   answer_score           live answers scored at least p_threshold
+--   unanswered_question    questions older than p_days with no answers, no score and at most p_threshold views
+--   tag_answer_score       users whose answers in a tag total at least p_threshold score
+CREATE OR REPLACE FUNCTION public.badge_candidates(p_criterion TEXT, p_threshold INTEGER, p_days INTEGER DEFAULT NULL)
+RETURNS TABLE (user_id UUID, question_id UUID, answer_id UUID, tag TEXT) AS $$
+BEGIN
+    IF p_criterion = 'question_count' THEN
+        RETURN QUERY
+        SELECT q.author_id, NULL::UUID, NULL::UUID, NULL::TEXT
+        FROM public.questions q
+        WHERE q.deleted_at IS NULL AND q.author_id IS NOT NULL
+        GROUP BY q.author_id
+        HAVING COUNT(*) >= p_threshold;
+    ELSIF p_criterion = 'accepted_answer_count' THEN
+        RETURN QUERY
+        SELECT a.author_id, NULL::UUID, NULL::UUID, NULL::TEXT
+        FROM public.answers a
+        JOIN public.questions q ON q.id = a.question_id
+        WHERE a.is_accepted AND a.deleted_at IS NULL AND a.author_id IS DISTINCT FROM q.author_id
+        GROUP BY a.author_id
+        HAVING COUNT(*) >= p_threshold;
+    ELSIF p_criterion = 'answer_score' THEN
+        RETURN QUERY
+        SELECT a.author_id, a.question_id, a.id, NULL::TEXT
+        FROM public.answers a
+        WHERE a.deleted_at IS NULL AND a.votes >= p_threshold AND a.author_id IS NOT NULL;
+    ELSIF p_criterion = 'unanswered_question' THEN
+        RETURN QUERY
+        SELECT q.author_id, q.id, NULL::UUID, NULL::TEXT
+        FROM public.questions q
+        WHERE q.deleted_at IS NULL
+            AND q.author_id IS NOT NULL
+            AND q.created_at <= NOW() - make_interval(days => COALESCE(p_days, 7))
+            AND q.answer_count = 0
+            AND q.votes = 0
+            AND q.view_count <= p_threshold;
+    ELSIF p_criterion = 'tag_answer_score' THEN
+        RETURN QUERY
+        SELECT a.author_id, NULL::UUID, NULL::UUID, t.tag
+        FROM public.answers a
+        JOIN public.questions q ON q.id = a.question_id
+        CROSS JOIN LATERAL unnest(q.tags) AS t(tag)
+        WHERE a.deleted_at IS NULL AND q.deleted_at IS NULL AND a.author_id IS NOT NULL
+        GROUP BY a.author_id, t.tag
+        HAVING SUM(a.votes) >= p_threshold;
+    ELSE
+        RAISE EXCEPTION 'Unknown badge criterion: %', p_criterion USING ERRCODE = '22023';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function to award one badge to every candidate that doesn't have it yet
+-- Returns the number of new awards; each award notifies its user via on_badge_awarded
+CREATE OR REPLACE FUNCTION public.award_badge(p_slug TEXT, p_criterion TEXT, p_threshold INTEGER, p_days INTEGER DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    awarded INTEGER;
+BEGIN
+    INSERT INTO public.user_badges (user_id, badge_slug, tag, question_id, answer_id)
+    SELECT c.user_id, p_slug, c.tag, c.question_id, c.answer_id
+    FROM public.badge_candidates(p_criterion, p_threshold, p_days) c
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS awarded = ROW_COUNT;
+    RETURN awarded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Badges are awarded by the badge job (service role) only
+REVOKE EXECUTE ON FUNCTION public.award_badge(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Create function listing suspicious votes for the vote fraud job, grouped by voter and post author
+-- Patterns and thresholds come from the rules in src/lib/vote-fraud-job.ts:
+--   serial  at least p_threshold votes in one direction from one user on one author's posts
+--           within p_window_hours, among the votes cast in the last p_lookback_hours
+--   ring    two users who each upvoted the other's posts at least p_threshold times in the
+--           last p_lookback_hours (p_window_hours is unused); both directions are returned
+-- Self-votes earn no reputation and are never returned
+CREATE OR REPLACE FUNCTION public.vote_fraud_candidates(
+    p_pattern TEXT,
+    p_threshold INTEGER,
+    p_window_hours INTEGER,
+    p_lookback_hours INTEGER
+)
+RETURNS TABLE (voter_id UUID, author_id UUID, vote_ids UUID[]) AS $$
+BEGIN
+    IF p_pattern = 'serial' THEN
+        RETURN QUERY
+        WITH recent AS (
+            SELECT v.id, v.user_id, v.vote_type, v.created_at, COALESCE(q.author_id, a.author_id) AS post_author
+            FROM public.votes v
+            LEFT JOIN public.questions q ON v.target_type = 'question' AND q.id = v.target_id
+            LEFT JOIN public.answers a ON v.target_type = 'answer' AND a.id = v.target_id
+            WHERE v.created_at > NOW() - make_interval(hours => p_lookback_hours)
+        ),
+        -- Windows that start at a vote and hold p_threshold or more votes of the same kind
+        bursts AS (
+            SELECT array_agg(later.id) AS ids
+            FROM recent start
+            JOIN recent later
+                ON later.user_id = start.user_id
+                AND later.post_author = start.post_author
+                AND later.vote_type = start.vote_type
+                AND later.created_at >= start.created_at
+                AND later.created_at < start.created_at + make_interval(hours => p_window_hours)
+            WHERE start.post_author IS NOT NULL AND start.post_author <> start.user_id
+            GROUP BY start.id
+            HAVING COUNT(*) >= p_threshold
+        )
+        SELECT r.user_id, r.post_author, array_agg(DISTINCT r.id)
+        FROM bursts b
+        CROSS JOIN LATERAL unnest(b.ids) AS burst(id)
+        JOIN recent r ON r.id = burst.id
+        GROUP BY r.user_id, r.post_author;
+    ELSIF p_pattern = 'ring' THEN
+        RETURN QUERY
+        WITH pairs AS (
+            SELECT v.user_id, COALESCE(q.author_id, a.author_id) AS post_author, array_agg(v.id) AS ids
+            FROM public.votes v
+            LEFT JOIN public.questions q ON v.target_type = 'question' AND q.id = v.target_id
+            LEFT JOIN public.answers a ON v.target_type = 'answer' AND a.id = v.target_id
+            WHERE v.vote_type = 'upvote'
+                AND v.created_at > NOW() - make_interval(hours => p_lookback_hours)
+            GROUP BY v.user_id, COALESCE(q.author_id, a.author_id)
+            HAVING COUNT(*) >= p_threshold
+        )
+        SELECT p.user_id, p.post_author, p.ids
+        FROM pairs p
+        WHERE p.post_author IS NOT NULL
+            AND p.post_author <> p.user_id
+            AND EXISTS (
+                SELECT 1 FROM pairs back
+                WHERE back.user_id = p.post_author AND back.post_author = p.user_id
+            );
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function listing a user's top tags for their profile
+-- Scores add up the user's live questions and answers in each tag
+CREATE OR REPLACE FUNCTION public.user_top_tags(p_user_id UUID, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (tag TEXT, score BIGINT, post_count BIGINT) AS $$
+    SELECT t.tag, SUM(p.votes)::BIGINT, COUNT(*)::BIGINT
+    FROM (
+        SELECT q.tags, q.votes
+        FROM public.questions q
+        WHERE q.author_id = p_user_id AND q.deleted_at IS NULL
+        UNION ALL
+        SELECT q.tags, a.votes
+        FROM public.answers a
+        JOIN public.questions q ON q.id = a.question_id
+        WHERE a.author_id = p_user_id AND a.deleted_at IS NULL AND q.deleted_at IS NULL
+    ) p
+    CROSS JOIN LATERAL unnest(p.tags) AS t(tag)
+    GROUP BY t.tag
+    ORDER BY 2 DESC, 3 DESC, t.tag
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to notify users about new badges
+CREATE OR REPLACE FUNCTION public.notify_badge_awarded()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, question_id, answer_id, badge_id)
+    VALUES (NEW.user_id, 'badge_awarded', NEW.question_id, NEW.answer_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to notify on badge awards
+CREATE OR REPLACE TRIGGER on_badge_awarded
+    AFTER INSERT ON public.user_badges
+    FOR EACH ROW EXECUTE FUNCTION public.notify_badge_awarded();
+
+-- Create function to keep a question's search document in sync with its title and description
+CREATE OR REPLACE FUNCTION public.sync_question_search()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.question_search (question_id, title, description)
+    VALUES (NEW.id, NEW.title, NEW.description)
+    ON CONFLICT (question_id) DO UPDATE
+        SET title = EXCLUDED.title,
+            description = EXCLUDED.description;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to index new and edited questions
+CREATE OR REPLACE TRIGGER on_question_search_change
+    AFTER INSERT OR UPDATE OF title, description ON public.questions
+    FOR EACH ROW EXECUTE FUNCTION public.sync_question_search();
+
+-- Create function to rebuild the answer text of a question's search document
+-- Deleted answers are left out so their content stops matching searches
+CREATE OR REPLACE FUNCTION public.sync_question_search_answers()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_question_id UUID := COALESCE(NEW.question_id, OLD.question_id);
+BEGIN
+    UPDATE public.question_search
+    SET answers_text = COALESCE((
+        SELECT string_agg(content, E'\n\n' ORDER BY created_at)
+        FROM public.answers
+        WHERE question_id = target_question_id AND deleted_at IS NULL
+    ), '')
+    WHERE question_id = target_question_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to re-index a question when its answers change
+CREATE OR REPLACE TRIGGER on_answer_search_change
+    AFTER INSERT OR DELETE OR UPDATE OF content, deleted_at ON public.answers
+    FOR EACH ROW EXECUTE FUNCTION public.sync_question_search_answers();
+
+-- Index questions that existed before search was added
+INSERT INTO public.question_search (question_id, title, description, answers_text)
+SELECT q.id, q.title, q.description, COALESCE((
+    SELECT string_agg(a.content, E'\n\n' ORDER BY a.created_at)
+    FROM public.answers a
+    WHERE a.question_id = q.id AND a.deleted_at IS NULL
+), '')
+FROM public.questions q
+ON CONFLICT (question_id) DO NOTHING;
+
+-- Create function for full-text search over questions and their answers
+-- Operators are parsed by the API (src/lib/search.ts) and passed in as filters;
+-- p_query accepts web-search syntax ("quoted phrases", OR, -excluded words)
+-- Highlights wrap matches in <mark></mark> and are only computed for the returned page
+CREATE OR REPLACE FUNCTION public.search_questions(
+    p_query TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_author TEXT DEFAULT NULL,
+    p_is_answered BOOLEAN DEFAULT NULL,
+    p_min_score INTEGER DEFAULT NULL,
+    p_max_score INTEGER DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+) AS $$
+    WITH search AS (
+        SELECT CASE
+            WHEN NULLIF(btrim(p_query), '') IS NULL THEN NULL
+            ELSE websearch_to_tsquery('english', p_query)
+        END AS query
+    ),
+    matches AS (
+        SELECT
+            q.id,
+            q.created_at,
+            s.title,
+            s.description,
+            COALESCE(ts_rank(s.search_vector, search.query), 0) AS rank,
+            COUNT(*) OVER () AS total_count
+        FROM public.questions q
+        JOIN public.question_search s ON s.question_id = q.id
+        CROSS JOIN search
+        WHERE q.deleted_at IS NULL
+            AND NOT q.is_shadowed
+            AND (search.query IS NULL OR s.search_vector @@ search.query)
+            AND (p_tags IS NULL OR q.tags @> p_tags)
+            AND (p_author IS NULL OR EXISTS (
+                SELECT 1 FROM public.profiles p
+                WHERE p.id = q.author_id AND lower(p.username) = lower(p_author)
+            ))
+            AND (p_is_answered IS NULL OR p_is_answered = EXISTS (
+                SELECT 1 FROM public.answers a
+                WHERE a.question_id = q.id AND a.deleted_at IS NULL
+            ))
+            AND (p_min_score IS NULL OR q.votes >= p_min_score)
+            AND (p_max_score IS NULL OR q.votes <= p_max_score)
+        ORDER BY rank DESC, q.created_at DESC
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT
+        m.id,
+        m.rank,
+        CASE WHEN search.query IS NULL THEN m.title
+            ELSE ts_headline('english', m.title, search.query,
+                'StartSel=<mark>, StopSel=</mark>, HighlightAll=TRUE')
+        END,
+        CASE WHEN search.query IS NULL THEN left(m.description, 200)
+            ELSE ts_headline('english', m.description, search.query,
+                'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2')
+        END,
+        m.total_count
+    FROM matches m
+    CROSS JOIN search
+    ORDER BY m.rank DESC, m.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to find questions whose title is close to a draft title
+-- Titles match by trigram similarity (the % operator, so the trigram index is used);
+-- every tag the draft shares with a question lifts it a little in the ranking
+CREATE OR REPLACE FUNCTION public.similar_questions(
+    p_title TEXT,
+    p_tags TEXT[] DEFAULT '{}',
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (id UUID, similarity REAL, shared_tags TEXT[]) AS $$
+    SELECT m.id, m.similarity, m.shared_tags
+    FROM (
+        SELECT
+            q.id,
+            q.votes,
+            similarity(q.title, p_title) AS similarity,
+            ARRAY(
+                SELECT t.name FROM unnest(q.tags) AS t(name)
+                WHERE t.name = ANY(COALESCE(p_tags, '{}'))
+            ) AS shared_tags
+        FROM public.questions q
+        WHERE q.deleted_at IS NULL
+            AND NOT q.is_shadowed
+            AND q.title % p_title
+    ) m
+    ORDER BY m.similarity + 0.1 * cardinality(m.shared_tags) DESC, m.votes DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Create function to count one write against a rate limit key
+-- Returns the hits in the current window and when it ends; an expired window starts over.
+-- A single upsert, so concurrent requests from several server instances are all counted.
+-- About one call in a hundred also sweeps a batch of expired windows so the table doesn't grow forever
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_key TEXT, p_window_seconds INTEGER)
+RETURNS TABLE (hits INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+#variable_conflict use_column
+BEGIN
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limits
+        WHERE key IN (
+            SELECT expired.key FROM public.rate_limits expired
+            WHERE expired.reset_at <= NOW() AND expired.key <> p_key
+            LIMIT 1000
+        );
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.rate_limits AS r (key, hits, reset_at)
+    VALUES (p_key, 1, NOW() + make_interval(secs => p_window_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        hits = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.hits + 1 END,
+        reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+    RETURNING r.hits, r.reset_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rate limits are counted by the API (service role) only
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
 -- Create function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION public.update_updated_at()
 RETURNS TRIGGER AS $$
@@ -200,6 +1601,18 @@ CREATE OR REPLACE TRIGGER update_answers_updated_at
     BEFORE UPDATE ON public.answers
     FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
 
+CREATE OR REPLACE TRIGGER update_comments_updated_at
+    BEFORE UPDATE ON public.comments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE OR REPLACE TRIGGER update_tags_updated_at
+    BEFORE UPDATE ON public.tags
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE OR REPLACE TRIGGER update_drafts_updated_at
+    BEFORE UPDATE ON public.drafts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
 -- Insert sample data for testing (optional)
 -- Uncomment the following lines to insert sample data
 
@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Search, ShieldAlert } from 'lucide-react'
+import Pagination from '@/components/ui/Pagination'
+import { getCurrentUserProfile, getUsersWithRoles, setUserRole } from '@/lib/api'
+import { isAdmin } from '@/lib/permissions'
+import { USER_ROLES } from '@/lib/constants'
+import { PaginatedResponse, Profile, UserRole, UserWithRole } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+const ROLE_FILTERS: { role: UserRole | null; label: string }[] = [
+  { role: null, label: 'All users' },
+  { role: 'moderator', label: 'Moderators' },
+  { role: 'admin', label: 'Admins' }
+]
+
+/**
+ * Admin page to grant and revoke moderator and admin roles
+ * Filter, role and page live in the URL
+ */
+function RolesPageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const filter = searchParams.get('q') || ''
+  const roleParam = searchParams.get('role') as UserRole
+  const role = Object.hasOwn(USER_ROLES, roleParam) ? roleParam : null
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+
+  const [viewer, setViewer] = useState<Profile | null | undefined>(undefined)
+  const [users, setUsers] = useState<PaginatedResponse<UserWithRole> | null>(null)
+  const [filterInput, setFilterInput] = useState(filter)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getCurrentUserProfile().then(setViewer)
+  }, [])
+
+  const canManage = !!viewer && isAdmin(viewer.role)
+
+  useEffect(() => {
+    if (!canManage) return
+
+    const fetchUsers = async () => {
+      setUsers(null)
+      const result = await getUsersWithRoles(filter, role || undefined, page)
+      setUsers(result)
+      logInfo('Users with roles loaded', { filter, role, page, count: result.count })
+    }
+
+    fetchUsers()
+  }, [canManage, filter, role, page])
+
+  /**
+   * Update the filter, role or page in the URL
+   */
+  const updateParams = (changes: { q?: string; role?: UserRole | null; page?: number }) => {
+    const params = new URLSearchParams({ page: String(changes.page ?? 1) })
+    const q = changes.q ?? filter
+    const nextRole = changes.role === undefined ? role : changes.role
+    if (q) {
+      params.set('q', q)
+    }
+    if (nextRole) {
+      params.set('role', nextRole)
+    }
+    router.push(`/admin/roles?${params}`)
+  }
+
+  /**
+   * Change a user's role and update their row in place
+   */
+  const handleRoleChange = async (user: UserWithRole, newRole: UserRole) => {
+    setSavingId(user.id)
+    setError('')
+
+    const updated = await setUserRole(user.id, newRole)
+
+    if (updated && users) {
+      setUsers({ ...users, data: users.data.map(other => (other.id === updated.id ? updated : other)) })
+      logInfo('User role changed', { userId: user.id, role: newRole })
+    } else {
+      setError(`Failed to change the role of ${user.username}`)
+    }
+
+    setSavingId(null)
+  }
+
+  if (viewer === undefined) {
+    return <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-dark-muted">Loading...</div>
+  }
+
+  if (!canManage) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6 flex items-center text-dark-text">
+          <ShieldAlert className="h-5 w-5 text-red-400 mr-3" />
+          Only admins can see this page.
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-white mb-2">Roles</h1>
+      <p className="text-dark-text mb-6 max-w-2xl">
+        Moderators review flags, delete and restore posts, and close or reopen questions with a single vote.
+        Admins can also grant and revoke roles. Every change is recorded in the moderation audit log.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            updateParams({ q: filterInput.trim() })
+          }}
+          className="relative"
+        >
+          <input
+            type="text"
+            value={filterInput}
+            onChange={(e) => setFilterInput(e.target.value)}
+            placeholder="Find a user"
+            className="w-full sm:w-72 px-4 py-2 pl-10 bg-dark-card text-dark-text rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-dark-muted" />
+        </form>
+
+        <div className="flex space-x-2">
+          {ROLE_FILTERS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => updateParams({ role: option.role })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                role === option.role ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {!users ? (
+        <div className="space-y-3">
+          {Array.from({ length: 5 }).map((_, index) => (
+            <div key={index} className="bg-dark-card border border-dark-border rounded-lg p-4 animate-pulse">
+              <div className="h-4 bg-dark-accent rounded w-1/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : users.data.length === 0 ? (
+        <p className="bg-dark-card border border-dark-border rounded-lg p-6 text-dark-muted">
+          {filter ? `No users match "${filter}"` : 'No users with this role'}
+        </p>
+      ) : (
+        <ul className="bg-dark-card border border-dark-border rounded-lg divide-y divide-dark-border">
+          {users.data.map(user => (
+            <li key={user.id} className="p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <Link
+                  href={`/users/${encodeURIComponent(user.username)}`}
+                  className="font-medium text-white hover:text-primary-light transition-colors"
+                >
+                  {user.username}
+                </Link>
+                <p className="text-xs text-dark-muted">{user.reputation.toLocaleString()} reputation</p>
+              </div>
+
+              {user.id === viewer.id ? (
+                <span className="text-sm text-dark-muted">{USER_ROLES[user.role]} (you)</span>
+              ) : (
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                  disabled={savingId === user.id}
+                  className="px-3 py-1 bg-dark-bg text-dark-text text-sm rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                >
+                  {(Object.keys(USER_ROLES) as UserRole[]).map(option => (
+                    <option key={option} value={option}>{USER_ROLES[option]}</option>
+                  ))}
+                </select>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {users && users.total_pages > 1 && (
+        <div className="mt-6">
+          <Pagination
+            currentPage={page}
+            totalPages={users.total_pages}
+            onPageChange={(newPage) => updateParams({ page: newPage })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Roles page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function RolesPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-dark-bg" />}>
+      <RolesPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { logModeratorAction } from '@/lib/moderation-log'
+import { USER_ROLES } from '@/lib/constants'
+import { UserRole } from '@/types/database'
+
+/**
+ * API route to grant or revoke a user's role (admins only)
+ * Admins cannot change their own role, so the site always keeps at least one admin
+ * PUT /api/admin/users/[id]/role { role: 'user' | 'moderator' | 'admin' }
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('admin')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { role } = await request.json()
+
+    if (typeof role !== 'string' || !Object.hasOwn(USER_ROLES, role)) {
+      return NextResponse.json({ error: 'Choose a valid role' }, { status: 400 })
+    }
+
+    if (params.id === profile.id) {
+      return NextResponse.json({ error: 'You cannot change your own role' }, { status: 403 })
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, username, role')
+      .eq('id', params.id)
+      .single()
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (existing.role === role) {
+      return NextResponse.json({ error: `${existing.username} is already a ${role}` }, { status: 409 })
+    }
+
+    console.log('Changing user role:', { userId: params.id, from: existing.role, to: role })
+
+    const { data: user, error } = await supabaseAdmin
+      .from('profiles')
+      .update({ role: role as UserRole })
+      .eq('id', params.id)
+      .select('id, username, avatar_url, role, reputation, created_at')
+      .single()
+
+    if (error) {
+      console.error('Role update error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    await logModeratorAction({
+      moderatorId: profile.id,
+      action: 'role_changed',
+      targetType: 'user',
+      targetId: existing.id,
+      note: `${existing.username}: ${existing.role} → ${role}`
+    })
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { USER_ROLES } from '@/lib/constants'
+import { PaginatedResponse, UserRole, UserWithRole } from '@/types/database'
+
+/**
+ * API route for the admin roles page: users filtered by name or role (admins only)
+ * GET /api/admin/users?q=ali&role=moderator&page=1&limit=20
+ */
+export async function GET(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('admin')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    const role = searchParams.get('role') as UserRole
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 50)
+    const from = (page - 1) * limit
+
+    let usersQuery = supabaseAdmin
+      .from('profiles')
+      .select('id, username, avatar_url, role, reputation, created_at', { count: 'exact' })
+
+    if (query) {
+      // Escape LIKE wildcards so they match literally
+      usersQuery = usersQuery.ilike('username', `%${query.replace(/[\\%_]/g, '\\$&')}%`)
+    }
+
+    if (Object.hasOwn(USER_ROLES, role)) {
+      usersQuery = usersQuery.eq('role', role)
+    }
+
+    const { data: users, error, count } = await usersQuery
+      .order('username', { ascending: true })
+      .range(from, from + limit - 1)
+
+    if (error) {
+      console.error('Users fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<UserWithRole> = {
+      data: users || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { setAnswerAccepted } from '@/lib/answers'
+
+/**
+ * API route to accept an answer, replacing any previously accepted answer (question author only)
+ * POST /api/answers/[id]/accept
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Accepting answer ID:', params.id)
+
+    const { answer, error, status } = await setAnswerAccepted(params.id, true)
+
+    if (error || !answer) {
+      console.error('Answer accept error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully accepted answer:', {
+      id: answer.id,
+      questionId: answer.question_id
+    })
+
+    return NextResponse.json(answer)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
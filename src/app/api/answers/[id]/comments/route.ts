@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import { getSession, requireWriteAccess } from '@/lib/auth'
+import { fetchComments, insertComment } from '@/lib/comments'
+import { findVisiblePost } from '@/lib/posts'
+import { validateCommentContent } from '@/lib/validation'
+
+/**
+ * API route to list comments on an answer
+ * GET /api/answers/[id]/comments
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Fetching comments for answer ID:', params.id)
+
+    const { post, error: postError, status: postStatus } = await findVisiblePost('answers', params.id, await getSession())
+
+    if (!post) {
+      return NextResponse.json({ error: postError }, { status: postStatus })
+    }
+
+    const { data: comments, error } = await fetchComments(post.question_id, params.id)
+
+    if (error) {
+      console.error('Comments fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(comments || [])
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to add a comment to an answer
+ * POST /api/answers/[id]/comments
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Creating comment for answer ID:', params.id)
+
+    const { content, parent_id } = await request.json()
+
+    const validationError = validateCommentContent(content)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+
+    const { post, error: postError, status: postStatus } = await findVisiblePost('answers', params.id, profile)
+
+    if (!post) {
+      return NextResponse.json({ error: postError }, { status: postStatus })
+    }
+
+    if (post.deleted) {
+      return NextResponse.json({ error: 'Deleted answers cannot be commented on' }, { status: 403 })
+    }
+
+    const { comment, error, status } = await insertComment({
+      questionId: post.question_id,
+      answerId: params.id,
+      parentId: parent_id,
+      authorId: profile.id,
+      content
+    })
+
+    if (error || !comment) {
+      console.error('Comment creation error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully created comment:', {
+      id: comment.id,
+      answerId: params.id,
+      authorId: profile.id
+    })
+
+    return NextResponse.json(comment)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { setPostDeleted } from '@/lib/posts'
+
+/**
+ * API route to restore a soft-deleted answer (author or moderator, within the restore window)
+ * POST /api/answers/[id]/restore
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Restoring answer with ID:', params.id)
+
+    const { post, error, status } = await setPostDeleted('answers', params.id, false)
+
+    if (error || !post) {
+      console.error('Answer restore error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully restored answer:', {
+      id: post.id,
+      deletedBy: post.deleted_by
+    })
+
+    return NextResponse.json(post)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
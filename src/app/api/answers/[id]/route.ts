@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireWriteAccess } from '@/lib/auth'
+import { setPostDeleted } from '@/lib/posts'
+import { hasPrivilege, privilegeMessage } from '@/lib/permissions'
+import { validateAnswerContent } from '@/lib/validation'
+
+/**
+ * API route to edit an answer (author, or users with the edit privilege)
+ * Previous versions are kept in post_revisions by the on_answer_edit trigger
+ * PATCH /api/answers/[id]
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Editing answer with ID:', params.id)
+
+    const { content } = await request.json()
+
+    const validationError = validateAnswerContent(content)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('answers')
+      .select('id, author_id, deleted_at')
+      .eq('id', params.id)
+      .single()
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    if (existing.deleted_at) {
+      return NextResponse.json({ error: 'Deleted answers cannot be edited' }, { status: 409 })
+    }
+
+    if (existing.author_id !== profile.id && !hasPrivilege(profile, 'edit_others_posts')) {
+      return NextResponse.json({ error: privilegeMessage('edit_others_posts') }, { status: 403 })
+    }
+
+    const { data: answer, error: updateError } = await supabaseAdmin
+      .from('answers')
+      .update({
+        content: content.trim(),
+        edited_at: new Date().toISOString(),
+        edited_by: profile.id
+      })
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Answer update error:', updateError)
+      return NextResponse.json({ error: updateError.message }, { status: 500 })
+    }
+
+    console.log('Successfully edited answer:', {
+      id: params.id,
+      editorId: profile.id
+    })
+
+    return NextResponse.json(answer)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to soft-delete an answer (author or moderator)
+ * DELETE /api/answers/[id]
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Deleting answer with ID:', params.id)
+
+    const { post, error, status } = await setPostDeleted('answers', params.id, true)
+
+    if (error || !post) {
+      console.error('Answer delete error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully deleted answer:', {
+      id: post.id,
+      deletedBy: post.deleted_by
+    })
+
+    return NextResponse.json(post)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { setAnswerAccepted } from '@/lib/answers'
+
+/**
+ * API route to remove the accepted mark from an answer (question author only)
+ * POST /api/answers/[id]/unaccept
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Unaccepting answer ID:', params.id)
+
+    const { answer, error, status } = await setAnswerAccepted(params.id, false)
+
+    if (error || !answer) {
+      console.error('Answer unaccept error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully unaccepted answer:', {
+      id: answer.id,
+      questionId: answer.question_id
+    })
+
+    return NextResponse.json(answer)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
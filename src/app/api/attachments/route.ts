@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { requireWriteAccess } from '@/lib/auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { createAttachment } from '@/lib/attachments'
+
+/**
+ * API route to upload an image for a post
+ * Returns the attachment with the URLs of the cleaned image and its thumbnail
+ * POST /api/attachments (multipart/form-data with a "file" field)
+ */
+export async function POST(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+
+    const { error: limitError, retryAfter } = await checkRateLimit(request, 'upload', profile)
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError, retry_after: retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No image was uploaded' }, { status: 400 })
+    }
+
+    console.log('Uploading attachment:', { name: file.name, type: file.type, size: file.size })
+
+    const { attachment, error, status } = await createAttachment(file, profile.id)
+
+    if (!attachment) {
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json(attachment, { status: 201 })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
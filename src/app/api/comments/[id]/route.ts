@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole, requireWriteAccess } from '@/lib/auth'
+import { COMMENT_SELECT } from '@/lib/comments'
+import { validateCommentContent } from '@/lib/validation'
+import { CommentWithAuthor } from '@/types/database'
+
+/**
+ * Load a comment and check that the current user wrote it
+ * Suspended users may still delete their comments, but not edit them
+ * Returns a ready-made error response when the check fails
+ */
+const authorizeCommentAuthor = async (commentId: string, action: 'edit' | 'delete') => {
+  const { profile, error: authError, status: authStatus, suspension } = action === 'edit'
+    ? await requireWriteAccess()
+    : { ...(await requireRole('user')), suspension: null }
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: authError, suspension }, { status: authStatus }) }
+  }
+
+  const { data: comment, error } = await supabaseAdmin
+    .from('comments')
+    .select('id, author_id')
+    .eq('id', commentId)
+    .single()
+
+  if (error || !comment) {
+    return { error: NextResponse.json({ error: 'Comment not found' }, { status: 404 }) }
+  }
+
+  if (comment.author_id !== profile.id) {
+    return { error: NextResponse.json({ error: 'You can only modify your own comments' }, { status: 403 }) }
+  }
+
+  return { profile }
+}
+
+/**
+ * API route to edit a comment (author only)
+ * PATCH /api/comments/[id]
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Updating comment ID:', params.id)
+
+    const { content } = await request.json()
+
+    const validationError = validateCommentContent(content)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { error: authError } = await authorizeCommentAuthor(params.id, 'edit')
+    if (authError) {
+      return authError
+    }
+
+    const { data: comment, error } = await supabaseAdmin
+      .from('comments')
+      .update({ content: content.trim() })
+      .eq('id', params.id)
+      .select(COMMENT_SELECT)
+      .returns<CommentWithAuthor[]>()
+      .single()
+
+    if (error) {
+      console.error('Comment update error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    console.log('Successfully updated comment:', { id: params.id })
+
+    return NextResponse.json(comment)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to delete a comment (author only)
+ * Replies to a top-level comment are removed with it
+ * DELETE /api/comments/[id]
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Deleting comment ID:', params.id)
+
+    const { error: authError } = await authorizeCommentAuthor(params.id, 'delete')
+    if (authError) {
+      return authError
+    }
+
+    const { error } = await supabaseAdmin
+      .from('comments')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) {
+      console.error('Comment deletion error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    console.log('Successfully deleted comment:', { id: params.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { validateDraftInput } from '@/lib/validation'
+
+/**
+ * API route to get your saved draft for a form
+ * GET /api/drafts/[key] (key: question or answer:<question id>)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { data: draft, error } = await supabaseAdmin
+      .from('drafts')
+      .select('*')
+      .eq('user_id', profile.id)
+      .eq('key', decodeURIComponent(params.key))
+      .maybeSingle()
+
+    if (error) {
+      console.error('Draft fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(draft)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to save a draft, replacing the previous one for the form
+ * PUT /api/drafts/[key] { content }
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const key = decodeURIComponent(params.key)
+    const { content } = await request.json()
+
+    const validationError = validateDraftInput({ key, content })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { data: draft, error } = await supabaseAdmin
+      .from('drafts')
+      .upsert({ user_id: profile.id, key, content, updated_at: new Date().toISOString() })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Draft save error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(draft)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to discard a draft, after it was posted or on request
+ * DELETE /api/drafts/[key]
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { error } = await supabaseAdmin
+      .from('drafts')
+      .delete()
+      .eq('user_id', profile.id)
+      .eq('key', decodeURIComponent(params.key))
+
+    if (error) {
+      console.error('Draft delete error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
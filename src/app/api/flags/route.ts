@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireWriteAccess } from '@/lib/auth'
+import { findFlagTarget } from '@/lib/moderation'
+import { validateFlagInput } from '@/lib/validation'
+import { FlagFormData } from '@/types/database'
+
+/**
+ * API route to flag a question, answer or comment for moderator review
+ * POST /api/flags { target_type, target_id, reason, note? }
+ */
+export async function POST(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+
+    const body = await request.json()
+
+    const validationError = validateFlagInput(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { target_type, target_id, reason, note } = body as FlagFormData
+
+    const target = await findFlagTarget(target_type, target_id)
+
+    if (!target || target.deleted) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (target.author?.id === profile.id) {
+      return NextResponse.json({ error: 'You cannot flag your own post' }, { status: 400 })
+    }
+
+    console.log('Flagging post:', { target_type, target_id, reason })
+
+    const { data: flag, error } = await supabaseAdmin
+      .from('flags')
+      .insert({
+        reporter_id: profile.id,
+        target_type,
+        target_id,
+        question_id: target.question_id,
+        reason,
+        note: note?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // 23505: unique_violation on (reporter_id, target_type, target_id)
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'You have already flagged this post' }, { status: 409 })
+      }
+
+      console.error('Flag creation error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(flag, { status: 201 })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { runBadgeJob, isAuthorizedJobRequest } from '@/lib/badge-job'
+
+/**
+ * Background job that awards badges, run on a schedule by Vercel Cron (see vercel.json)
+ * GET /api/jobs/badges with Authorization: Bearer $CRON_SECRET
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('Running badge job')
+
+    const result = await runBadgeJob()
+
+    console.log('Badge job completed:', result)
+
+    return NextResponse.json(result, { status: result.failed.length > 0 ? 500 : 200 })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
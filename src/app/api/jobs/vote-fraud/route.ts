@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/badge-job'
+import { runVoteFraudJob } from '@/lib/vote-fraud-job'
+
+/**
+ * Nightly job that reverses serial votes and voting rings, run by Vercel Cron (see vercel.json)
+ * Every reversal is recorded in the moderation log
+ * GET /api/jobs/vote-fraud with Authorization: Bearer $CRON_SECRET
+ */
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedJobRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    console.log('Running vote fraud job')
+
+    const result = await runVoteFraudJob()
+
+    console.log('Vote fraud job completed:', result)
+
+    return NextResponse.json(result, { status: result.failed.length > 0 ? 500 : 200 })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
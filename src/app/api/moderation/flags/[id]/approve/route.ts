@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { resolveFlag } from '@/lib/moderation'
+
+/**
+ * API route to approve a flag (moderators only)
+ * Approving removes the flagged post and settles every pending flag on it
+ * POST /api/moderation/flags/[id]/approve
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Approving flag:', params.id)
+
+    const { flag, error, status } = await resolveFlag(params.id, 'approved')
+
+    if (error || !flag) {
+      console.error('Flag approve error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json(flag)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { resolveFlag } from '@/lib/moderation'
+
+/**
+ * API route to dismiss a flag (moderators only)
+ * The post stays up; other flags on it remain in the queue
+ * POST /api/moderation/flags/[id]/dismiss
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Dismissing flag:', params.id)
+
+    const { flag, error, status } = await resolveFlag(params.id, 'dismissed')
+
+    if (error || !flag) {
+      console.error('Flag dismiss error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json(flag)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
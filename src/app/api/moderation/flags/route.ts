@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { attachFlagTargets } from '@/lib/moderation'
+import { FlagStatus, FlagWithDetails, PaginatedResponse } from '@/types/database'
+
+const FLAG_STATUSES: FlagStatus[] = ['pending', 'approved', 'dismissed']
+
+/**
+ * API route for the moderation queue: flags with their reporter and flagged post
+ * Pending flags are listed oldest first so nothing waits too long
+ * GET /api/moderation/flags?status=pending&page=1&limit=20
+ */
+export async function GET(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('moderator')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedStatus = searchParams.get('status') as FlagStatus
+    const status = FLAG_STATUSES.includes(requestedStatus) ? requestedStatus : 'pending'
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 50)
+    const from = (page - 1) * limit
+
+    const { data: flags, error, count } = await supabaseAdmin
+      .from('flags')
+      .select('*, reporter:profiles!reporter_id(id, username)', { count: 'exact' })
+      .eq('status', status)
+      .order('created_at', { ascending: status === 'pending' })
+      .range(from, from + limit - 1)
+      .returns<Omit<FlagWithDetails, 'target'>[]>()
+
+    if (error) {
+      console.error('Flags fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<FlagWithDetails> = {
+      data: await attachFlagTargets(flags || []),
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
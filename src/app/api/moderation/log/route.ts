@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { ModerationLogEntryWithModerator, PaginatedResponse } from '@/types/database'
+
+/**
+ * API route for the moderation audit log, newest first (moderators only)
+ * GET /api/moderation/log?page=1&limit=50
+ */
+export async function GET(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('moderator')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100)
+    const from = (page - 1) * limit
+
+    const { data: entries, error, count } = await supabaseAdmin
+      .from('moderation_log')
+      .select('*, moderator:profiles!moderator_id(id, username)', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(from, from + limit - 1)
+      .returns<ModerationLogEntryWithModerator[]>()
+
+    if (error) {
+      console.error('Moderation log fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<ModerationLogEntryWithModerator> = {
+      data: entries || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
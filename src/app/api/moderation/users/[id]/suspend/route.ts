@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { suspendUser } from '@/lib/moderation'
+
+/**
+ * API route to suspend or shadow-ban a user (moderators only)
+ * Body: { mode: 'suspend' | 'shadow', days, reason }
+ * POST /api/moderation/users/[id]/suspend
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Suspending user:', params.id)
+
+    const { mode, days, reason } = await request.json()
+
+    const { profile, error, status } = await suspendUser(params.id, { mode, days, reason })
+
+    if (error || !profile) {
+      console.error('User suspend error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully suspended user:', { id: params.id, mode, days })
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
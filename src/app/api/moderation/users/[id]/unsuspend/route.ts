@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { liftSuspension } from '@/lib/moderation'
+
+/**
+ * API route to lift a user's suspension and shadow ban (moderators only)
+ * POST /api/moderation/users/[id]/unsuspend
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Lifting suspension for user:', params.id)
+
+    const { profile, error, status } = await liftSuspension(params.id)
+
+    if (error || !profile) {
+      console.error('User unsuspend error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * API route to mark a single notification as read
+ * POST /api/notifications/[id]/read
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    // Scope the update to the current user so nobody can touch someone else's notifications
+    const { data: notification, error } = await supabaseAdmin
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', params.id)
+      .eq('user_id', profile.id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Notification update error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (!notification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { NOTIFICATION_SELECT } from '@/lib/notifications'
+import { NotificationWithDetails } from '@/types/database'
+
+/**
+ * API route to list the current user's notifications with their unread count
+ * GET /api/notifications?limit=20
+ */
+export async function GET(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 50)
+
+    const { data: notifications, error } = await supabaseAdmin
+      .from('notifications')
+      .select(NOTIFICATION_SELECT)
+      .eq('user_id', profile.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .returns<NotificationWithDetails[]>()
+
+    if (error) {
+      console.error('Notifications fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // Count unread separately so the badge stays accurate beyond the listed page
+    const { count: unreadCount, error: countError } = await supabaseAdmin
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', profile.id)
+      .eq('is_read', false)
+
+    if (countError) {
+      console.error('Unread count error:', countError)
+    }
+
+    return NextResponse.json({
+      data: notifications || [],
+      unread_count: unreadCount || 0
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { normalizeTag, validateTagPreferences } from '@/lib/validation'
+
+/**
+ * API route to save the signed-in user's watched and ignored tags
+ * PUT /api/profile/tags { watched_tags, ignored_tags, hide_ignored_tags }
+ */
+export async function PUT(request: Request) {
+  try {
+    const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+    if (!profile) {
+      return NextResponse.json({ error: authError }, { status: authStatus })
+    }
+
+    const body = await request.json()
+
+    const normalize = (list: unknown) =>
+      Array.isArray(list)
+        ? Array.from(new Set(list.map(tag => (typeof tag === 'string' ? normalizeTag(tag) : tag))))
+        : list
+
+    const preferences = {
+      watched_tags: normalize(body.watched_tags),
+      ignored_tags: normalize(body.ignored_tags),
+      hide_ignored_tags: body.hide_ignored_tags ?? false
+    }
+
+    const validationError = validateTagPreferences(preferences)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { data: saved, error } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        watched_tags: preferences.watched_tags as string[],
+        ignored_tags: preferences.ignored_tags as string[],
+        hide_ignored_tags: preferences.hide_ignored_tags as boolean
+      })
+      .eq('id', profile.id)
+      .select('watched_tags, ignored_tags, hide_ignored_tags')
+      .single()
+
+    if (error) {
+      console.error('Tag preferences update error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    console.log('Saved tag preferences:', {
+      userId: profile.id,
+      watched: saved.watched_tags.length,
+      ignored: saved.ignored_tags.length
+    })
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
-import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { requireWriteAccess } from '@/lib/auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { createNotifications, notifyMentions } from '@/lib/notifications'
+import { validateAnswerContent } from '@/lib/validation'
+import { isQuestionOpen } from '@/lib/permissions'
 
 /**
  * API route to create a new answer for a question
+ * Closed and duplicate questions don't take new answers
+ * Rate limited per user and per IP address (429 with Retry-After)
  * POST /api/questions/[id]/answers
  */
 export async function POST(
@@ -16,28 +21,38 @@ export async function POST(
     
     const { content } = await request.json()
     
-    if (!content || !content.trim()) {
-      return NextResponse.json({ error: 'Answer content is required' }, { status: 400 })
+    const validationError = validateAnswerContent(content)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
     }
     
-    // Get current user from session
-    const cookieStore = cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          },
-        },
-      }
-    )
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+    
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+    
+    const { error: limitError, retryAfter } = await checkRateLimit(request, 'answer', profile)
     
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError, retry_after: retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+    
+    const { data: question } = await supabaseAdmin
+      .from('questions')
+      .select('author_id, status, deleted_at')
+      .eq('id', params.id)
+      .single()
     
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    if (!question || question.deleted_at) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+    
+    if (!isQuestionOpen(question)) {
+      return NextResponse.json({ error: 'This question is closed and no longer accepts answers' }, { status: 403 })
     }
     
     // Create the answer
@@ -46,7 +61,7 @@ export async function POST(
       .insert({
         question_id: params.id,
         content: content.trim(),
-        author_id: user.id
+        author_id: profile.id
       })
       .select()
       .single()
@@ -59,9 +74,31 @@ export async function POST(
     console.log('Successfully created answer:', {
       id: answer.id,
       questionId: params.id,
-      authorId: user.id
+      authorId: profile.id
     })
     
+    // Let the question author know, and anyone mentioned in the answer
+    // (nobody else can see a shadowed answer, so nobody is told about it)
+    if (!answer.is_shadowed) {
+      if (question.author_id) {
+        await createNotifications([{
+          user_id: question.author_id,
+          actor_id: profile.id,
+          type: 'new_answer',
+          question_id: params.id,
+          answer_id: answer.id
+        }])
+      }
+      
+      await notifyMentions({
+        text: answer.content,
+        actorId: profile.id,
+        questionId: params.id,
+        answerId: answer.id,
+        excludeUserIds: question.author_id ? [question.author_id] : []
+      })
+    }
+    
     return NextResponse.json(answer)
   } catch (error) {
     console.error('API error:', error)
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { castStatusVote } from '@/lib/question-status'
+
+/**
+ * API route to vote to close a question, or mark it as a duplicate
+ * Closes once enough users with the close vote privilege agree; a moderator closes it at once
+ * POST /api/questions/[id]/close { reason, duplicate_of? }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Close vote on question:', params.id)
+
+    const { reason, duplicate_of } = await request.json()
+
+    const { question, status_votes, error, status } = await castStatusVote(params.id, 'close', { reason, duplicate_of })
+
+    if (error || !question) {
+      console.error('Close vote error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json({ question, status_votes })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { castStatusVote } from '@/lib/question-status'
+
+/**
+ * API route to vote to reopen a closed or duplicate question
+ * Reopens once enough users with the close vote privilege agree; a moderator reopens it at once
+ * POST /api/questions/[id]/reopen
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Reopen vote on question:', params.id)
+
+    const { question, status_votes, error, status } = await castStatusVote(params.id, 'reopen')
+
+    if (error || !question) {
+      console.error('Reopen vote error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json({ question, status_votes })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { setPostDeleted } from '@/lib/posts'
+
+/**
+ * API route to restore a soft-deleted question (author or moderator, within the restore window)
+ * POST /api/questions/[id]/restore
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Restoring question with ID:', params.id)
+
+    const { post, error, status } = await setPostDeleted('questions', params.id, false)
+
+    if (error || !post) {
+      console.error('Question restore error:', error)
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully restored question:', {
+      id: post.id,
+      deletedBy: post.deleted_by
+    })
+
+    return NextResponse.json(post)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
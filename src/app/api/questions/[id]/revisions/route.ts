@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { findVisiblePost } from '@/lib/posts'
+import { PostRevisionWithEditor } from '@/types/database'
+
+/**
+ * API route to list the revision history of a question, or of one of its answers
+ * Revisions are returned oldest first; an unedited post has no revisions
+ * Deleted and shadowed posts keep their history hidden like the posts themselves
+ * GET /api/questions/[id]/revisions?answer_id=
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const answerId = searchParams.get('answer_id')
+
+    console.log('Fetching revisions:', { questionId: params.id, answerId })
+
+    const { post, error: postError, status: postStatus } = await findVisiblePost(
+      answerId ? 'answers' : 'questions',
+      answerId || params.id,
+      await getSession()
+    )
+
+    if (!post) {
+      return NextResponse.json({ error: postError }, { status: postStatus })
+    }
+
+    if (post.question_id !== params.id) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    let query = supabaseAdmin
+      .from('post_revisions')
+      .select(`
+        *,
+        editor:profiles!editor_id(id, username, avatar_url)
+      `)
+      .eq('question_id', params.id)
+      .order('revision_number', { ascending: true })
+
+    query = answerId ? query.eq('answer_id', answerId) : query.is('answer_id', null)
+
+    const { data: revisions, error } = await query.returns<PostRevisionWithEditor[]>()
+
+    if (error) {
+      console.error('Revisions fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(revisions || [])
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
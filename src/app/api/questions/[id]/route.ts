@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession, requireWriteAccess } from '@/lib/auth'
+import { setPostDeleted } from '@/lib/posts'
+import { getQuestionDetail } from '@/lib/questions'
+import { hasPrivilege, privilegeMessage } from '@/lib/permissions'
+import { validateQuestionInput } from '@/lib/validation'
+import { resolveTagSynonyms } from '@/lib/tags'
 
 /**
- * API route to get a single question with its answers
+ * API route to get a single question with its answers, as the signed-in user may see it
  * GET /api/questions/[id]
  */
 export async function GET(
@@ -11,70 +17,134 @@ export async function GET(
 ) {
   try {
     console.log('Fetching question with ID:', params.id)
-    
-    // First, get the question with author
-    const { data: question, error: questionError } = await supabaseAdmin
+
+    const { question, error, status } = await getQuestionDetail(params.id, await getSession())
+
+    if (!question) {
+      return NextResponse.json({ error }, { status })
+    }
+
+    console.log('Successfully fetched question:', {
+      id: params.id,
+      title: question.title,
+      answerCount: question.answer_count
+    })
+
+    return NextResponse.json(question)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+} 
+
+/**
+ * API route to edit a question (author, or users with the edit privilege)
+ * Previous versions are kept in post_revisions by the on_question_edit trigger
+ * PATCH /api/questions/[id]
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Editing question with ID:', params.id)
+
+    const { title, description, tags } = await request.json()
+
+    const validationError = validateQuestionInput({ title, description, tags })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
       .from('questions')
-      .select(`
-        *,
-        author:profiles!author_id(id, username, avatar_url)
-      `)
+      .select('id, author_id, deleted_at')
       .eq('id', params.id)
       .single()
 
-    if (questionError) {
-      console.error('Question fetch error:', questionError)
-      return NextResponse.json({ error: questionError.message }, { status: 500 })
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
     }
 
-    if (!question) {
-      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    if (existing.deleted_at) {
+      return NextResponse.json({ error: 'Deleted questions cannot be edited' }, { status: 409 })
     }
 
-    // Get answers for this question
-    const { data: answers, error: answersError } = await supabaseAdmin
-      .from('answers')
-      .select(`
-        *,
-        author:profiles!author_id(id, username, avatar_url)
-      `)
-      .eq('question_id', params.id)
-      .order('created_at', { ascending: false })
-
-    if (answersError) {
-      console.error('Answers fetch error:', answersError)
-      return NextResponse.json({ error: answersError.message }, { status: 500 })
+    if (existing.author_id !== profile.id && !hasPrivilege(profile, 'edit_others_posts')) {
+      return NextResponse.json({ error: privilegeMessage('edit_others_posts') }, { status: 403 })
     }
 
-    // Get answer count
-    const { count: answerCount, error: countError } = await supabaseAdmin
-      .from('answers')
-      .select('*', { count: 'exact', head: true })
-      .eq('question_id', params.id)
+    const { data: question, error: updateError } = await supabaseAdmin
+      .from('questions')
+      .update({
+        title: title.trim(),
+        description: description.trim(),
+        tags: await resolveTagSynonyms(tags),
+        edited_at: new Date().toISOString(),
+        edited_by: profile.id
+      })
+      .eq('id', params.id)
+      .select()
+      .single()
 
-    if (countError) {
-      console.error('Answer count error:', countError)
+    if (updateError) {
+      console.error('Question update error:', updateError)
+      return NextResponse.json({ error: updateError.message }, { status: 500 })
     }
 
-    // Combine the data
-    const questionWithAnswers = {
-      ...question,
-      answers: answers || [],
-      answer_count: answerCount || 0
+    console.log('Successfully edited question:', {
+      id: params.id,
+      editorId: profile.id
+    })
+
+    return NextResponse.json(question)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * API route to soft-delete a question (author or moderator)
+ * DELETE /api/questions/[id]
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    console.log('Deleting question with ID:', params.id)
+
+    const { post, error, status } = await setPostDeleted('questions', params.id, true)
+
+    if (error || !post) {
+      console.error('Question delete error:', error)
+      return NextResponse.json({ error }, { status })
     }
 
-    console.log('Successfully fetched question:', {
-      id: params.id,
-      title: question.title,
-      answerCount: answerCount || 0
+    console.log('Successfully deleted question:', {
+      id: post.id,
+      deletedBy: post.deleted_by
     })
 
-    return NextResponse.json(questionWithAnswers)
+    return NextResponse.json(post)
   } catch (error) {
     console.error('API error:', error)
-    return NextResponse.json({ 
+    return NextResponse.json({
       error: 'Internal server error',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-} 
\ No newline at end of file
+}
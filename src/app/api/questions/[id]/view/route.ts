@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { isFirstInWindow } from '@/lib/rate-limit'
+import { canSeePost } from '@/lib/permissions'
+import { QUESTION_VIEW_WINDOW_SECONDS } from '@/lib/constants'
+
+/**
+ * API route to count a view of a question
+ * Authors viewing their own question are not counted, and each viewer counts once an hour
+ * POST /api/questions/[id]/view
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSession()
+
+    // Only live questions the viewer can see are counted, so made-up ids don't fill the rate limit store
+    const { data: question, error: questionError } = await supabaseAdmin
+      .from('questions')
+      .select('author_id, deleted_at, is_shadowed')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (questionError) {
+      console.error('Question fetch error:', questionError)
+      return NextResponse.json({ error: questionError.message }, { status: 500 })
+    }
+
+    if (!question || question.deleted_at || !canSeePost(question, user)) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    if (question.author_id === user?.id) {
+      return NextResponse.json({ counted: false })
+    }
+
+    if (!(await isFirstInWindow(request, `view:${params.id}`, QUESTION_VIEW_WINDOW_SECONDS, user))) {
+      return NextResponse.json({ counted: false })
+    }
+
+    const { error } = await supabaseAdmin.rpc('increment_question_views', {
+      p_question_id: params.id
+    })
+
+    if (error) {
+      console.error('Question view count error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ counted: true })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
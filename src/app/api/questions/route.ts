@@ -1,48 +1,251 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
-import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { getSession, requireRole, requireWriteAccess } from '@/lib/auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { validateQuestionInput, validateDifferenceNote } from '@/lib/validation'
+import { resolveTagSynonyms } from '@/lib/tags'
+import { findSimilarQuestions } from '@/lib/questions'
+import { visiblePostsFilter } from '@/lib/posts'
+import { notifyTagWatchers } from '@/lib/notifications'
+import { QUESTION_SORTS, DUPLICATE_SIMILARITY_THRESHOLD } from '@/lib/constants'
+import { PaginatedResponse, QuestionSort, QuestionWithAuthor } from '@/types/database'
+
+/**
+ * API route to list questions with server-side sorting and an exact total count
+ * Sorts: newest, active (latest answer or edit), votes, hot (votes with time decay),
+ * unanswered, no_accepted_answer, for_you (signed-in only: hot, boosted by watched tags)
+ * Pass tag to only list questions with that tag
+ * Signed-in users who hide their ignored tags don't get those questions, so pages stay full
+ * GET /api/questions?sort=newest&page=1&limit=10&tag=react
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sort = (searchParams.get('sort') || 'newest') as QuestionSort
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 50)
+    const tag = searchParams.get('tag')?.trim().toLowerCase() || null
+
+    if (!QUESTION_SORTS.includes(sort)) {
+      return NextResponse.json({
+        error: `Invalid sort. Use one of: ${QUESTION_SORTS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    console.log('Listing questions:', { sort, page, limit, tag })
+
+    if (sort === 'for_you') {
+      if (tag) {
+        return NextResponse.json({ error: 'The for_you sort cannot be combined with a tag' }, { status: 400 })
+      }
+
+      const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+      if (!profile) {
+        return NextResponse.json({ error: authError }, { status: authStatus })
+      }
+
+      const { response, error } = await listForYouQuestions(profile.id, page, limit)
+
+      if (error || !response) {
+        console.error('For you feed error:', error)
+        return NextResponse.json({ error }, { status: 500 })
+      }
+
+      return NextResponse.json(response)
+    }
+
+    let query = supabaseAdmin
+      .from('questions')
+      .select(`
+        *,
+        author:profiles!author_id(id, username, avatar_url, reputation)
+      `, { count: 'exact' })
+      .is('deleted_at', null)
+
+    const viewer = await getSession()
+
+    const visibility = visiblePostsFilter(viewer)
+    if (visibility) {
+      query = query.or(visibility)
+    }
+
+    if (viewer?.hide_ignored_tags && viewer.ignored_tags.length > 0) {
+      query = query.not('tags', 'ov', `{${viewer.ignored_tags.map(name => `"${name}"`).join(',')}}`)
+    }
+
+    if (tag) {
+      query = query.contains('tags', [tag])
+    }
+
+    // Each sort matches one of the partial indexes in database/schema.sql
+    switch (sort) {
+      case 'active':
+        query = query.order('last_activity_at', { ascending: false })
+        break
+      case 'votes':
+        query = query.order('votes', { ascending: false }).order('created_at', { ascending: false })
+        break
+      case 'hot':
+        query = query.order('hot_score', { ascending: false })
+        break
+      case 'unanswered':
+        query = query.eq('answer_count', 0).order('created_at', { ascending: false })
+        break
+      case 'no_accepted_answer':
+        query = query.eq('has_accepted_answer', false).order('created_at', { ascending: false })
+        break
+      default:
+        query = query.order('created_at', { ascending: false })
+    }
+
+    const from = (page - 1) * limit
+
+    const { data: questions, error, count } = await query
+      .range(from, from + limit - 1)
+      .returns<QuestionWithAuthor[]>()
+
+    if (error) {
+      console.error('Questions list error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<QuestionWithAuthor> = {
+      data: questions || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    console.log('Successfully listed questions:', {
+      sort,
+      returned: response.data.length,
+      totalCount: response.count
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Load one page of a user's "For you" feed
+ * The ranking runs in for_you_questions; the rows are then loaded and put back in rank order
+ */
+const listForYouQuestions = async (
+  userId: string,
+  page: number,
+  limit: number
+): Promise<{ response: PaginatedResponse<QuestionWithAuthor> | null; error: string | null }> => {
+  const { data, error: rankError } = await supabaseAdmin.rpc('for_you_questions', {
+    p_user_id: userId,
+    p_limit: limit,
+    p_offset: (page - 1) * limit
+  })
+
+  if (rankError) {
+    return { response: null, error: rankError.message }
+  }
+
+  const ranked = (data || []) as { id: string; total_count: number }[]
+
+  if (ranked.length === 0) {
+    return { response: { data: [], count: 0, page, per_page: limit, total_pages: 0 }, error: null }
+  }
+
+  const { data: questions, error: questionsError } = await supabaseAdmin
+    .from('questions')
+    .select(`
+      *,
+      author:profiles!author_id(id, username, avatar_url, reputation)
+    `)
+    .in('id', ranked.map(row => row.id))
+    .returns<QuestionWithAuthor[]>()
+
+  if (questionsError) {
+    return { response: null, error: questionsError.message }
+  }
+
+  const questionsById = new Map((questions || []).map(question => [question.id, question]))
+  const totalCount = Number(ranked[0].total_count)
+
+  return {
+    response: {
+      data: ranked.flatMap(row => questionsById.get(row.id) || []),
+      count: totalCount,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil(totalCount / limit)
+    },
+    error: null
+  }
+}
 
 /**
  * API route to create a new question
+ * Tag synonyms are rewritten to their main tag before saving
+ * A title very close to an existing question is refused (409, with the matches)
+ * unless a difference_note explains why it isn't a duplicate
+ * Rate limited per user and per IP address (429 with Retry-After)
  * POST /api/questions
  */
 export async function POST(request: Request) {
   try {
     console.log('Creating new question')
     
-    const { title, description, tags } = await request.json()
+    const { title, description, tags, difference_note } = await request.json()
     
-    if (!title || !title.trim()) {
-      return NextResponse.json({ error: 'Question title is required' }, { status: 400 })
+    const validationError = validateQuestionInput({ title, description, tags }) || validateDifferenceNote(difference_note)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
     }
     
-    if (!description || !description.trim()) {
-      return NextResponse.json({ error: 'Question description is required' }, { status: 400 })
+    const { profile, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+    
+    if (!profile) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
     }
     
-    if (!tags || !Array.isArray(tags) || tags.length === 0) {
-      return NextResponse.json({ error: 'At least one tag is required' }, { status: 400 })
+    // The duplicate search below is costly, so every submission counts against a looser budget first
+    const { error: checkLimitError, retryAfter: checkRetryAfter } = await checkRateLimit(request, 'question_check', profile)
+    
+    if (checkLimitError) {
+      return NextResponse.json(
+        { error: checkLimitError, retry_after: checkRetryAfter },
+        { status: 429, headers: { 'Retry-After': String(checkRetryAfter) } }
+      )
     }
     
-    // Get current user from session
-    const cookieStore = cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          },
-        },
+    const resolvedTags = await resolveTagSynonyms(tags)
+    const differenceNote = typeof difference_note === 'string' ? difference_note.trim() : ''
+    
+    // A near-identical title needs the asker to say why this isn't a duplicate
+    if (!differenceNote) {
+      const duplicates = (await findSimilarQuestions(title, resolvedTags))
+        .filter(similar => similar.similarity >= DUPLICATE_SIMILARITY_THRESHOLD)
+      
+      if (duplicates.length > 0) {
+        return NextResponse.json({
+          error: 'This looks like an existing question. Explain how yours is different to post it.',
+          similar: duplicates
+        }, { status: 409 })
       }
-    )
+    }
     
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    // Only attempts that will be posted count against the budget, so a refused duplicate doesn't use it up
+    const { error: limitError, retryAfter } = await checkRateLimit(request, 'question', profile)
     
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError, retry_after: retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
     }
     
     // Create the question
@@ -51,8 +254,9 @@ export async function POST(request: Request) {
       .insert({
         title: title.trim(),
         description: description.trim(),
-        tags: tags,
-        author_id: user.id
+        tags: resolvedTags,
+        author_id: profile.id,
+        difference_note: differenceNote || null
       })
       .select()
       .single()
@@ -65,9 +269,18 @@ export async function POST(request: Request) {
     console.log('Successfully created question:', {
       id: question.id,
       title: question.title,
-      authorId: user.id
+      authorId: profile.id
     })
     
+    // Nobody else can see a shadowed question, so nobody is told about it
+    if (!question.is_shadowed) {
+      await notifyTagWatchers({
+        questionId: question.id,
+        tags: question.tags,
+        actorId: profile.id
+      })
+    }
+    
     return NextResponse.json(question)
   } catch (error) {
     console.error('API error:', error)
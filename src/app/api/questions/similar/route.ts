@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { findSimilarQuestions } from '@/lib/questions'
+import { resolveTagSynonyms } from '@/lib/tags'
+import { SIMILAR_QUESTIONS_LIMIT } from '@/lib/constants'
+
+/**
+ * API route for possible duplicates of a question being asked
+ * Matches titles by trigram similarity and ranks shared tags higher
+ * GET /api/questions/similar?title=How do I center a div&tags=css,html
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const title = searchParams.get('title') || ''
+    const rawTags = (searchParams.get('tags') || '').split(',').filter(Boolean)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || String(SIMILAR_QUESTIONS_LIMIT)) || SIMILAR_QUESTIONS_LIMIT, 1), 10)
+
+    const tags = await resolveTagSynonyms(rawTags)
+    const questions = await findSimilarQuestions(title, tags, limit)
+
+    console.log('Found similar questions:', { title, tags, count: questions.length })
+
+    return NextResponse.json(questions)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
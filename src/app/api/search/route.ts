@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { parseSearchQuery, isEmptySearch } from '@/lib/search'
+import { PaginatedResponse, QuestionWithAuthor, SearchMatch, SearchResult } from '@/types/database'
+
+/**
+ * API route for full-text search over questions and their answers, ranked by relevance
+ * Supports [tag], user:name, is:answered, is:unanswered and score:>5 operators
+ * GET /api/search?q=react hooks [nextjs] is:answered&page=1&limit=10
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const rawQuery = searchParams.get('q') || ''
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 50)
+
+    const parsed = parseSearchQuery(rawQuery)
+
+    console.log('Searching questions:', { rawQuery, parsed, page, limit })
+
+    const emptyResponse: PaginatedResponse<SearchResult> = {
+      data: [],
+      count: 0,
+      page,
+      per_page: limit,
+      total_pages: 0
+    }
+
+    if (isEmptySearch(parsed)) {
+      return NextResponse.json(emptyResponse)
+    }
+
+    const { data, error: searchError } = await supabaseAdmin.rpc('search_questions', {
+      p_query: parsed.text || null,
+      p_tags: parsed.tags.length > 0 ? parsed.tags : null,
+      p_author: parsed.author,
+      p_is_answered: parsed.isAnswered,
+      p_min_score: parsed.minScore,
+      p_max_score: parsed.maxScore,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    })
+
+    if (searchError) {
+      console.error('Search error:', searchError)
+      return NextResponse.json({ error: searchError.message }, { status: 500 })
+    }
+
+    const matches = (data || []) as SearchMatch[]
+
+    if (matches.length === 0) {
+      return NextResponse.json(emptyResponse)
+    }
+
+    // Load the full question rows for the matched page, then restore rank order
+    const { data: questions, error: questionsError } = await supabaseAdmin
+      .from('questions')
+      .select(`
+        *,
+        author:profiles!author_id(id, username, avatar_url, reputation)
+      `)
+      .in('id', matches.map(match => match.id))
+      .returns<QuestionWithAuthor[]>()
+
+    if (questionsError) {
+      console.error('Search questions fetch error:', questionsError)
+      return NextResponse.json({ error: questionsError.message }, { status: 500 })
+    }
+
+    const questionsById = new Map((questions || []).map(question => [question.id, question]))
+
+    const results: SearchResult[] = matches.flatMap(match => {
+      const question = questionsById.get(match.id)
+      if (!question) return []
+
+      return [{
+        ...question,
+        rank: match.rank,
+        title_highlight: match.title_highlight,
+        snippet: match.snippet
+      }]
+    })
+
+    const totalCount = Number(matches[0].total_count)
+
+    console.log('Search completed:', { rawQuery, totalCount, returned: results.length })
+
+    return NextResponse.json({
+      data: results,
+      count: totalCount,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil(totalCount / limit)
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
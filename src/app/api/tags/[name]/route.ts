@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { TagWithSynonyms } from '@/types/database'
+
+/**
+ * API route for a single tag with its description, wiki and synonyms
+ * Requesting a synonym returns the main tag, so old links keep working
+ * GET /api/tags/[name]
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const requested = decodeURIComponent(params.name).trim().toLowerCase()
+
+    const { data: synonym } = await supabaseAdmin
+      .from('tag_synonyms')
+      .select('tag_name')
+      .eq('synonym', requested)
+      .maybeSingle()
+
+    const name = synonym?.tag_name || requested
+
+    const { data: tag, error } = await supabaseAdmin
+      .from('tags')
+      .select('*')
+      .eq('name', name)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Tag fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 })
+    }
+
+    const { data: synonyms } = await supabaseAdmin
+      .from('tag_synonyms')
+      .select('synonym')
+      .eq('tag_name', tag.name)
+      .order('synonym')
+
+    const response: TagWithSynonyms = {
+      ...tag,
+      synonyms: (synonyms || []).map(row => row.synonym)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
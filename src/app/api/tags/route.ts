@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { PaginatedResponse, Tag, TagSort } from '@/types/database'
+
+const TAG_SORTS: TagSort[] = ['popular', 'name', 'new']
+
+/**
+ * API route to list tags that are in use
+ * Sorts: popular (most questions), name, new (most recently created)
+ * GET /api/tags?sort=popular&q=rea&page=1&limit=36
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sort = (searchParams.get('sort') || 'popular') as TagSort
+    const filter = searchParams.get('q')?.trim().toLowerCase() || ''
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '36') || 36, 1), 100)
+
+    if (!TAG_SORTS.includes(sort)) {
+      return NextResponse.json({
+        error: `Invalid sort. Use one of: ${TAG_SORTS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    let query = supabaseAdmin
+      .from('tags')
+      .select('*', { count: 'exact' })
+      .gt('usage_count', 0)
+
+    if (filter) {
+      // Escape LIKE wildcards so "c_" or "100%" match literally
+      query = query.ilike('name', `%${filter.replace(/[\\%_]/g, '\\$&')}%`)
+    }
+
+    if (sort === 'popular') {
+      query = query.order('usage_count', { ascending: false }).order('name')
+    } else if (sort === 'new') {
+      query = query.order('created_at', { ascending: false })
+    } else {
+      query = query.order('name')
+    }
+
+    const from = (page - 1) * limit
+
+    const { data: tags, error, count } = await query.range(from, from + limit - 1)
+
+    if (error) {
+      console.error('Tags list error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<Tag> = {
+      data: tags || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { normalizeTag } from '@/lib/validation'
+import { TagSuggestion } from '@/types/database'
+
+/**
+ * API route for tag autocomplete: tags and synonyms starting with the typed text,
+ * most used first. A matching synonym suggests its main tag.
+ * GET /api/tags/suggest?q=rea&limit=8
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const prefix = normalizeTag(searchParams.get('q') || '')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '8') || 8, 1), 20)
+
+    if (!prefix) {
+      return NextResponse.json([])
+    }
+
+    // Escape LIKE wildcards so the prefix matches literally
+    const pattern = `${prefix.replace(/[\\%_]/g, '\\$&')}%`
+
+    const [tagsResult, synonymsResult] = await Promise.all([
+      supabaseAdmin
+        .from('tags')
+        .select('name, excerpt, usage_count')
+        .like('name', pattern)
+        .order('usage_count', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('tag_synonyms')
+        .select('synonym, tag:tags!tag_name(name, excerpt, usage_count)')
+        .like('synonym', pattern)
+        .limit(limit)
+    ])
+
+    const error = tagsResult.error || synonymsResult.error
+    if (error) {
+      console.error('Tag suggestion error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const suggestions = new Map<string, TagSuggestion>()
+
+    for (const tag of tagsResult.data || []) {
+      suggestions.set(tag.name, { ...tag, matched_synonym: null })
+    }
+
+    for (const row of synonymsResult.data || []) {
+      const tag = Array.isArray(row.tag) ? row.tag[0] : row.tag
+      if (tag && !suggestions.has(tag.name)) {
+        suggestions.set(tag.name, { ...tag, matched_synonym: row.synonym })
+      }
+    }
+
+    const response = Array.from(suggestions.values())
+      .sort((a, b) => b.usage_count - a.usage_count)
+      .slice(0, limit)
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { visiblePostsFilter } from '@/lib/posts'
+import { findProfileByUsername, parseUserPostParams } from '@/lib/users'
+import { AnswerWithQuestion, PaginatedResponse } from '@/types/database'
+
+/**
+ * API route to list a user's answers with the question they answer
+ * Answers on deleted questions are left out
+ * GET /api/users/[username]/answers?sort=votes|newest&page=1&limit=10
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { username: string } }
+) {
+  try {
+    const { page, limit, sort } = parseUserPostParams(request)
+
+    const profile = await findProfileByUsername(params.username)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    let query = supabaseAdmin
+      .from('answers')
+      .select(`
+        *,
+        question:questions!question_id!inner(id, title)
+      `, { count: 'exact' })
+      .eq('author_id', profile.id)
+      .is('deleted_at', null)
+      .is('question.deleted_at', null)
+
+    const visibility = visiblePostsFilter(await getSession())
+    if (visibility) {
+      query = query.or(visibility)
+    }
+
+    if (sort === 'votes') {
+      query = query.order('votes', { ascending: false })
+    }
+
+    const from = (page - 1) * limit
+
+    const { data: answers, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + limit - 1)
+      .returns<AnswerWithQuestion[]>()
+
+    if (error) {
+      console.error('User answers error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<AnswerWithQuestion> = {
+      data: answers || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { findProfileByUsername } from '@/lib/users'
+
+/**
+ * API route to list the badges a user has earned, newest first
+ * GET /api/users/[username]/badges
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { username: string } }
+) {
+  try {
+    const profile = await findProfileByUsername(params.username)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const { data: badges, error } = await supabaseAdmin
+      .from('user_badges')
+      .select('*')
+      .eq('user_id', profile.id)
+      .order('awarded_at', { ascending: false })
+
+    if (error) {
+      console.error('Badge fetch error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(badges || [])
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { visiblePostsFilter } from '@/lib/posts'
+import { findProfileByUsername, parseUserPostParams } from '@/lib/users'
+import { PaginatedResponse, QuestionWithAuthor } from '@/types/database'
+
+/**
+ * API route to list a user's questions, highest scored first or newest first
+ * GET /api/users/[username]/questions?sort=votes|newest&page=1&limit=10
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { username: string } }
+) {
+  try {
+    const { page, limit, sort } = parseUserPostParams(request)
+
+    const profile = await findProfileByUsername(params.username)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    let query = supabaseAdmin
+      .from('questions')
+      .select(`
+        *,
+        author:profiles!author_id(id, username, avatar_url, reputation)
+      `, { count: 'exact' })
+      .eq('author_id', profile.id)
+      .is('deleted_at', null)
+
+    const visibility = visiblePostsFilter(await getSession())
+    if (visibility) {
+      query = query.or(visibility)
+    }
+
+    if (sort === 'votes') {
+      query = query.order('votes', { ascending: false })
+    }
+
+    const from = (page - 1) * limit
+
+    const { data: questions, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + limit - 1)
+      .returns<QuestionWithAuthor[]>()
+
+    if (error) {
+      console.error('User questions error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const response: PaginatedResponse<QuestionWithAuthor> = {
+      data: questions || [],
+      count: count || 0,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil((count || 0) / limit)
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
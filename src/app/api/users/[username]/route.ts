@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { visiblePostsFilter } from '@/lib/posts'
+import { isModerator } from '@/lib/permissions'
+import { findProfileByUsername } from '@/lib/users'
+import { UserProfileSummary, UserTopTag } from '@/types/database'
+
+/**
+ * API route for a public user profile with post counts and top tags
+ * Moderators also get the user's shadow ban, if any
+ * GET /api/users/[username]
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { username: string } }
+) {
+  try {
+    console.log('Fetching user profile:', params.username)
+
+    const profile = await findProfileByUsername(params.username)
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const viewer = await getSession()
+    const visibility = visiblePostsFilter(viewer)
+
+    const countPosts = (table: 'questions' | 'answers') => {
+      const query = supabaseAdmin
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('author_id', profile.id)
+        .is('deleted_at', null)
+      return visibility ? query.or(visibility) : query
+    }
+
+    const [questions, answers, topTags] = await Promise.all([
+      countPosts('questions'),
+      countPosts('answers'),
+      supabaseAdmin.rpc('user_top_tags', { p_user_id: profile.id, p_limit: 5 })
+    ])
+
+    const error = questions.error || answers.error || topTags.error
+    if (error) {
+      console.error('User profile stats error:', error)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const summary: UserProfileSummary = {
+      ...profile,
+      question_count: questions.count || 0,
+      answer_count: answers.count || 0,
+      // BIGINT sums may arrive as strings
+      top_tags: ((topTags.data || []) as UserTopTag[]).map(tag => ({
+        ...tag,
+        score: Number(tag.score),
+        post_count: Number(tag.post_count)
+      }))
+    }
+
+    if (isModerator(viewer?.role)) {
+      const { data: shadowBan } = await supabaseAdmin
+        .from('shadow_bans')
+        .select('*')
+        .eq('user_id', profile.id)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      summary.shadow_ban = shadowBan
+    }
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,10 +1,12 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
-import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { requireWriteAccess } from '@/lib/auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { hasPrivilege, privilegeMessage } from '@/lib/permissions'
 
 /**
  * API route to handle voting on questions and answers
+ * Rate limited per user and per IP address (429 with Retry-After)
  * POST /api/vote
  */
 export async function POST(request: Request) {
@@ -25,24 +27,20 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid vote type' }, { status: 400 })
     }
     
-    // Get current user from session
-    const cookieStore = cookies()
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          },
-        },
-      }
-    )
+    // Get current user (with reputation) from session
+    const { profile: user, error: authError, status: authStatus, suspension } = await requireWriteAccess()
+    
+    if (!user) {
+      return NextResponse.json({ error: authError, suspension }, { status: authStatus })
+    }
     
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const { error: limitError, retryAfter } = await checkRateLimit(request, 'vote', user)
     
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    if (limitError) {
+      return NextResponse.json(
+        { error: limitError, retry_after: retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
     }
     
     // Check if user has already voted on this target
@@ -59,6 +57,12 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: voteCheckError.message }, { status: 500 })
     }
     
+    // Casting or switching to a downvote needs the downvote privilege; removing one does not
+    const isRemovingVote = existingVote?.vote_type === vote_type
+    if (vote_type === 'downvote' && !isRemovingVote && !hasPrivilege(user, 'downvote')) {
+      return NextResponse.json({ error: privilegeMessage('downvote') }, { status: 403 })
+    }
+    
     if (existingVote) {
       // User has already voted, update or remove vote
       if (existingVote.vote_type === vote_type) {
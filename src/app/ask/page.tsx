@@ -3,12 +3,28 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { ArrowLeft, Tag, Plus, X, CheckCircle, AlertCircle } from 'lucide-react'
+import { ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react'
 import AuthGuard from '@/components/auth/AuthGuard'
+import TagInput from '@/components/ui/TagInput'
+import SimilarQuestions from '@/components/ui/SimilarQuestions'
+import DraftPrompt from '@/components/ui/DraftPrompt'
 import { createQuestion } from '@/lib/api'
-import { QuestionFormData } from '@/types/database'
+import { validateQuestionInput, validateDifferenceNote } from '@/lib/validation'
+import { DUPLICATE_SIMILARITY_THRESHOLD, DIFFERENCE_NOTE_MAX_LENGTH } from '@/lib/constants'
+import { QuestionFormData, SimilarQuestion } from '@/types/database'
+import { useDraft } from '@/lib/use-draft'
 import { logInfo, logError } from '@/lib/client-logger'
 
+type QuestionDraft = {
+  title: string
+  description: string
+  tags: string[]
+  difference_note: string
+}
+
+const isQuestionDraftEmpty = (draft: QuestionDraft) =>
+  !draft.title.trim() && !draft.description.trim() && draft.tags.length === 0 && !draft.difference_note.trim()
+
 /**
  * Ask Question Page (Screen 2) for SlackIt Q&A platform
  * Allows users to create new questions with title, description, and tags
@@ -31,39 +47,36 @@ function AskQuestionContent() {
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
   const [tags, setTags] = useState<string[]>([])
-  const [currentTag, setCurrentTag] = useState('')
+  const [similarQuestions, setSimilarQuestions] = useState<SimilarQuestion[]>([])
+  const [differenceNote, setDifferenceNote] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
 
-  /**
-   * Handle adding a new tag
-   */
-  const addTag = () => {
-    const trimmedTag = currentTag.trim().toLowerCase()
-    if (trimmedTag && !tags.includes(trimmedTag) && tags.length < 5) {
-      setTags([...tags, trimmedTag])
-      setCurrentTag('')
-    }
-  }
-
-  /**
-   * Handle removing a tag
-   */
-  const removeTag = (tagToRemove: string) => {
-    setTags(tags.filter(tag => tag !== tagToRemove))
-  }
+  // Autosave what has been typed so far; the page is protected, so the draft is synced too
+  const draft = useDraft<QuestionDraft>(
+    'question',
+    { title, description, tags, difference_note: differenceNote },
+    { isEmpty: isQuestionDraftEmpty, syncToServer: true }
+  )
 
   /**
-   * Handle Enter key in tag input
+   * Fill the form with the saved draft
    */
-  const handleTagKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      e.preventDefault()
-      addTag()
+  const handleRestoreDraft = () => {
+    const content = draft.restore()
+    if (content) {
+      setTitle(content.title)
+      setDescription(content.description)
+      setTags(content.tags)
+      setDifferenceNote(content.difference_note)
+      logInfo('Question draft restored')
     }
   }
 
+  // A very close match must be explained before posting (the API enforces the same rule)
+  const needsDifferenceNote = similarQuestions.some(question => question.similarity >= DUPLICATE_SIMILARITY_THRESHOLD)
+
   /**
    * Handle form submission - Submit question to database
    */
@@ -80,6 +93,17 @@ function AskQuestionContent() {
         return
       }
 
+      const validationError = validateQuestionInput({ title, description, tags }) || validateDifferenceNote(differenceNote)
+      if (validationError) {
+        setError(validationError)
+        return
+      }
+
+      if (needsDifferenceNote && !differenceNote.trim()) {
+        setError('Your question looks very close to an existing one. Explain how it is different, or check the similar questions first.')
+        return
+      }
+
       logInfo('Submitting new question', { 
         title: title.trim(), 
         descriptionLength: description.trim().length,
@@ -90,7 +114,8 @@ function AskQuestionContent() {
       const questionData: QuestionFormData = {
         title: title.trim(),
         description: description.trim(),
-        tags: tags
+        tags: tags,
+        difference_note: similarQuestions.length > 0 && differenceNote.trim() ? differenceNote.trim() : undefined
       }
 
       // Submit to database
@@ -106,11 +131,12 @@ function AskQuestionContent() {
       setSuccess('Question created successfully!')
       logInfo('Question created successfully', { questionId: newQuestion.id })
 
-      // Clear form
+      // Clear form and its draft
+      draft.clear()
       setTitle('')
       setDescription('')
       setTags([])
-      setCurrentTag('')
+      setDifferenceNote('')
 
       // Redirect to the new question page after a short delay
       setTimeout(() => {
@@ -149,6 +175,14 @@ function AskQuestionContent() {
 
       {/* Form */}
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {draft.pendingDraft && (
+          <DraftPrompt
+            savedAt={draft.pendingDraft.saved_at}
+            onRestore={handleRestoreDraft}
+            onDiscard={draft.discard}
+          />
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* Title */}
           <div>
@@ -177,6 +211,34 @@ function AskQuestionContent() {
                 {title.length}/200
               </span>
             </div>
+
+            <SimilarQuestions title={title} tags={tags} onChange={setSimilarQuestions} />
+
+            {similarQuestions.length > 0 && (
+              <div className="mt-4">
+                <label htmlFor="difference-note" className="block text-sm font-medium text-white mb-2">
+                  This is different because…{needsDifferenceNote && ' *'}
+                </label>
+                <textarea
+                  id="difference-note"
+                  value={differenceNote}
+                  onChange={(e) => {
+                    setDifferenceNote(e.target.value)
+                    setError('')
+                  }}
+                  placeholder="If none of the questions above answer yours, say what sets it apart"
+                  rows={2}
+                  className="w-full px-4 py-3 bg-gray-800 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+                  maxLength={DIFFERENCE_NOTE_MAX_LENGTH}
+                  required={needsDifferenceNote}
+                />
+                <div className="flex justify-end mt-1">
+                  <span className="text-sm text-gray-400">
+                    {differenceNote.length}/{DIFFERENCE_NOTE_MAX_LENGTH}
+                  </span>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Description */}
@@ -214,58 +276,14 @@ function AskQuestionContent() {
               Tags *
             </label>
             
-            {/* Current Tags */}
-            {tags.length > 0 && (
-              <div className="flex flex-wrap gap-2 mb-3">
-                {tags.map((tag) => (
-                  <span
-                    key={tag}
-                    className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-blue-600 text-white"
-                  >
-                    <Tag className="h-3 w-3 mr-1" />
-                    {tag}
-                    <button
-                      type="button"
-                      onClick={() => removeTag(tag)}
-                      className="ml-2 hover:text-blue-200"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
-                  </span>
-                ))}
-              </div>
-            )}
-
-            {/* Add Tag Input */}
-            <div className="flex space-x-2">
-              <input
-                type="text"
-                value={currentTag}
-                onChange={(e) => {
-                  setCurrentTag(e.target.value)
-                  setError('')
-                  setSuccess('')
-                }}
-                onKeyDown={handleTagKeyDown}
-                placeholder="Add a tag (e.g., javascript, react, python)"
-                className="flex-1 px-4 py-2 bg-gray-800 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                maxLength={30}
-                disabled={tags.length >= 5}
-              />
-              <button
-                type="button"
-                onClick={addTag}
-                disabled={!currentTag.trim() || tags.length >= 5}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
-              >
-                <Plus className="h-4 w-4" />
-                <span>Add</span>
-              </button>
-            </div>
-            
-            <p className="text-sm text-gray-400 mt-2">
-              Add up to 5 tags to describe what your question is about ({tags.length}/5)
-            </p>
+            <TagInput
+              tags={tags}
+              onChange={(newTags) => {
+                setTags(newTags)
+                setError('')
+                setSuccess('')
+              }}
+            />
           </div>
 
           {/* Error Message */}
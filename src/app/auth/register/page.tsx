@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { supabase } from '@/lib/supabase'
+import { validateUsername } from '@/lib/validation'
 import { logAuth, logError } from '@/lib/client-logger'
 
 /**
@@ -55,8 +56,10 @@ export default function RegisterPage() {
         return
       }
 
-      if (username.length < 3) {
-        setError('Username must be at least 3 characters long')
+      // The profiles table enforces the same format, so signing up would fail without this
+      const usernameError = validateUsername(username)
+      if (usernameError) {
+        setError(usernameError)
         return
       }
 
@@ -66,8 +69,8 @@ export default function RegisterPage() {
         password,
         options: {
           data: {
-            username: username,
-            full_name: username,
+            username: username.trim(),
+            full_name: username.trim(),
           },
         },
       })
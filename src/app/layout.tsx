@@ -1,7 +1,9 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import 'highlight.js/styles/github-dark.css'
 import './globals.css'
 import Navbar from '@/components/ui/Navbar'
+import { siteUrl } from '@/lib/urls'
 
 /**
  * Inter font configuration for optimal loading
@@ -15,8 +17,12 @@ const inter = Inter({
  * Comprehensive metadata configuration for SlackIt Q&A platform
  */
 export const metadata: Metadata = {
+  metadataBase: new URL(siteUrl()),
   title: 'SlackIt - Q&A Platform',
   description: 'A modern Q&A platform for developers and tech enthusiasts.',
+  alternates: {
+    types: { 'application/atom+xml': [{ url: '/questions/feed', title: 'Newest questions' }] },
+  },
   manifest: '/manifest.json',
   icons: {
     icon: '/favicon.ico',
@@ -0,0 +1,316 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Check, ShieldAlert, X } from 'lucide-react'
+import Pagination from '@/components/ui/Pagination'
+import { approveFlag, dismissFlag, getCurrentUserProfile, getFlags, getModerationLog } from '@/lib/api'
+import { isModerator } from '@/lib/permissions'
+import { FLAG_REASONS } from '@/lib/constants'
+import {
+  FlagStatus,
+  FlagWithDetails,
+  ModerationAction,
+  ModerationLogEntryWithModerator,
+  PaginatedResponse,
+  Profile
+} from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+type ModerationTab = 'flags' | 'log'
+
+const FLAG_STATUS_OPTIONS: { status: FlagStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'dismissed', label: 'Dismissed' }
+]
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  flag_approved: 'approved a flag',
+  flag_dismissed: 'dismissed a flag',
+  post_deleted: 'deleted a post',
+  post_restored: 'restored a post',
+  question_closed: 'closed a question',
+  question_reopened: 'reopened a question',
+  role_changed: 'changed a role',
+  user_suspended: 'suspended a user',
+  user_shadow_banned: 'shadow-banned a user',
+  user_unsuspended: 'lifted a suspension',
+  votes_reversed: 'reversed fraudulent votes'
+}
+
+// Actions taken by background jobs, which have no moderator
+const JOB_NAMES: Partial<Record<ModerationAction, string>> = {
+  votes_reversed: 'Vote fraud detection'
+}
+
+const timeAgo = (dateString: string) => formatDistanceToNow(new Date(dateString), { addSuffix: true })
+
+/**
+ * Moderation tools: the queue of flagged posts and the audit log of moderator actions
+ * Tab, flag status and page live in the URL
+ */
+function ModerationPageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const tab: ModerationTab = searchParams.get('tab') === 'log' ? 'log' : 'flags'
+  const statusParam = searchParams.get('status') as FlagStatus
+  const status: FlagStatus = FLAG_STATUS_OPTIONS.some(option => option.status === statusParam) ? statusParam : 'pending'
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+
+  const [viewer, setViewer] = useState<Profile | null | undefined>(undefined)
+  const [flags, setFlags] = useState<PaginatedResponse<FlagWithDetails> | null>(null)
+  const [log, setLog] = useState<PaginatedResponse<ModerationLogEntryWithModerator> | null>(null)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getCurrentUserProfile().then(setViewer)
+  }, [])
+
+  const canModerate = !!viewer && isModerator(viewer.role)
+
+  useEffect(() => {
+    if (!canModerate) return
+
+    const fetchPage = async () => {
+      if (tab === 'flags') {
+        setFlags(null)
+        const result = await getFlags(status, page)
+        setFlags(result)
+        logInfo('Moderation queue loaded', { status, page, count: result.count })
+      } else {
+        setLog(null)
+        const result = await getModerationLog(page)
+        setLog(result)
+        logInfo('Moderation log loaded', { page, count: result.count })
+      }
+    }
+
+    fetchPage()
+  }, [canModerate, tab, status, page])
+
+  /**
+   * Update the tab, flag status or page in the URL
+   */
+  const updateParams = (changes: { tab?: ModerationTab; status?: FlagStatus; page?: number }) => {
+    const params = new URLSearchParams({
+      tab: changes.tab ?? tab,
+      page: String(changes.page ?? 1)
+    })
+    if ((changes.tab ?? tab) === 'flags') {
+      params.set('status', changes.status ?? status)
+    }
+    router.push(`/moderation?${params}`)
+  }
+
+  /**
+   * Approve or dismiss a flag, then drop the flags it settled from the pending list
+   */
+  const handleResolve = async (flag: FlagWithDetails, decision: 'approve' | 'dismiss') => {
+    setResolvingId(flag.id)
+    setError('')
+
+    const resolved = decision === 'approve' ? await approveFlag(flag.id) : await dismissFlag(flag.id)
+
+    if (resolved && flags) {
+      const settled = (other: FlagWithDetails) => decision === 'approve'
+        ? other.target_type === flag.target_type && other.target_id === flag.target_id
+        : other.id === flag.id
+      const remaining = flags.data.filter(other => !settled(other))
+      setFlags({ ...flags, data: remaining, count: flags.count - (flags.data.length - remaining.length) })
+      logInfo('Flag resolved', { flagId: flag.id, decision })
+    } else {
+      setError(`Failed to ${decision} the flag`)
+    }
+
+    setResolvingId(null)
+  }
+
+  if (viewer === undefined) {
+    return <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-dark-muted">Loading...</div>
+  }
+
+  if (!canModerate) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6 flex items-center text-dark-text">
+          <ShieldAlert className="h-5 w-5 text-red-400 mr-3" />
+          Only moderators can see this page.
+        </div>
+      </div>
+    )
+  }
+
+  const current = tab === 'flags' ? flags : log
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-white mb-6">Moderation</h1>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => updateParams({ tab: 'flags' })}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              tab === 'flags' ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+            }`}
+          >
+            Flags
+          </button>
+          <button
+            onClick={() => updateParams({ tab: 'log' })}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              tab === 'log' ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+            }`}
+          >
+            Audit log
+          </button>
+        </div>
+
+        {tab === 'flags' && (
+          <div className="flex space-x-2">
+            {FLAG_STATUS_OPTIONS.map(option => (
+              <button
+                key={option.status}
+                onClick={() => updateParams({ status: option.status })}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  status === option.status ? 'bg-dark-accent text-white' : 'text-dark-muted hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {!current ? (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={index} className="bg-dark-card border border-dark-border rounded-lg p-4 animate-pulse">
+              <div className="h-4 bg-dark-accent rounded w-1/3 mb-3"></div>
+              <div className="h-3 bg-dark-accent rounded w-2/3"></div>
+            </div>
+          ))}
+        </div>
+      ) : tab === 'flags' && flags ? (
+        flags.data.length === 0 ? (
+          <p className="bg-dark-card border border-dark-border rounded-lg p-6 text-dark-muted">
+            {status === 'pending' ? 'Nothing waiting for review' : `No ${status} flags`}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {flags.data.map(flag => (
+              <li key={flag.id} className="bg-dark-card border border-dark-border rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-dark-muted">
+                      <span className="font-medium text-red-400">{FLAG_REASONS[flag.reason]}</span>
+                      {' on a '}{flag.target_type}
+                      {flag.target?.author && <> by {flag.target.author.username}</>}
+                      {' – flagged by '}{flag.reporter?.username || 'a deleted user'} {timeAgo(flag.created_at)}
+                    </p>
+                    {flag.target ? (
+                      <Link
+                        href={`/questions/${flag.target.question_id}`}
+                        className="block mt-2 text-dark-text hover:text-white break-words transition-colors"
+                      >
+                        {flag.target.excerpt}
+                      </Link>
+                    ) : (
+                      <p className="mt-2 text-dark-muted italic">This {flag.target_type} has been removed.</p>
+                    )}
+                    {flag.target?.deleted && (
+                      <p className="mt-1 text-xs text-red-400">Deleted</p>
+                    )}
+                    {flag.note && (
+                      <p className="mt-2 text-sm text-dark-muted whitespace-pre-wrap">&ldquo;{flag.note}&rdquo;</p>
+                    )}
+                  </div>
+
+                  {flag.status === 'pending' ? (
+                    <div className="flex space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleResolve(flag, 'approve')}
+                        disabled={resolvingId === flag.id}
+                        title="Remove the post and settle its flags"
+                        className="flex items-center space-x-1 px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Check className="h-4 w-4" />
+                        <span>Approve</span>
+                      </button>
+                      <button
+                        onClick={() => handleResolve(flag, 'dismiss')}
+                        disabled={resolvingId === flag.id}
+                        title="Leave the post in place"
+                        className="flex items-center space-x-1 px-3 py-1 text-sm text-dark-text hover:bg-dark-hover rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <X className="h-4 w-4" />
+                        <span>Dismiss</span>
+                      </button>
+                    </div>
+                  ) : (
+                    flag.resolved_at && (
+                      <p className="text-xs text-dark-muted flex-shrink-0">
+                        {flag.status} {timeAgo(flag.resolved_at)}
+                      </p>
+                    )
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : log && log.data.length === 0 ? (
+        <p className="bg-dark-card border border-dark-border rounded-lg p-6 text-dark-muted">No moderator actions yet</p>
+      ) : log && (
+        <ul className="bg-dark-card border border-dark-border rounded-lg divide-y divide-dark-border">
+          {log.data.map(entry => (
+            <li key={entry.id} className="p-4 text-sm">
+              <p className="text-dark-text">
+                <span className="font-medium text-white">{entry.moderator?.username || JOB_NAMES[entry.action] || 'A deleted user'}</span>
+                {' '}{ACTION_LABELS[entry.action]}
+                {entry.question_id && (
+                  <>
+                    {' on '}
+                    <Link href={`/questions/${entry.question_id}`} className="text-primary hover:text-primary-light transition-colors">
+                      this question
+                    </Link>
+                  </>
+                )}
+                <span className="text-dark-muted"> {timeAgo(entry.created_at)}</span>
+              </p>
+              {entry.note && <p className="mt-1 text-dark-muted">{entry.note}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {current && current.total_pages > 1 && (
+        <div className="mt-6">
+          <Pagination
+            currentPage={page}
+            totalPages={current.total_pages}
+            onPageChange={(newPage) => updateParams({ page: newPage })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Moderation page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function ModerationPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-dark-bg" />}>
+      <ModerationPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,15 @@
+import { redirect } from 'next/navigation'
+import { getSession } from '@/lib/auth'
+
+/**
+ * Shortcut from the user menu to the answers tab of the signed-in user's profile
+ */
+export default async function MyAnswersPage() {
+  const profile = await getSession()
+
+  if (!profile) {
+    redirect('/auth/login?redirect=/my-answers')
+  }
+
+  redirect(`/users/${encodeURIComponent(profile.username)}?tab=answers`)
+}
@@ -0,0 +1,15 @@
+import { redirect } from 'next/navigation'
+import { getSession } from '@/lib/auth'
+
+/**
+ * Shortcut from the user menu to the questions tab of the signed-in user's profile
+ */
+export default async function MyQuestionsPage() {
+  const profile = await getSession()
+
+  if (!profile) {
+    redirect('/auth/login?redirect=/my-questions')
+  }
+
+  redirect(`/users/${encodeURIComponent(profile.username)}?tab=questions`)
+}
@@ -6,8 +6,9 @@ import FilterBar from '@/components/ui/FilterBar'
 import QuestionCard, { QuestionCardSkeleton, EmptyQuestionState } from '@/components/ui/QuestionCard'
 import Pagination from '@/components/ui/Pagination'
 import AuthTest from '@/components/auth/AuthTest'
-import { getQuestions } from '@/lib/api'
-import { QuestionWithAuthor } from '@/types/database'
+import { getQuestions, getCurrentUserProfile } from '@/lib/api'
+import { QUESTION_SORTS } from '@/lib/constants'
+import { Profile, QuestionListItem, QuestionSort } from '@/types/database'
 import { logInfo, logError } from '@/lib/client-logger'
 
 /**
@@ -15,14 +16,16 @@ import { logInfo, logError } from '@/lib/client-logger'
  */
 function HomePageContent() {
   // State management
-  const [questions, setQuestions] = useState<QuestionWithAuthor[]>([])
+  const [questions, setQuestions] = useState<QuestionListItem[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [totalCount, setTotalCount] = useState(0)
-  const [currentFilter, setCurrentFilter] = useState<'newest' | 'unanswered' | 'popular' | 'all'>('newest')
+  const [currentFilter, setCurrentFilter] = useState<QuestionSort>('newest')
   const [searchTerm, setSearchTerm] = useState('')
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [isProfileLoaded, setIsProfileLoaded] = useState(false)
   
   // URL search params
   const searchParams = useSearchParams()
@@ -43,8 +46,13 @@ function HomePageContent() {
         setSearchTerm(urlSearch)
       }
       
-      if (urlFilter && ['newest', 'unanswered', 'popular', 'all'].includes(urlFilter)) {
-        setCurrentFilter(urlFilter as typeof currentFilter)
+      if (urlFilter && QUESTION_SORTS.includes(urlFilter as QuestionSort)) {
+        setCurrentFilter(urlFilter as QuestionSort)
+      } else if (urlFilter === 'popular') {
+        // Links shared before the server-side sorts used 'popular' and 'all'
+        setCurrentFilter('votes')
+      } else if (urlFilter === 'all') {
+        setCurrentFilter('newest')
       }
       
       if (urlPage) {
@@ -64,11 +72,37 @@ function HomePageContent() {
     initializeFromURL()
   }, [searchParams])
 
+  useEffect(() => {
+    /**
+     * Load the signed-in user for the For You feed and tag preferences
+     */
+    const loadProfile = async () => {
+      try {
+        setProfile(await getCurrentUserProfile())
+      } catch (err) {
+        logError('Failed to load profile for home page', err as Error)
+      } finally {
+        setIsProfileLoaded(true)
+      }
+    }
+
+    loadProfile()
+  }, [])
+
   useEffect(() => {
     /**
      * Fetch questions when filters change
      */
     const fetchQuestions = async () => {
+      // The For You feed needs to know who is signed in; fall back to Newest for guests
+      if (currentFilter === 'for_you') {
+        if (!isProfileLoaded) return
+        if (!profile) {
+          setCurrentFilter('newest')
+          return
+        }
+      }
+
       try {
         setIsLoading(true)
         setError(null)
@@ -109,7 +143,7 @@ function HomePageContent() {
     }
     
     fetchQuestions()
-  }, [currentPage, currentFilter, searchTerm])
+  }, [currentPage, currentFilter, searchTerm, isProfileLoaded, profile])
 
   /**
    * Handle filter changes
@@ -178,6 +212,7 @@ function HomePageContent() {
           onSearchChange={handleSearchChange}
           currentFilter={currentFilter}
           searchTerm={searchTerm}
+          showForYou={!!profile}
         />
         
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -209,6 +244,7 @@ function HomePageContent() {
         onSearchChange={handleSearchChange}
         currentFilter={currentFilter}
         searchTerm={searchTerm}
+        showForYou={!!profile}
       />
       
       {/* Main Content Area */}
@@ -222,10 +258,13 @@ function HomePageContent() {
                   <>Search Results for "{searchTerm}"</>
                 ) : (
                   <>
+                    {currentFilter === 'for_you' && 'Questions For You'}
                     {currentFilter === 'newest' && 'Newest Questions'}
+                    {currentFilter === 'active' && 'Recently Active Questions'}
+                    {currentFilter === 'hot' && 'Hot Questions'}
+                    {currentFilter === 'votes' && 'Popular Questions'}
                     {currentFilter === 'unanswered' && 'Unanswered Questions'}
-                    {currentFilter === 'popular' && 'Popular Questions'}
-                    {currentFilter === 'all' && 'All Questions'}
+                    {currentFilter === 'no_accepted_answer' && 'Questions Without an Accepted Answer'}
                   </>
                 )}
               </h1>
@@ -278,6 +317,7 @@ function HomePageContent() {
                 <QuestionCard 
                   key={question.id} 
                   question={question} 
+                  preferences={profile}
                 />
               ))}
             </>
@@ -0,0 +1,328 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { AlertCircle, CheckCircle, X } from 'lucide-react'
+import { getCurrentUserProfile, updateUserProfile, isUsernameAvailable, updateTagPreferences, UsernameTakenError } from '@/lib/api'
+import { validateUsername, validateAvatarUrl } from '@/lib/validation'
+import { USERNAME_MAX_LENGTH } from '@/lib/constants'
+import { Profile, TagPreferences } from '@/types/database'
+import { logInfo, logError } from '@/lib/client-logger'
+
+/**
+ * Edit page for the signed-in user's username, avatar and tag preferences
+ * The middleware sends signed-out visitors to the login page
+ */
+export default function EditProfilePage() {
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [username, setUsername] = useState('')
+  const [avatarUrl, setAvatarUrl] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [usernameError, setUsernameError] = useState('')
+  const [success, setSuccess] = useState(false)
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      const currentProfile = await getCurrentUserProfile()
+
+      if (currentProfile) {
+        setProfile(currentProfile)
+        setUsername(currentProfile.username)
+        setAvatarUrl(currentProfile.avatar_url || '')
+      } else {
+        setError('Could not load your profile. Please sign in again.')
+      }
+
+      setIsLoading(false)
+    }
+
+    loadProfile()
+  }, [])
+
+  /**
+   * Check the username's format and that nobody else has it
+   */
+  const checkUsername = async (value: string) => {
+    const formatError = validateUsername(value)
+    if (formatError) return formatError
+
+    if (profile && value.trim() !== profile.username && !(await isUsernameAvailable(value.trim(), profile.id))) {
+      return 'That username is already taken'
+    }
+
+    return null
+  }
+
+  const handleUsernameBlur = async () => {
+    setUsernameError((await checkUsername(username)) || '')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile) return
+
+    setSuccess(false)
+    setError('')
+
+    const usernameProblem = await checkUsername(username)
+    if (usernameProblem) {
+      setUsernameError(usernameProblem)
+      return
+    }
+
+    const avatarProblem = validateAvatarUrl(avatarUrl.trim())
+    if (avatarProblem) {
+      setError(avatarProblem)
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      logInfo('Saving profile', { userId: profile.id })
+
+      const updated = await updateUserProfile({
+        username: username.trim(),
+        avatar_url: avatarUrl.trim() || null
+      })
+
+      if (!updated) {
+        setError('Failed to save your profile')
+        return
+      }
+
+      setProfile(updated)
+      setSuccess(true)
+    } catch (err) {
+      // The unique index still catches a username taken since the check above
+      if (err instanceof UsernameTakenError) {
+        setUsernameError(err.message)
+        return
+      }
+      setError('An unexpected error occurred')
+      logError('Error saving profile', err as Error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6 animate-pulse">
+          <div className="h-6 bg-dark-accent rounded w-1/3 mb-6"></div>
+          <div className="h-10 bg-dark-accent rounded mb-4"></div>
+          <div className="h-10 bg-dark-accent rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-dark-card border border-dark-border rounded-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-white">Edit Profile</h1>
+          {profile && (
+            <Link
+              href={`/users/${encodeURIComponent(profile.username)}`}
+              className="text-sm text-primary-light hover:text-white transition-colors"
+            >
+              View public profile
+            </Link>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-white mb-2">
+              Username
+            </label>
+            <input
+              id="username"
+              type="text"
+              value={username}
+              onChange={(e) => {
+                setUsername(e.target.value)
+                setUsernameError('')
+                setSuccess(false)
+              }}
+              onBlur={handleUsernameBlur}
+              maxLength={USERNAME_MAX_LENGTH}
+              disabled={!profile}
+              className="w-full px-4 py-2 bg-dark-bg text-white border border-dark-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+            {usernameError && (
+              <p className="mt-2 text-sm text-error">{usernameError}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="avatar-url" className="block text-sm font-medium text-white mb-2">
+              Avatar URL
+            </label>
+            <div className="flex items-center space-x-4">
+              {avatarUrl && !validateAvatarUrl(avatarUrl.trim()) ? (
+                <img src={avatarUrl.trim()} alt="Avatar preview" className="w-12 h-12 rounded-full" />
+              ) : (
+                <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center">
+                  <span className="text-lg font-medium text-white">
+                    {(username || '?').charAt(0).toUpperCase()}
+                  </span>
+                </div>
+              )}
+              <input
+                id="avatar-url"
+                type="url"
+                value={avatarUrl}
+                onChange={(e) => {
+                  setAvatarUrl(e.target.value)
+                  setError('')
+                  setSuccess(false)
+                }}
+                placeholder="https://example.com/avatar.png"
+                disabled={!profile}
+                className="flex-1 px-4 py-2 bg-dark-bg text-white border border-dark-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-900 border border-red-700 p-4">
+              <div className="flex items-center">
+                <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+                <div className="text-sm text-red-300">{error}</div>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="flex items-center space-x-2 text-sm text-success">
+              <CheckCircle className="h-4 w-4" />
+              <span>Profile saved</span>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving || !profile}
+              className="px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save Profile'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {profile && (
+        <TagPreferencesSection
+          initial={{
+            watched_tags: profile.watched_tags,
+            ignored_tags: profile.ignored_tags,
+            hide_ignored_tags: profile.hide_ignored_tags
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Watched and ignored tags - tags are added from their tag pages, removed here
+ * Every change is saved straight away
+ */
+function TagPreferencesSection({ initial }: { initial: TagPreferences }) {
+  const [preferences, setPreferences] = useState(initial)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const save = async (updated: TagPreferences) => {
+    setIsSaving(true)
+    setError('')
+
+    const saved = await updateTagPreferences(updated)
+    if (saved) {
+      setPreferences(saved)
+      logInfo('Tag preferences saved from profile page', {
+        watched: saved.watched_tags.length,
+        ignored: saved.ignored_tags.length
+      })
+    } else {
+      setError('Failed to save your tag preferences')
+    }
+
+    setIsSaving(false)
+  }
+
+  const removeTag = (list: 'watched_tags' | 'ignored_tags', tagToRemove: string) => {
+    save({ ...preferences, [list]: preferences[list].filter(tag => tag !== tagToRemove) })
+  }
+
+  const renderTags = (list: 'watched_tags' | 'ignored_tags', emptyMessage: string) => (
+    preferences[list].length === 0 ? (
+      <p className="text-sm text-dark-muted">{emptyMessage}</p>
+    ) : (
+      <div className="flex flex-wrap gap-2">
+        {preferences[list].map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm bg-tag-bg text-tag-text"
+          >
+            <Link href={`/tags/${encodeURIComponent(tag)}`} className="hover:text-white transition-colors">
+              {tag}
+            </Link>
+            <button
+              type="button"
+              onClick={() => removeTag(list, tag)}
+              disabled={isSaving}
+              className="ml-1.5 hover:text-white disabled:opacity-50"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    )
+  )
+
+  return (
+    <div className="bg-dark-card border border-dark-border rounded-lg p-6 mt-6">
+      <h2 className="text-lg font-semibold text-white mb-1">Tag preferences</h2>
+      <p className="text-sm text-dark-muted mb-6">
+        Watch or ignore a tag from its <Link href="/tags" className="text-primary-light hover:text-white transition-colors">tag page</Link>.
+        Watched tags shape your For You feed and notify you of new questions.
+      </p>
+
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Watched tags</h3>
+          {renderTags('watched_tags', 'You are not watching any tags')}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Ignored tags</h3>
+          {renderTags('ignored_tags', 'You are not ignoring any tags')}
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-dark-text">
+          <input
+            type="checkbox"
+            checked={preferences.hide_ignored_tags}
+            onChange={(e) => save({ ...preferences, hide_ignored_tags: e.target.checked })}
+            disabled={isSaving}
+            className="rounded border-dark-border bg-dark-bg text-primary focus:ring-primary"
+          />
+          <span>Hide questions with ignored tags instead of greying them out</span>
+        </label>
+
+        {error && (
+          <p className="text-sm text-error">{error}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import type { Metadata } from 'next'
+import { notFound, permanentRedirect } from 'next/navigation'
+import QuestionDetail from '@/components/ui/QuestionDetail'
+import { getQuestionForPage } from '@/lib/questions'
+import { markdownExcerpt, markdownToText } from '@/lib/markdown'
+import { questionPath, questionSlug, siteUrl } from '@/lib/urls'
+import { AnswerWithAuthor, Profile, QuestionWithAnswers } from '@/types/database'
+
+// Search engines cut descriptions at about this length
+const DESCRIPTION_LENGTH = 160
+
+interface QuestionPageProps {
+  params: Promise<{ id: string; slug: string }>
+}
+
+/**
+ * Deleted and shadowed questions are only shown to their author and moderators, so keep them out of search
+ */
+const isIndexable = (question: QuestionWithAnswers) => !question.deleted_at && !question.is_shadowed
+
+const userUrl = (author: Pick<Profile, 'username'>) => `${siteUrl()}/users/${encodeURIComponent(author.username)}`
+
+/**
+ * Title, description excerpt, tags, Open Graph and Twitter card for a question
+ */
+export async function generateMetadata({ params }: QuestionPageProps): Promise<Metadata> {
+  const { id } = await params
+  const { question } = await getQuestionForPage(id)
+
+  if (!question) {
+    return { title: 'Question not found - SlackIt' }
+  }
+
+  const path = questionPath(question)
+  const description = markdownExcerpt(question.description, DESCRIPTION_LENGTH)
+  const authors = question.author ? [{ name: question.author.username, url: userUrl(question.author) }] : undefined
+
+  return {
+    title: `${question.title} - SlackIt`,
+    description,
+    keywords: question.tags,
+    authors,
+    alternates: {
+      canonical: path,
+      types: { 'application/atom+xml': [{ url: `/questions/${question.id}/feed`, title: 'Answers to this question' }] }
+    },
+    robots: isIndexable(question) ? undefined : { index: false, follow: false },
+    openGraph: {
+      type: 'article',
+      url: path,
+      siteName: 'SlackIt',
+      title: question.title,
+      description,
+      publishedTime: question.created_at,
+      modifiedTime: question.updated_at,
+      authors: authors?.map(author => author.url),
+      tags: question.tags
+    },
+    twitter: {
+      card: 'summary',
+      title: question.title,
+      description
+    }
+  }
+}
+
+/**
+ * schema.org QAPage data, so search results can show the question with its accepted and top answers
+ * https://developers.google.com/search/docs/appearance/structured-data/qapage
+ */
+const questionStructuredData = (question: QuestionWithAnswers, url: string) => {
+  const person = (author: Profile | null) => author && { '@type': 'Person', name: author.username, url: userUrl(author) }
+
+  const answers = question.answers.filter(answer => !answer.deleted_at && !answer.is_tombstone && !answer.is_shadowed)
+  const toAnswer = (answer: AnswerWithAuthor) => ({
+    '@type': 'Answer',
+    text: markdownToText(answer.content),
+    dateCreated: answer.created_at,
+    upvoteCount: answer.votes,
+    url: `${url}#answer-${answer.id}`,
+    author: person(answer.author)
+  })
+
+  const accepted = answers.find(answer => answer.is_accepted)
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'QAPage',
+    mainEntity: {
+      '@type': 'Question',
+      name: question.title,
+      text: markdownToText(question.description),
+      answerCount: answers.length,
+      upvoteCount: question.votes,
+      dateCreated: question.created_at,
+      dateModified: question.updated_at,
+      author: person(question.author),
+      acceptedAnswer: accepted ? toAnswer(accepted) : undefined,
+      suggestedAnswer: answers.filter(answer => answer !== accepted).map(toAnswer)
+    }
+  }
+}
+
+/**
+ * Question Detail Page for SlackIt Q&A platform
+ * Rendered on the server so crawlers and link previews see the question and its answers.
+ * A missing or outdated slug (after the title was edited) redirects to the current one
+ */
+export default async function QuestionPage({ params }: QuestionPageProps) {
+  const { id, slug } = await params
+  const { question } = await getQuestionForPage(id)
+
+  if (!question) {
+    notFound()
+  }
+
+  const path = questionPath(question)
+
+  if (slug !== questionSlug(question.title)) {
+    permanentRedirect(path)
+  }
+
+  // Escape "<" so text in a post can't close the script tag
+  const structuredData = JSON.stringify(questionStructuredData(question, `${siteUrl()}${path}`)).replace(/</g, '\\u003c')
+
+  return (
+    <>
+      {isIndexable(question) && (
+        <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: structuredData }} />
+      )}
+      <QuestionDetail key={question.id} initialQuestion={question} />
+    </>
+  )
+}
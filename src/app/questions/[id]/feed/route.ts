@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getQuestionAnswersFeed, renderAtomFeed } from '@/lib/feeds'
+
+/**
+ * Atom feed of the answers to a question
+ * GET /questions/[id]/feed
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { feed, error, status } = await getQuestionAnswersFeed(params.id)
+
+    if (!feed) {
+      return NextResponse.json({ error }, { status })
+    }
+
+    return new NextResponse(renderAtomFeed(feed), {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=300'
+      }
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { ArrowLeft, AlertCircle, History } from 'lucide-react'
+import { getQuestionWithAnswers, getRevisions } from '@/lib/api'
+import { diffLines, toSideBySide, DiffLine } from '@/lib/diff'
+import { QuestionWithAnswers, PostRevisionWithEditor } from '@/types/database'
+import { logInfo, logError } from '@/lib/client-logger'
+
+/**
+ * Revision history page for a question, or for one of its answers (?answer=<id>)
+ * Each revision is shown as a side-by-side diff against the one before it
+ */
+function RevisionsPageContent({ questionId }: { questionId: string }) {
+  const searchParams = useSearchParams()
+  const answerId = searchParams.get('answer')
+
+  const [question, setQuestion] = useState<QuestionWithAnswers | null>(null)
+  const [revisions, setRevisions] = useState<PostRevisionWithEditor[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        setIsLoading(true)
+        setError('')
+
+        const [questionData, revisionData] = await Promise.all([
+          getQuestionWithAnswers(questionId),
+          getRevisions(questionId, answerId)
+        ])
+
+        if (!questionData) {
+          setError('Question not found')
+          return
+        }
+
+        setQuestion(questionData)
+        setRevisions(revisionData)
+        logInfo('Revision history loaded', { questionId, answerId, count: revisionData.length })
+      } catch (err) {
+        setError('Failed to load revision history')
+        logError('Error fetching revision history', err as Error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchRevisions()
+  }, [questionId, answerId])
+
+  /**
+   * Format date for display
+   */
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-gray-800 border-b border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <Link
+            href={`/questions/${questionId}`}
+            className="flex items-center space-x-2 text-gray-300 hover:text-white transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span>Back to Question</span>
+          </Link>
+          <h1 className="text-2xl font-bold text-white mt-4 flex items-center space-x-2">
+            <History className="h-6 w-6" />
+            <span>{answerId ? 'Answer revision history' : 'Question revision history'}</span>
+          </h1>
+          {question && (
+            <p className="text-gray-400 mt-1">{question.title}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {isLoading ? (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 animate-pulse">
+            <div className="h-6 bg-gray-700 rounded mb-4 w-1/3"></div>
+            <div className="h-4 bg-gray-700 rounded mb-2"></div>
+            <div className="h-4 bg-gray-700 rounded w-3/4"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-900 border border-red-700 rounded-lg p-6">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+              <div className="text-sm text-red-300">{error}</div>
+            </div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 text-gray-400">
+            This post has not been edited.
+          </div>
+        ) : (
+          // Newest revision first, each compared with its predecessor
+          [...revisions].reverse().map((revision) => {
+            const previous = revisions.find(r => r.revision_number === revision.revision_number - 1)
+
+            return (
+              <div key={revision.id} className="bg-gray-800 border border-gray-700 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-3 border-b border-gray-700 text-sm">
+                  <span className="font-semibold text-white">
+                    Revision {revision.revision_number}
+                    {revision.revision_number === 1 && <span className="ml-2 text-gray-400 font-normal">(original)</span>}
+                  </span>
+                  <span className="text-gray-400">
+                    {revision.editor?.username || 'Unknown user'} · {formatDate(revision.created_at)}
+                  </span>
+                </div>
+
+                <div className="p-6 space-y-4">
+                  {answerId ? (
+                    <RevisionField label="Content" before={previous?.content} after={revision.content} />
+                  ) : (
+                    <>
+                      <RevisionField label="Title" before={previous?.title} after={revision.title} />
+                      <RevisionField
+                        label="Tags"
+                        before={previous?.tags?.join(', ')}
+                        after={revision.tags?.join(', ')}
+                      />
+                      <RevisionField label="Description" before={previous?.description} after={revision.description} />
+                    </>
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * One field of a revision: full text for the original, a side-by-side diff afterwards
+ * Unchanged fields are collapsed to a single line
+ */
+function RevisionField({
+  label,
+  before,
+  after
+}: {
+  label: string
+  before?: string | null
+  after?: string | null
+}) {
+  if (before === undefined) {
+    return (
+      <div>
+        <h3 className="text-xs uppercase tracking-wide text-gray-400 mb-2">{label}</h3>
+        <pre className="text-sm text-gray-300 whitespace-pre-wrap font-sans">{after || ''}</pre>
+      </div>
+    )
+  }
+
+  if ((before || '') === (after || '')) {
+    return (
+      <p className="text-xs uppercase tracking-wide text-gray-500">{label}: unchanged</p>
+    )
+  }
+
+  const rows = toSideBySide(diffLines(before || '', after || ''))
+
+  const cellClass = (line: DiffLine | null) => {
+    if (!line) return 'bg-gray-900'
+    if (line.type === 'removed') return 'bg-red-900/40 text-red-200'
+    if (line.type === 'added') return 'bg-green-900/40 text-green-200'
+    return 'text-gray-300'
+  }
+
+  return (
+    <div>
+      <h3 className="text-xs uppercase tracking-wide text-gray-400 mb-2">{label}</h3>
+      <div className="grid grid-cols-2 border border-gray-700 rounded-lg overflow-hidden text-sm font-mono">
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <div className={`px-3 py-0.5 whitespace-pre-wrap break-words border-r border-gray-700 ${cellClass(row.left)}`}>
+              {row.left?.text || ' '}
+            </div>
+            <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${cellClass(row.right)}`}>
+              {row.right?.text || ' '}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Revisions page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function RevisionsPage({ params }: { params: { id: string } }) {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-900" />}>
+      <RevisionsPageContent questionId={params.id} />
+    </Suspense>
+  )
+}
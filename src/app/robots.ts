@@ -0,0 +1,12 @@
+import type { MetadataRoute } from 'next'
+import { siteUrl } from '@/lib/urls'
+
+/**
+ * robots.txt: everything public may be crawled, and crawlers are pointed at the sitemap
+ */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: ['/api/', '/admin', '/moderation', '/profile'] },
+    sitemap: `${siteUrl()}/sitemap.xml`
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { countSitemapUrls, getSitemapUrls, renderSitemap, renderSitemapIndex, sitemapCount } from '@/lib/sitemap'
+
+/**
+ * The sitemap of public questions and tags, or an index of numbered sitemaps once
+ * there are more URLs than one sitemap may hold
+ * GET /sitemap.xml
+ */
+export async function GET() {
+  try {
+    const counts = await countSitemapUrls()
+    const sitemaps = sitemapCount(counts)
+
+    const body = sitemaps > 1
+      ? renderSitemapIndex(sitemaps)
+      : renderSitemap(await getSitemapUrls(1, counts))
+
+    console.log('Sitemap generated:', { urls: counts.total, sitemaps })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=3600'
+      }
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { countSitemapUrls, getSitemapUrls, renderSitemap, sitemapCount } from '@/lib/sitemap'
+
+/**
+ * One of the numbered sitemaps listed by the /sitemap.xml index
+ * GET /sitemap/[page].xml
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { page: string } }
+) {
+  try {
+    const match = params.page.match(/^(\d+)\.xml$/)
+    const page = match ? parseInt(match[1]) : 0
+
+    const counts = await countSitemapUrls()
+
+    if (page < 1 || page > sitemapCount(counts)) {
+      return NextResponse.json({ error: 'Sitemap not found' }, { status: 404 })
+    }
+
+    const urls = await getSitemapUrls(page, counts)
+
+    return new NextResponse(renderSitemap(urls), {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=3600'
+      }
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { AlertCircle, Eye, EyeOff, Rss } from 'lucide-react'
+import QuestionCard, { QuestionCardSkeleton, EmptyQuestionState } from '@/components/ui/QuestionCard'
+import Pagination from '@/components/ui/Pagination'
+import { getTag, getQuestions, getCurrentUserProfile, updateTagPreferences } from '@/lib/api'
+import { QUESTION_SORTS } from '@/lib/constants'
+import { TagWithSynonyms, TagPreferences, QuestionListItem, QuestionSort, PaginatedResponse } from '@/types/database'
+import { logInfo, logError } from '@/lib/client-logger'
+
+// The personalised feed doesn't combine with a tag filter
+type TagQuestionSort = Exclude<QuestionSort, 'for_you'>
+
+const TAG_SORTS = QUESTION_SORTS.filter((option): option is TagQuestionSort => option !== 'for_you')
+
+const SORT_LABELS: Record<TagQuestionSort, string> = {
+  newest: 'Newest',
+  active: 'Active',
+  hot: 'Hot',
+  votes: 'Score',
+  unanswered: 'Unanswered',
+  no_accepted_answer: 'No accepted answer'
+}
+
+const QUESTIONS_PER_PAGE = 10
+
+/**
+ * Tag page: the tag's description, wiki and synonyms, then its questions
+ * Visiting a synonym redirects to the main tag
+ */
+function TagPageContent({ name }: { name: string }) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const sortParam = searchParams.get('sort') as TagQuestionSort
+  const sort: TagQuestionSort = TAG_SORTS.includes(sortParam) ? sortParam : 'newest'
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+
+  const [tag, setTag] = useState<TagWithSynonyms | null>(null)
+  const [error, setError] = useState('')
+  const [questions, setQuestions] = useState<PaginatedResponse<QuestionListItem> | null>(null)
+  const [showWiki, setShowWiki] = useState(false)
+  const [preferences, setPreferences] = useState<TagPreferences | null>(null)
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false)
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      const profile = await getCurrentUserProfile()
+      if (profile) {
+        setPreferences({
+          watched_tags: profile.watched_tags,
+          ignored_tags: profile.ignored_tags,
+          hide_ignored_tags: profile.hide_ignored_tags
+        })
+      }
+    }
+
+    loadPreferences()
+  }, [])
+
+  useEffect(() => {
+    const fetchTag = async () => {
+      try {
+        setError('')
+        const tagData = await getTag(name)
+
+        if (!tagData) {
+          setError('Tag not found')
+          return
+        }
+
+        if (tagData.name !== name) {
+          router.replace(`/tags/${encodeURIComponent(tagData.name)}`)
+          return
+        }
+
+        setTag(tagData)
+        logInfo('Tag loaded', { name: tagData.name })
+      } catch (err) {
+        setError('Failed to load tag')
+        logError('Error fetching tag', err as Error)
+      }
+    }
+
+    fetchTag()
+  }, [name, router])
+
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      setQuestions(null)
+      setQuestions(await getQuestions(page, QUESTIONS_PER_PAGE, sort, undefined, name))
+    }
+
+    fetchQuestions()
+  }, [name, sort, page])
+
+  /**
+   * Watch or ignore this tag (or undo it); a tag is never both watched and ignored
+   */
+  const togglePreference = async (list: 'watched_tags' | 'ignored_tags') => {
+    if (!preferences || isSavingPreferences) return
+
+    const other = list === 'watched_tags' ? 'ignored_tags' : 'watched_tags'
+    const isOn = preferences[list].includes(name)
+
+    const updated: TagPreferences = {
+      ...preferences,
+      [list]: isOn ? preferences[list].filter(tag => tag !== name) : [...preferences[list], name],
+      [other]: preferences[other].filter(tag => tag !== name)
+    }
+
+    setIsSavingPreferences(true)
+    const saved = await updateTagPreferences(updated)
+    if (saved) {
+      setPreferences(saved)
+      logInfo('Tag preference updated', { name, list, enabled: !isOn })
+    }
+    setIsSavingPreferences(false)
+  }
+
+  /**
+   * Update the sort or page in the URL
+   */
+  const updateParams = (changes: { sort?: TagQuestionSort; page?: number }) => {
+    const params = new URLSearchParams({
+      sort: changes.sort ?? sort,
+      page: String(changes.page ?? 1)
+    })
+    router.push(`/tags/${encodeURIComponent(name)}?${params}`)
+  }
+
+  if (error) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-red-900 border border-red-700 rounded-lg p-6">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+            <div className="text-sm text-red-300">{error}</div>
+          </div>
+        </div>
+        <Link href="/tags" className="inline-block mt-4 text-primary-light hover:text-white transition-colors">
+          Browse all tags
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Tag Header */}
+      <div className="mb-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-2">
+          <h1 className="text-2xl font-bold text-white">
+            Questions tagged <span className="text-tag-text">[{name}]</span>
+          </h1>
+          <div className="flex items-center gap-2">
+            <a
+              href={`/tags/${encodeURIComponent(name)}/feed`}
+              title="Atom feed of new questions in this tag"
+              className="p-2 text-dark-muted hover:text-white hover:bg-dark-hover rounded-lg transition-colors"
+            >
+              <Rss className="h-4 w-4" />
+            </a>
+            {preferences && (
+              <>
+                <button
+                  onClick={() => togglePreference('watched_tags')}
+                  disabled={isSavingPreferences}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center space-x-1 disabled:opacity-50 ${
+                    preferences.watched_tags.includes(name) ? 'bg-primary text-white' : 'text-dark-text border border-dark-border hover:bg-dark-hover'
+                  }`}
+                >
+                  <Eye className="h-4 w-4" />
+                  <span>{preferences.watched_tags.includes(name) ? 'Watching' : 'Watch tag'}</span>
+                </button>
+                <button
+                  onClick={() => togglePreference('ignored_tags')}
+                  disabled={isSavingPreferences}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center space-x-1 disabled:opacity-50 ${
+                    preferences.ignored_tags.includes(name) ? 'bg-dark-accent text-white' : 'text-dark-text border border-dark-border hover:bg-dark-hover'
+                  }`}
+                >
+                  <EyeOff className="h-4 w-4" />
+                  <span>{preferences.ignored_tags.includes(name) ? 'Ignored' : 'Ignore tag'}</span>
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        {tag ? (
+          <>
+            {tag.excerpt && <p className="text-dark-text max-w-3xl">{tag.excerpt}</p>}
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-dark-muted mt-2">
+              <span>{tag.usage_count.toLocaleString()} {tag.usage_count === 1 ? 'question' : 'questions'}</span>
+              {tag.synonyms.length > 0 && (
+                <span>Synonyms: {tag.synonyms.join(', ')}</span>
+              )}
+              {tag.wiki && (
+                <button
+                  onClick={() => setShowWiki(!showWiki)}
+                  className="text-primary-light hover:text-white transition-colors"
+                >
+                  {showWiki ? 'Hide tag info' : 'Learn more about this tag'}
+                </button>
+              )}
+            </div>
+            {showWiki && tag.wiki && (
+              <div className="mt-4 bg-dark-card border border-dark-border rounded-lg p-6">
+                <p className="text-dark-text whitespace-pre-wrap">{tag.wiki}</p>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="h-4 bg-dark-accent rounded w-1/2 animate-pulse"></div>
+        )}
+      </div>
+
+      {/* Sort */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {TAG_SORTS.map(option => (
+          <button
+            key={option}
+            onClick={() => updateParams({ sort: option })}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              sort === option ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+            }`}
+          >
+            {SORT_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {/* Questions */}
+      <div className="space-y-6">
+        {!questions ? (
+          Array.from({ length: 3 }).map((_, index) => (
+            <QuestionCardSkeleton key={index} />
+          ))
+        ) : questions.data.length === 0 ? (
+          <EmptyQuestionState message={`No questions tagged [${name}] match this sort`} />
+        ) : (
+          questions.data.map(question => (
+            <QuestionCard key={question.id} question={question} />
+          ))
+        )}
+      </div>
+
+      {questions && questions.total_pages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={questions.total_pages}
+          onPageChange={(newPage) => updateParams({ page: newPage })}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Tag page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function TagPage({ params }: { params: { name: string } }) {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-dark-bg" />}>
+      <TagPageContent name={decodeURIComponent(params.name).toLowerCase()} />
+    </Suspense>
+  )
+}
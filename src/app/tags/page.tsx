@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Search } from 'lucide-react'
+import Pagination from '@/components/ui/Pagination'
+import { getTags } from '@/lib/api'
+import { Tag, TagSort, PaginatedResponse } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+const TAG_SORT_OPTIONS: { sort: TagSort; label: string }[] = [
+  { sort: 'popular', label: 'Popular' },
+  { sort: 'name', label: 'Name' },
+  { sort: 'new', label: 'New' }
+]
+
+const TAGS_PER_PAGE = 36
+
+/**
+ * Tags index: every tag in use with its description and question count
+ * Sort, filter and page live in the URL
+ */
+function TagsPageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const sortParam = searchParams.get('sort') as TagSort
+  const sort: TagSort = TAG_SORT_OPTIONS.some(option => option.sort === sortParam) ? sortParam : 'popular'
+  const filter = searchParams.get('q') || ''
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+
+  const [tags, setTags] = useState<PaginatedResponse<Tag> | null>(null)
+  const [filterInput, setFilterInput] = useState(filter)
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      setTags(null)
+      const result = await getTags(sort, page, TAGS_PER_PAGE, filter)
+      setTags(result)
+      logInfo('Tags loaded', { sort, page, filter, count: result.count })
+    }
+
+    fetchTags()
+  }, [sort, page, filter])
+
+  /**
+   * Update the sort, filter or page in the URL
+   */
+  const updateParams = (changes: { sort?: TagSort; q?: string; page?: number }) => {
+    const params = new URLSearchParams({
+      sort: changes.sort ?? sort,
+      page: String(changes.page ?? 1)
+    })
+    const q = changes.q ?? filter
+    if (q) {
+      params.set('q', q)
+    }
+    router.push(`/tags?${params}`)
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-white mb-2">Tags</h1>
+      <p className="text-dark-text mb-6 max-w-2xl">
+        A tag is a keyword that groups your question with similar questions.
+        Using the right tags makes it easier for others to find and answer it.
+      </p>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            updateParams({ q: filterInput.trim() })
+          }}
+          className="relative"
+        >
+          <input
+            type="text"
+            value={filterInput}
+            onChange={(e) => setFilterInput(e.target.value)}
+            placeholder="Filter by tag name"
+            className="w-full sm:w-72 px-4 py-2 pl-10 bg-dark-card text-dark-text rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-dark-muted" />
+        </form>
+
+        <div className="flex space-x-2">
+          {TAG_SORT_OPTIONS.map(option => (
+            <button
+              key={option.sort}
+              onClick={() => updateParams({ sort: option.sort })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                sort === option.sort ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!tags ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 8 }).map((_, index) => (
+            <div key={index} className="bg-dark-card border border-dark-border rounded-lg p-4 animate-pulse">
+              <div className="h-5 bg-dark-accent rounded w-1/3 mb-3"></div>
+              <div className="h-3 bg-dark-accent rounded mb-2"></div>
+              <div className="h-3 bg-dark-accent rounded w-2/3"></div>
+            </div>
+          ))}
+        </div>
+      ) : tags.data.length === 0 ? (
+        <p className="bg-dark-card border border-dark-border rounded-lg p-6 text-dark-muted">
+          {filter ? `No tags match "${filter}"` : 'No tags yet'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {tags.data.map(tag => (
+            <div key={tag.id} className="bg-dark-card border border-dark-border rounded-lg p-4 flex flex-col">
+              <Link
+                href={`/tags/${encodeURIComponent(tag.name)}`}
+                className="self-start inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-tag-bg text-tag-text hover:bg-tag-hover transition-colors"
+              >
+                {tag.name}
+              </Link>
+              <p className="flex-1 text-sm text-dark-text mt-3 line-clamp-3">
+                {tag.excerpt || ''}
+              </p>
+              <p className="text-xs text-dark-muted mt-3">
+                {tag.usage_count.toLocaleString()} {tag.usage_count === 1 ? 'question' : 'questions'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tags && tags.total_pages > 1 && (
+        <div className="mt-6">
+          <Pagination
+            currentPage={page}
+            totalPages={tags.total_pages}
+            onPageChange={(newPage) => updateParams({ page: newPage })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Tags page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function TagsPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-dark-bg" />}>
+      <TagsPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,362 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { format, formatDistanceToNow } from 'date-fns'
+import { AlertCircle, Ban, Calendar, CheckCircle, EyeOff, Pencil } from 'lucide-react'
+import QuestionCard, { QuestionCardSkeleton } from '@/components/ui/QuestionCard'
+import Pagination from '@/components/ui/Pagination'
+import BadgeList from '@/components/ui/BadgeList'
+import SuspendUserButton from '@/components/ui/SuspendUserButton'
+import { formatReputation } from '@/components/ui/ReputationBadge'
+import { getUserProfile, getUserQuestions, getUserAnswers, getUserBadges, getCurrentUserProfile } from '@/lib/api'
+import { isModerator, isSuspended } from '@/lib/permissions'
+import { questionPath } from '@/lib/urls'
+import {
+  UserProfileSummary,
+  UserBadge,
+  UserPostSort,
+  QuestionWithAuthor,
+  AnswerWithQuestion,
+  PaginatedResponse
+} from '@/types/database'
+import { logInfo, logError } from '@/lib/client-logger'
+
+type ProfileTab = 'questions' | 'answers'
+
+const POSTS_PER_PAGE = 10
+
+/**
+ * Public profile page: reputation, badges, top tags and the user's questions and answers
+ * The active tab, sort and page live in the URL so lists can be linked to
+ */
+function UserProfileContent({ username }: { username: string }) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const tab: ProfileTab = searchParams.get('tab') === 'answers' ? 'answers' : 'questions'
+  const sort: UserPostSort = searchParams.get('sort') === 'newest' ? 'newest' : 'votes'
+  const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+
+  const [profile, setProfile] = useState<UserProfileSummary | null>(null)
+  const [badges, setBadges] = useState<UserBadge[]>([])
+  const [isOwnProfile, setIsOwnProfile] = useState(false)
+  const [canModerate, setCanModerate] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const [questions, setQuestions] = useState<PaginatedResponse<QuestionWithAuthor> | null>(null)
+  const [answers, setAnswers] = useState<PaginatedResponse<AnswerWithQuestion> | null>(null)
+  const [isLoadingPosts, setIsLoadingPosts] = useState(true)
+
+  // Load the profile header once per user
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        setIsLoading(true)
+        setError('')
+
+        const [profileData, badgeData, currentUser] = await Promise.all([
+          getUserProfile(username),
+          getUserBadges(username),
+          getCurrentUserProfile()
+        ])
+
+        if (!profileData) {
+          setError('User not found')
+          return
+        }
+
+        setProfile(profileData)
+        setBadges(badgeData)
+        setIsOwnProfile(currentUser?.id === profileData.id)
+        setCanModerate(isModerator(currentUser?.role))
+        logInfo('User profile loaded', { username, badgeCount: badgeData.length })
+      } catch (err) {
+        setError('Failed to load profile')
+        logError('Error fetching user profile', err as Error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProfile()
+  }, [username])
+
+  // Load the current tab's page of posts
+  useEffect(() => {
+    const fetchPosts = async () => {
+      setIsLoadingPosts(true)
+
+      if (tab === 'questions') {
+        setQuestions(await getUserQuestions(username, page, POSTS_PER_PAGE, sort))
+      } else {
+        setAnswers(await getUserAnswers(username, page, POSTS_PER_PAGE, sort))
+      }
+
+      setIsLoadingPosts(false)
+    }
+
+    fetchPosts()
+  }, [username, tab, sort, page])
+
+  /**
+   * Reload the profile header after a moderator suspends the user or lifts it
+   */
+  const refreshProfile = async () => {
+    const profileData = await getUserProfile(username)
+    if (profileData) {
+      setProfile(profileData)
+    }
+  }
+
+  /**
+   * Update the tab, sort or page in the URL
+   */
+  const updateParams = (changes: { tab?: ProfileTab; sort?: UserPostSort; page?: number }) => {
+    const params = new URLSearchParams({
+      tab: changes.tab ?? tab,
+      sort: changes.sort ?? sort,
+      page: String(changes.page ?? 1)
+    })
+    router.push(`/users/${encodeURIComponent(username)}?${params}`, { scroll: false })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6 animate-pulse">
+          <div className="flex items-center space-x-4">
+            <div className="w-20 h-20 bg-dark-accent rounded-full"></div>
+            <div className="flex-1">
+              <div className="h-6 bg-dark-accent rounded w-1/3 mb-3"></div>
+              <div className="h-4 bg-dark-accent rounded w-1/4"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-red-900 border border-red-700 rounded-lg p-6">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+            <div className="text-sm text-red-300">{error || 'User not found'}</div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const list = tab === 'questions' ? questions : answers
+  const suspended = isSuspended(profile)
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      {/* Profile Header */}
+      <div className="bg-dark-card border border-dark-border rounded-lg p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            {profile.avatar_url ? (
+              <img
+                src={profile.avatar_url}
+                alt={profile.username}
+                className="w-20 h-20 rounded-full"
+              />
+            ) : (
+              <div className="w-20 h-20 bg-primary rounded-full flex items-center justify-center">
+                <span className="text-3xl font-medium text-white">
+                  {profile.username.charAt(0).toUpperCase()}
+                </span>
+              </div>
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-white">{profile.username}</h1>
+              <p className="flex items-center space-x-1 text-sm text-dark-muted mt-1">
+                <Calendar className="h-4 w-4" />
+                <span>Member since {format(new Date(profile.created_at), 'MMMM yyyy')}</span>
+              </p>
+              {suspended && (
+                <p className="flex items-center space-x-1 text-sm text-red-400 mt-1">
+                  <Ban className="h-4 w-4" />
+                  <span>Suspended until {format(new Date(profile.suspended_until!), 'MMM d, yyyy')}</span>
+                </p>
+              )}
+              {profile.shadow_ban && (
+                <p
+                  className="flex items-center space-x-1 text-sm text-yellow-400 mt-1"
+                  title={profile.shadow_ban.reason || undefined}
+                >
+                  <EyeOff className="h-4 w-4" />
+                  <span>Shadow-banned until {format(new Date(profile.shadow_ban.expires_at), 'MMM d, yyyy')}</span>
+                </p>
+              )}
+            </div>
+          </div>
+
+          {isOwnProfile && (
+            <Link
+              href="/profile"
+              className="inline-flex items-center space-x-2 px-4 py-2 border border-dark-border rounded-lg text-dark-text hover:text-white hover:bg-dark-hover transition-colors"
+            >
+              <Pencil className="h-4 w-4" />
+              <span>Edit Profile</span>
+            </Link>
+          )}
+
+          {canModerate && !isOwnProfile && profile.role === 'user' && (
+            <SuspendUserButton
+              userId={profile.id}
+              username={profile.username}
+              isRestricted={suspended || !!profile.shadow_ban}
+              onChange={refreshProfile}
+            />
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-3 gap-4 mt-6">
+          <ProfileStat label="reputation" value={formatReputation(profile.reputation)} title={profile.reputation.toLocaleString()} />
+          <ProfileStat label="questions" value={profile.question_count.toLocaleString()} />
+          <ProfileStat label="answers" value={profile.answer_count.toLocaleString()} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Top Tags */}
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Top Tags</h2>
+          {profile.top_tags.length === 0 ? (
+            <p className="text-sm text-dark-muted">No tags yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {profile.top_tags.map(tag => (
+                <li key={tag.tag} className="flex items-center justify-between">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-tag-bg text-tag-text">
+                    {tag.tag}
+                  </span>
+                  <span className="text-sm text-dark-muted">
+                    score {tag.score} · {tag.post_count} {tag.post_count === 1 ? 'post' : 'posts'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Badges */}
+        <div className="bg-dark-card border border-dark-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Badges</h2>
+          <BadgeList badges={badges} />
+        </div>
+      </div>
+
+      {/* Posts */}
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex space-x-2">
+            {(['questions', 'answers'] as ProfileTab[]).map(option => (
+              <button
+                key={option}
+                onClick={() => updateParams({ tab: option })}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  tab === option ? 'bg-primary text-white' : 'text-dark-text hover:bg-dark-hover'
+                }`}
+              >
+                {option === 'questions' ? 'Questions' : 'Answers'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => updateParams({ sort: e.target.value as UserPostSort })}
+            className="bg-dark-card border border-dark-border text-dark-text text-sm rounded-lg px-3 py-2"
+          >
+            <option value="votes">Highest score</option>
+            <option value="newest">Newest</option>
+          </select>
+        </div>
+
+        {isLoadingPosts || !list ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <QuestionCardSkeleton key={index} />
+            ))}
+          </div>
+        ) : list.data.length === 0 ? (
+          <p className="bg-dark-card border border-dark-border rounded-lg p-6 text-dark-muted">
+            {profile.username} has not {tab === 'questions' ? 'asked any questions' : 'answered any questions'} yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {tab === 'questions'
+              ? questions?.data.map(question => <QuestionCard key={question.id} question={question} />)
+              : answers?.data.map(answer => <AnswerRow key={answer.id} answer={answer} />)}
+          </div>
+        )}
+
+        {list && list.total_pages > 1 && (
+          <div className="mt-6">
+            <Pagination
+              currentPage={page}
+              totalPages={list.total_pages}
+              onPageChange={(newPage) => updateParams({ page: newPage })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * One number in the profile header
+ */
+function ProfileStat({ label, value, title }: { label: string; value: string; title?: string }) {
+  return (
+    <div className="text-center bg-dark-bg rounded-lg py-3" title={title}>
+      <div className="text-xl font-bold text-white">{value}</div>
+      <div className="text-xs uppercase tracking-wide text-dark-muted">{label}</div>
+    </div>
+  )
+}
+
+/**
+ * A user's answer with its score, accepted mark and the question it answers
+ */
+function AnswerRow({ answer }: { answer: AnswerWithQuestion }) {
+  return (
+    <Link
+      href={questionPath(answer.question)}
+      className="flex items-center space-x-4 bg-dark-card border border-dark-border rounded-lg p-4 hover:border-dark-hover transition-colors"
+    >
+      <span
+        className={`min-w-[3rem] text-center px-2 py-1 rounded text-sm font-semibold ${
+          answer.is_accepted ? 'bg-success text-white' : 'bg-dark-accent text-dark-text'
+        }`}
+        title={answer.is_accepted ? 'Accepted answer' : 'Score'}
+      >
+        {answer.votes}
+      </span>
+      <span className="flex-1 min-w-0 text-white truncate">{answer.question.title}</span>
+      {answer.is_accepted && <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />}
+      <span className="text-sm text-dark-muted flex-shrink-0">
+        {formatDistanceToNow(new Date(answer.created_at), { addSuffix: true })}
+      </span>
+    </Link>
+  )
+}
+
+/**
+ * User profile page component - wraps content in a suspense boundary for useSearchParams
+ */
+export default function UserProfilePage({ params }: { params: { username: string } }) {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-dark-bg" />}>
+      <UserProfileContent username={decodeURIComponent(params.username)} />
+    </Suspense>
+  )
+}
@@ -0,0 +1,48 @@
+import { Award } from 'lucide-react'
+import { getBadgeName, getBadgeRule, BADGE_TIER_COLORS } from '@/lib/badges'
+import { UserBadge } from '@/types/database'
+
+/**
+ * BadgeList component for the profile page
+ * Badges earned more than once (e.g. Good Answer) are grouped with a count
+ */
+interface BadgeListProps {
+  badges: UserBadge[]
+}
+
+export default function BadgeList({ badges }: BadgeListProps) {
+  if (badges.length === 0) {
+    return <p className="text-sm text-dark-muted">No badges yet</p>
+  }
+
+  const groups = new Map<string, { badge: UserBadge; count: number }>()
+  badges.forEach(badge => {
+    const key = `${badge.badge_slug}:${badge.tag || ''}`
+    const group = groups.get(key)
+    if (group) {
+      group.count++
+    } else {
+      groups.set(key, { badge, count: 1 })
+    }
+  })
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {Array.from(groups.entries()).map(([key, { badge, count }]) => {
+        const rule = getBadgeRule(badge.badge_slug)
+
+        return (
+          <span
+            key={key}
+            title={rule?.description}
+            className="inline-flex items-center space-x-1 px-2 py-1 bg-dark-bg border border-dark-border rounded-md text-sm text-dark-text"
+          >
+            <Award className={`h-4 w-4 ${rule ? BADGE_TIER_COLORS[rule.tier] : 'text-dark-muted'}`} />
+            <span>{getBadgeName(badge)}</span>
+            {count > 1 && <span className="text-xs text-dark-muted">×{count}</span>}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
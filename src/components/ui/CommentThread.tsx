@@ -0,0 +1,330 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { MessageSquare, Pencil, Trash2, CornerDownRight } from 'lucide-react'
+import { createComment, updateComment, deleteComment } from '@/lib/api'
+import { COMMENT_MAX_LENGTH } from '@/lib/constants'
+import { validateCommentContent } from '@/lib/validation'
+import { CommentWithAuthor } from '@/types/database'
+import FlagButton from '@/components/ui/FlagButton'
+import { logInfo, logError } from '@/lib/client-logger'
+
+/**
+ * CommentThread component for short clarifications under a question or answer
+ * Top-level comments are shown oldest first, each with its replies indented below
+ */
+interface CommentThreadProps {
+  targetType: 'question' | 'answer'
+  targetId: string
+  initialComments: CommentWithAuthor[]
+  currentUserId: string | null
+}
+
+export default function CommentThread({
+  targetType,
+  targetId,
+  initialComments,
+  currentUserId
+}: CommentThreadProps) {
+  const [comments, setComments] = useState<CommentWithAuthor[]>(initialComments)
+  const [isAdding, setIsAdding] = useState(false)
+
+  const topLevelComments = comments.filter(comment => !comment.parent_id)
+  const repliesTo = (commentId: string) => comments.filter(comment => comment.parent_id === commentId)
+
+  /**
+   * Submit a new comment or reply and append it to the thread
+   */
+  const handleCreate = async (content: string, parentId: string | null) => {
+    const created = await createComment(targetType, targetId, { content, parent_id: parentId })
+
+    if (!created) {
+      logError('Comment creation failed - API returned null')
+      return false
+    }
+
+    setComments(prev => [...prev, created])
+    logInfo('Comment added', { commentId: created.id, targetType, targetId })
+    return true
+  }
+
+  /**
+   * Save an edited comment in place
+   */
+  const handleUpdate = async (commentId: string, content: string) => {
+    const updated = await updateComment(commentId, content)
+
+    if (!updated) {
+      logError('Comment update failed - API returned null')
+      return false
+    }
+
+    setComments(prev => prev.map(comment => comment.id === commentId ? updated : comment))
+    return true
+  }
+
+  /**
+   * Remove a comment along with its replies
+   */
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Delete this comment?')) return
+
+    const success = await deleteComment(commentId)
+
+    if (success) {
+      setComments(prev => prev.filter(comment => comment.id !== commentId && comment.parent_id !== commentId))
+      logInfo('Comment deleted', { commentId })
+    }
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-3">
+      {topLevelComments.length > 0 && (
+        <ul className="space-y-2 mb-2">
+          {topLevelComments.map((comment) => (
+            <li key={comment.id}>
+              <CommentItem
+                comment={comment}
+                currentUserId={currentUserId}
+                onUpdate={handleUpdate}
+                onDelete={handleDelete}
+                onReply={(content) => handleCreate(content, comment.id)}
+              />
+              {repliesTo(comment.id).length > 0 && (
+                <ul className="ml-6 mt-2 space-y-2 border-l border-gray-700 pl-3">
+                  {repliesTo(comment.id).map((reply) => (
+                    <li key={reply.id}>
+                      <CommentItem
+                        comment={reply}
+                        currentUserId={currentUserId}
+                        onUpdate={handleUpdate}
+                        onDelete={handleDelete}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {currentUserId && (
+        isAdding ? (
+          <CommentForm
+            submitLabel="Add Comment"
+            onSubmit={async (content) => {
+              const success = await handleCreate(content, null)
+              if (success) setIsAdding(false)
+              return success
+            }}
+            onCancel={() => setIsAdding(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsAdding(true)}
+            className="flex items-center space-x-1 text-xs text-gray-400 hover:text-blue-400 transition-colors"
+          >
+            <MessageSquare className="h-3 w-3" />
+            <span>Add a comment</span>
+          </button>
+        )
+      )}
+    </div>
+  )
+}
+
+/**
+ * A single comment with author actions (edit/delete), a flag action and an optional reply action
+ */
+function CommentItem({
+  comment,
+  currentUserId,
+  onUpdate,
+  onDelete,
+  onReply
+}: {
+  comment: CommentWithAuthor
+  currentUserId: string | null
+  onUpdate: (commentId: string, content: string) => Promise<boolean>
+  onDelete: (commentId: string) => void
+  onReply?: (content: string) => Promise<boolean>
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [isReplying, setIsReplying] = useState(false)
+
+  const isAuthor = currentUserId === comment.author_id
+  const isEdited = comment.updated_at !== comment.created_at
+
+  /**
+   * Format comment date in relative time
+   */
+  const getTimeAgo = (dateString: string) => {
+    try {
+      return formatDistanceToNow(new Date(dateString), { addSuffix: true })
+    } catch {
+      return 'Unknown time'
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <CommentForm
+        initialValue={comment.content}
+        submitLabel="Save"
+        onSubmit={async (content) => {
+          const success = await onUpdate(comment.id, content)
+          if (success) setIsEditing(false)
+          return success
+        }}
+        onCancel={() => setIsEditing(false)}
+      />
+    )
+  }
+
+  return (
+    <div className="text-sm">
+      <p className="text-gray-300 whitespace-pre-wrap break-words">
+        {comment.content}
+        <span className="text-gray-500">
+          {' – '}
+          <span className="text-blue-400">{comment.author.username}</span>
+          {' '}
+          {getTimeAgo(comment.created_at)}
+          {isEdited && ' (edited)'}
+        </span>
+      </p>
+
+      <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+        {onReply && currentUserId && (
+          <button
+            type="button"
+            onClick={() => setIsReplying(!isReplying)}
+            className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+          >
+            <CornerDownRight className="h-3 w-3" />
+            <span>Reply</span>
+          </button>
+        )}
+        {isAuthor && (
+          <>
+            <button
+              type="button"
+              onClick={() => setIsEditing(true)}
+              className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+            >
+              <Pencil className="h-3 w-3" />
+              <span>Edit</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(comment.id)}
+              className="flex items-center space-x-1 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="h-3 w-3" />
+              <span>Delete</span>
+            </button>
+          </>
+        )}
+        <FlagButton
+          targetType="comment"
+          targetId={comment.id}
+          authorId={comment.author_id}
+          currentUserId={currentUserId}
+          compact
+        />
+      </div>
+
+      {isReplying && onReply && (
+        <div className="ml-6 mt-2">
+          <CommentForm
+            submitLabel="Reply"
+            onSubmit={async (content) => {
+              const success = await onReply(content)
+              if (success) setIsReplying(false)
+              return success
+            }}
+            onCancel={() => setIsReplying(false)}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Compact comment form with a live character counter
+ */
+function CommentForm({
+  initialValue = '',
+  submitLabel,
+  onSubmit,
+  onCancel
+}: {
+  initialValue?: string
+  submitLabel: string
+  onSubmit: (content: string) => Promise<boolean>
+  onCancel: () => void
+}) {
+  const [content, setContent] = useState(initialValue)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateCommentContent(content)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSubmitting(true)
+    const success = await onSubmit(content.trim())
+    setIsSubmitting(false)
+
+    if (!success) {
+      setError('Failed to save comment. Please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value)
+          setError('')
+        }}
+        placeholder="Use comments to ask for clarification or suggest improvements"
+        rows={2}
+        maxLength={COMMENT_MAX_LENGTH}
+        className="w-full px-3 py-2 text-sm bg-gray-700 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+        autoFocus
+      />
+      <div className="flex items-center justify-between">
+        <span className={`text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>
+          {error || `${content.trim().length}/${COMMENT_MAX_LENGTH}`}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-xs text-gray-300 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !content.trim()}
+            className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { FileText } from 'lucide-react'
+
+/**
+ * Banner offering back a saved draft when a form opens
+ */
+interface DraftPromptProps {
+  savedAt: string
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+export default function DraftPrompt({ savedAt, onRestore, onDiscard }: DraftPromptProps) {
+  return (
+    <div className="rounded-md bg-gray-700 border border-gray-600 p-4 mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+      <div className="flex items-center text-sm text-gray-300">
+        <FileText className="h-5 w-5 text-blue-400 mr-3 flex-shrink-0" />
+        <span>You have an unsaved draft from {formatDistanceToNow(new Date(savedAt), { addSuffix: true })}.</span>
+      </div>
+      <div className="flex space-x-2 flex-shrink-0">
+        <button
+          type="button"
+          onClick={onRestore}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+        >
+          Restore draft
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-3 py-1 text-sm text-gray-300 hover:text-white transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertCircle } from 'lucide-react'
+import RichTextEditor from '@/components/ui/RichTextEditor'
+import { updateQuestion, updateAnswer } from '@/lib/api'
+import { QUESTION_TITLE_MAX_LENGTH } from '@/lib/constants'
+import { validateQuestionInput, validateAnswerContent, normalizeTag } from '@/lib/validation'
+import { Question, Answer } from '@/types/database'
+import { logInfo, logError } from '@/lib/client-logger'
+
+/**
+ * Inline edit forms for questions and answers on the question detail page
+ * Both reuse RichTextEditor so editing looks the same as writing
+ */
+
+/**
+ * Edit form for a question's title, description and tags
+ */
+export function QuestionEditForm({
+  question,
+  onSaved,
+  onCancel
+}: {
+  question: Question
+  onSaved: (question: Question) => void
+  onCancel: () => void
+}) {
+  const [title, setTitle] = useState(question.title)
+  const [description, setDescription] = useState(question.description)
+  const [tagsInput, setTagsInput] = useState(question.tags.join(', '))
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  /**
+   * Turn the comma separated tag field into a clean tag list
+   */
+  const parseTags = (input: string) =>
+    Array.from(new Set(
+      input.split(',').map(normalizeTag).filter(Boolean)
+    ))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const tags = parseTags(tagsInput)
+
+    const validationError = validateQuestionInput({ title, description, tags })
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+
+    try {
+      logInfo('Saving question edit', { questionId: question.id })
+
+      const updated = await updateQuestion(question.id, {
+        title: title.trim(),
+        description: description.trim(),
+        tags
+      })
+
+      if (!updated) {
+        setError('Failed to save your changes. Please try again.')
+        return
+      }
+
+      onSaved(updated)
+    } catch (error) {
+      setError('An unexpected error occurred')
+      logError('Error saving question edit', error as Error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="edit-title" className="block text-sm font-medium text-white mb-2">
+          Title
+        </label>
+        <input
+          id="edit-title"
+          type="text"
+          value={title}
+          onChange={(e) => {
+            setTitle(e.target.value)
+            setError('')
+          }}
+          maxLength={QUESTION_TITLE_MAX_LENGTH}
+          className="w-full px-4 py-2 bg-gray-700 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white mb-2">
+          Description
+        </label>
+        <RichTextEditor
+          value={description}
+          onChange={(value) => {
+            setDescription(value)
+            setError('')
+          }}
+          minHeight="240px"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="edit-tags" className="block text-sm font-medium text-white mb-2">
+          Tags
+        </label>
+        <input
+          id="edit-tags"
+          type="text"
+          value={tagsInput}
+          onChange={(e) => {
+            setTagsInput(e.target.value)
+            setError('')
+          }}
+          placeholder="Comma separated, e.g. react, nextjs"
+          className="w-full px-4 py-2 bg-gray-700 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      <EditFormFooter error={error} isSaving={isSaving} onCancel={onCancel} />
+    </form>
+  )
+}
+
+/**
+ * Edit form for an answer's content
+ */
+export function AnswerEditForm({
+  answer,
+  onSaved,
+  onCancel
+}: {
+  answer: Answer
+  onSaved: (answer: Answer) => void
+  onCancel: () => void
+}) {
+  const [content, setContent] = useState(answer.content)
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateAnswerContent(content)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+
+    try {
+      logInfo('Saving answer edit', { answerId: answer.id })
+
+      const updated = await updateAnswer(answer.id, { content: content.trim() })
+
+      if (!updated) {
+        setError('Failed to save your changes. Please try again.')
+        return
+      }
+
+      onSaved(updated)
+    } catch (error) {
+      setError('An unexpected error occurred')
+      logError('Error saving answer edit', error as Error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <RichTextEditor
+        value={content}
+        onChange={(value) => {
+          setContent(value)
+          setError('')
+        }}
+        minHeight="200px"
+      />
+
+      <EditFormFooter error={error} isSaving={isSaving} onCancel={onCancel} />
+    </form>
+  )
+}
+
+/**
+ * Shared error message and Save/Cancel buttons
+ */
+function EditFormFooter({
+  error,
+  isSaving,
+  onCancel
+}: {
+  error: string
+  isSaving: boolean
+  onCancel: () => void
+}) {
+  return (
+    <>
+      {error && (
+        <div className="rounded-md bg-red-900 border border-red-700 p-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+            <div className="text-sm text-red-300">
+              {error}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-300 hover:text-white border border-gray-600 rounded-lg font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Edits'}
+        </button>
+      </div>
+    </>
+  )
+}
@@ -2,25 +2,39 @@
 
 import { useState } from 'react'
 import Link from 'next/link'
-import { Search, ChevronDown, Filter, Tags, Clock, MessageCircle } from 'lucide-react'
+import { Search, ChevronDown, Filter, Clock, MessageCircle, Activity, Flame, TrendingUp, HelpCircle, Sparkles } from 'lucide-react'
+import { QuestionSort } from '@/types/database'
 import { logInfo } from '@/lib/client-logger'
 
+/**
+ * Sorts offered in the "More" dropdown (Newest and Unanswered have their own buttons)
+ */
+const MORE_SORTS: { sort: QuestionSort; label: string; icon: typeof Clock }[] = [
+  { sort: 'active', label: 'Recently Active', icon: Activity },
+  { sort: 'hot', label: 'Hot', icon: Flame },
+  { sort: 'votes', label: 'Popular', icon: TrendingUp },
+  { sort: 'no_accepted_answer', label: 'No Accepted Answer', icon: HelpCircle }
+]
+
 /**
  * FilterBar component for StackIt home page
  * Matches the exact mockup layout: Ask New Question, Newest, Unanswered, more, Search
  */
 interface FilterBarProps {
-  onFilterChange: (filter: 'newest' | 'unanswered' | 'popular' | 'all') => void
+  onFilterChange: (filter: QuestionSort) => void
   onSearchChange: (searchTerm: string) => void
-  currentFilter: 'newest' | 'unanswered' | 'popular' | 'all'
+  currentFilter: QuestionSort
   searchTerm: string
+  /** Offer the personalised "For You" feed (signed-in users only) */
+  showForYou?: boolean
 }
 
 export default function FilterBar({
   onFilterChange,
   onSearchChange,
   currentFilter,
-  searchTerm
+  searchTerm,
+  showForYou = false
 }: FilterBarProps) {
   const [isMoreDropdownOpen, setIsMoreDropdownOpen] = useState(false)
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm)
@@ -28,7 +42,7 @@ export default function FilterBar({
   /**
    * Handle filter selection
    */
-  const handleFilterClick = (filter: 'newest' | 'unanswered' | 'popular' | 'all') => {
+  const handleFilterClick = (filter: QuestionSort) => {
     onFilterChange(filter)
     setIsMoreDropdownOpen(false)
     logInfo('Filter changed in filter bar', { filter })
@@ -79,6 +93,21 @@ export default function FilterBar({
 
             {/* Filter Buttons */}
             <div className="flex items-center space-x-2">
+              {/* For You Filter */}
+              {showForYou && (
+                <button
+                  onClick={() => handleFilterClick('for_you')}
+                  className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center space-x-1 ${
+                    currentFilter === 'for_you'
+                      ? 'bg-primary text-white'
+                      : 'bg-dark-bg text-dark-text hover:bg-dark-hover hover:text-white'
+                  }`}
+                >
+                  <Sparkles className="h-4 w-4" />
+                  <span>For You</span>
+                </button>
+              )}
+
               {/* Newest Filter */}
               <button
                 onClick={() => handleFilterClick('newest')}
@@ -122,24 +151,18 @@ export default function FilterBar({
                 {isMoreDropdownOpen && (
                   <div className="absolute top-full left-0 mt-2 w-48 bg-dark-card rounded-lg shadow-dark-lg border border-dark-border z-10">
                     <div className="py-1">
-                      <button
-                        onClick={() => handleFilterClick('popular')}
-                        className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
-                          currentFilter === 'popular' ? 'text-primary' : 'text-dark-text'
-                        }`}
-                      >
-                        <Tags className="h-4 w-4" />
-                        <span>Popular</span>
-                      </button>
-                      <button
-                        onClick={() => handleFilterClick('all')}
-                        className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
-                          currentFilter === 'all' ? 'text-primary' : 'text-dark-text'
-                        }`}
-                      >
-                        <Filter className="h-4 w-4" />
-                        <span>All Questions</span>
-                      </button>
+                      {MORE_SORTS.map(({ sort, label, icon: Icon }) => (
+                        <button
+                          key={sort}
+                          onClick={() => handleFilterClick(sort)}
+                          className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
+                            currentFilter === sort ? 'text-primary' : 'text-dark-text'
+                          }`}
+                        >
+                          <Icon className="h-4 w-4" />
+                          <span>{label}</span>
+                        </button>
+                      ))}
                     </div>
                   </div>
                 )}
@@ -153,6 +176,7 @@ export default function FilterBar({
               <input
                 type="text"
                 placeholder="Search questions..."
+                title="Try [tag], user:name, is:answered or score:>5"
                 value={localSearchTerm}
                 onChange={handleSearchChange}
                 className="w-full md:w-80 px-4 py-2 pl-10 bg-dark-bg text-dark-text rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
@@ -171,6 +195,20 @@ export default function FilterBar({
         {/* Mobile Filter Row */}
         <div className="md:hidden mt-4">
           <div className="flex items-center space-x-2 overflow-x-auto">
+            {showForYou && (
+              <button
+                onClick={() => handleFilterClick('for_you')}
+                className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center space-x-1 whitespace-nowrap ${
+                  currentFilter === 'for_you'
+                    ? 'bg-primary text-white'
+                    : 'bg-dark-bg text-dark-text hover:bg-dark-hover hover:text-white'
+                }`}
+              >
+                <Sparkles className="h-4 w-4" />
+                <span>For You</span>
+              </button>
+            )}
+
             <button
               onClick={() => handleFilterClick('newest')}
               className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center space-x-1 whitespace-nowrap ${
@@ -211,24 +249,18 @@ export default function FilterBar({
               {isMoreDropdownOpen && (
                 <div className="absolute top-full left-0 mt-2 w-48 bg-dark-card rounded-lg shadow-dark-lg border border-dark-border z-10">
                   <div className="py-1">
-                    <button
-                      onClick={() => handleFilterClick('popular')}
-                      className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
-                        currentFilter === 'popular' ? 'text-primary' : 'text-dark-text'
-                      }`}
-                    >
-                      <Tags className="h-4 w-4" />
-                      <span>Popular</span>
-                    </button>
-                    <button
-                      onClick={() => handleFilterClick('all')}
-                      className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
-                        currentFilter === 'all' ? 'text-primary' : 'text-dark-text'
-                      }`}
-                    >
-                      <Filter className="h-4 w-4" />
-                      <span>All Questions</span>
-                    </button>
+                    {MORE_SORTS.map(({ sort, label, icon: Icon }) => (
+                      <button
+                        key={sort}
+                        onClick={() => handleFilterClick(sort)}
+                        className={`w-full text-left px-4 py-2 hover:bg-dark-hover transition-colors flex items-center space-x-2 ${
+                          currentFilter === sort ? 'text-primary' : 'text-dark-text'
+                        }`}
+                      >
+                        <Icon className="h-4 w-4" />
+                        <span>{label}</span>
+                      </button>
+                    ))}
                   </div>
                 </div>
               )}
@@ -251,7 +283,7 @@ export function MobileFilterBar({
 }: FilterBarProps) {
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm)
 
-  const handleFilterClick = (filter: 'newest' | 'unanswered' | 'popular' | 'all') => {
+  const handleFilterClick = (filter: QuestionSort) => {
     onFilterChange(filter)
     logInfo('Mobile filter changed', { filter })
   }
@@ -269,6 +301,7 @@ export function MobileFilterBar({
         <input
           type="text"
           placeholder="Search questions..."
+          title="Try [tag], user:name, is:answered or score:>5"
           value={localSearchTerm}
           onChange={(e) => setLocalSearchTerm(e.target.value)}
           className="w-full px-4 py-2 pl-10 bg-dark-bg text-dark-text rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
@@ -303,9 +336,9 @@ export function MobileFilterBar({
         </button>
 
         <button
-          onClick={() => handleFilterClick('popular')}
+          onClick={() => handleFilterClick('votes')}
           className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center space-x-1 whitespace-nowrap ${
-            currentFilter === 'popular'
+            currentFilter === 'votes'
               ? 'bg-primary text-white'
               : 'bg-dark-bg text-dark-text hover:bg-dark-hover hover:text-white'
           }`}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Flag } from 'lucide-react'
+import { flagPost } from '@/lib/api'
+import { FLAG_NOTE_MAX_LENGTH, FLAG_REASONS } from '@/lib/constants'
+import { validateFlagInput } from '@/lib/validation'
+import { FlagReason, FlagTargetType } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+/**
+ * Flag button for questions, answers and comments
+ * Opens a small form to pick a reason; the post then waits in the moderation queue
+ */
+interface FlagButtonProps {
+  targetType: FlagTargetType
+  targetId: string
+  authorId: string
+  currentUserId: string | null
+  /** Smaller icon and text for comment rows */
+  compact?: boolean
+}
+
+export default function FlagButton({ targetType, targetId, authorId, currentUserId, compact = false }: FlagButtonProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [reason, setReason] = useState<FlagReason>('spam')
+  const [note, setNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isFlagged, setIsFlagged] = useState(false)
+  const [error, setError] = useState('')
+
+  if (!currentUserId || currentUserId === authorId) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateFlagInput({ target_type: targetType, target_id: targetId, reason, note })
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError('')
+
+    const flag = await flagPost({ target_type: targetType, target_id: targetId, reason, note: note.trim() || undefined })
+    if (flag) {
+      setIsFlagged(true)
+      setIsFormOpen(false)
+      logInfo('Post flagged', { targetType, targetId, reason })
+    } else {
+      setError('Failed to flag this post. You may have flagged it already.')
+    }
+
+    setIsSubmitting(false)
+  }
+
+  const iconClass = compact ? 'h-3 w-3' : 'h-4 w-4'
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsFormOpen(!isFormOpen)}
+        disabled={isFlagged}
+        title={isFlagged ? 'Thanks, a moderator will review this post' : undefined}
+        className="flex items-center space-x-1 hover:text-red-400 transition-colors disabled:opacity-50 disabled:hover:text-gray-400 disabled:cursor-not-allowed"
+      >
+        <Flag className={iconClass} />
+        <span>{isFlagged ? 'Flagged' : 'Flag'}</span>
+      </button>
+
+      {isFormOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 mt-2 w-80 z-10 bg-gray-800 border border-gray-600 rounded-lg shadow-lg p-4 space-y-3 text-left"
+        >
+          <p className="text-sm font-medium text-white">Why should a moderator look at this {targetType}?</p>
+          {(Object.keys(FLAG_REASONS) as FlagReason[]).map(option => (
+            <label key={option} className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="radio"
+                name={`flag-reason-${targetId}`}
+                value={option}
+                checked={reason === option}
+                onChange={() => {
+                  setReason(option)
+                  setError('')
+                }}
+              />
+              <span>{FLAG_REASONS[option]}</span>
+            </label>
+          ))}
+
+          <textarea
+            value={note}
+            onChange={(e) => {
+              setNote(e.target.value)
+              setError('')
+            }}
+            maxLength={FLAG_NOTE_MAX_LENGTH}
+            rows={3}
+            placeholder={reason === 'other' ? 'Tell the moderators what is wrong' : 'Anything the moderators should know (optional)'}
+            className="w-full px-3 py-2 bg-gray-700 text-white text-sm border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-1 text-sm text-gray-300 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Flag
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
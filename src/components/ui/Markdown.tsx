@@ -0,0 +1,19 @@
+'use client'
+
+import { useMemo } from 'react'
+import { renderMarkdown } from '@/lib/markdown'
+
+/**
+ * Rendered Markdown for questions, answers and the editor preview
+ * The HTML is sanitized by renderMarkdown; styles live under .markdown-body in globals.css
+ */
+interface MarkdownProps {
+  content: string
+  className?: string
+}
+
+export default function Markdown({ content, className = '' }: MarkdownProps) {
+  const html = useMemo(() => renderMarkdown(content), [content])
+
+  return <div className={`markdown-body ${className}`} dangerouslySetInnerHTML={{ __html: html }} />
+}
@@ -3,9 +3,11 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { Bell, Search, User, Menu, X } from 'lucide-react'
+import { Ban, Search, User, Menu, X } from 'lucide-react'
+import NotificationBell from '@/components/ui/NotificationBell'
 import { supabase } from '@/lib/supabase'
 import { getCurrentUserProfile } from '@/lib/api'
+import { isAdmin, isModerator, isSuspended, suspensionMessage } from '@/lib/permissions'
 import { Profile } from '@/types/database'
 import { logAuth, logInfo } from '@/lib/client-logger'
 
@@ -13,6 +15,7 @@ import { logAuth, logInfo } from '@/lib/client-logger'
  * Navigation bar component for SlackIt Q&A platform
  * Matches the exact mockup design with dark theme
  * Includes responsive mobile menu with hamburger
+ * Suspended users see a banner with the reason and end date as soon as they sign in
  */
 export default function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
@@ -116,6 +119,14 @@ export default function Navbar() {
               <Search className="absolute left-3 top-2.5 h-5 w-5 text-dark-muted" />
             </form>
 
+            {/* Tags Link */}
+            <Link
+              href="/tags"
+              className="text-dark-text hover:text-white font-medium transition-colors"
+            >
+              Tags
+            </Link>
+
             {/* Ask Question Button */}
             <Link
               href="/ask"
@@ -130,11 +141,7 @@ export default function Navbar() {
             ) : user ? (
               <div className="flex items-center space-x-4">
                 {/* Notification Bell */}
-                <button className="relative p-2 text-dark-text hover:text-white transition-colors">
-                  <Bell className="h-5 w-5" />
-                  {/* Notification badge - placeholder for future implementation */}
-                  <span className="absolute -top-1 -right-1 bg-error h-2 w-2 rounded-full"></span>
-                </button>
+                <NotificationBell />
 
                 {/* User Avatar */}
                 <div className="relative group">
@@ -174,6 +181,22 @@ export default function Navbar() {
                       >
                         My Answers
                       </Link>
+                      {isModerator(user.role) && (
+                        <Link
+                          href="/moderation"
+                          className="block px-4 py-2 text-dark-text hover:bg-dark-hover hover:text-white transition-colors"
+                        >
+                          Moderation
+                        </Link>
+                      )}
+                      {isAdmin(user.role) && (
+                        <Link
+                          href="/admin/roles"
+                          className="block px-4 py-2 text-dark-text hover:bg-dark-hover hover:text-white transition-colors"
+                        >
+                          Roles
+                        </Link>
+                      )}
                       <hr className="my-1 border-dark-border" />
                       <button
                         onClick={handleLogout}
@@ -232,6 +255,13 @@ export default function Navbar() {
             </form>
 
             {/* Mobile Navigation Links */}
+            <Link
+              href="/tags"
+              className="block px-3 py-2 text-dark-text hover:text-white transition-colors"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Tags
+            </Link>
             <Link
               href="/ask"
               className="block px-3 py-2 text-white bg-primary hover:bg-primary-hover rounded-lg font-medium transition-colors"
@@ -263,6 +293,24 @@ export default function Navbar() {
                 >
                   My Answers
                 </Link>
+                {isModerator(user.role) && (
+                  <Link
+                    href="/moderation"
+                    className="block px-3 py-2 text-dark-text hover:text-white transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    Moderation
+                  </Link>
+                )}
+                {isAdmin(user.role) && (
+                  <Link
+                    href="/admin/roles"
+                    className="block px-3 py-2 text-dark-text hover:text-white transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    Roles
+                  </Link>
+                )}
                 <button
                   onClick={() => {
                     handleLogout()
@@ -294,6 +342,16 @@ export default function Navbar() {
           </div>
         </div>
       )}
+
+      {/* Suspension Banner */}
+      {user && isSuspended(user) && (
+        <div className="bg-red-900 border-t border-red-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center text-sm text-red-300">
+            <Ban className="h-4 w-4 text-red-400 mr-2 flex-shrink-0" />
+            <span>{suspensionMessage(user)}. You can still read, but not post, vote or comment.</span>
+          </div>
+        </div>
+      )}
     </nav>
   )
 } 
\ No newline at end of file
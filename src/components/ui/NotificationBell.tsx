@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell, MessageCircle, CheckCircle, AtSign, Award, Eye } from 'lucide-react'
+import { getNotifications, markNotificationRead, markAllNotificationsRead } from '@/lib/api'
+import { getBadgeName } from '@/lib/badges'
+import { NotificationWithDetails } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+/**
+ * How often the bell refreshes while the page is open
+ */
+const POLL_INTERVAL_MS = 60000
+
+/**
+ * Build the human-readable message for a notification
+ */
+export const getNotificationMessage = (notification: NotificationWithDetails) => {
+  const actor = notification.actor?.username || 'Someone'
+  const title = notification.question?.title || 'a question'
+
+  switch (notification.type) {
+    case 'new_answer':
+      return `${actor} answered your question "${title}"`
+    case 'answer_accepted':
+      return `${actor} accepted your answer on "${title}"`
+    case 'mention':
+      return `${actor} mentioned you on "${title}"`
+    case 'watched_tag_question':
+      return `${actor} asked "${title}" in a tag you watch`
+    case 'badge_awarded':
+      return notification.badge
+        ? `You earned the "${getBadgeName(notification.badge)}" badge`
+        : 'You earned a badge'
+    default:
+      return `New activity on "${title}"`
+  }
+}
+
+/**
+ * Notification bell with unread badge and dropdown for the Navbar
+ */
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<NotificationWithDetails[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const router = useRouter()
+
+  /**
+   * Load the latest notifications and unread count
+   */
+  const loadNotifications = useCallback(async () => {
+    const result = await getNotifications()
+    setNotifications(result.data)
+    setUnreadCount(result.unread_count)
+  }, [])
+
+  useEffect(() => {
+    loadNotifications()
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadNotifications])
+
+  // Close the dropdown when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  /**
+   * Toggle dropdown, refreshing the list when it opens
+   */
+  const toggleDropdown = () => {
+    if (!isOpen) {
+      loadNotifications()
+    }
+    setIsOpen(!isOpen)
+    logInfo('Notification dropdown toggled', { isOpen: !isOpen })
+  }
+
+  /**
+   * Mark a notification as read and open the related question
+   */
+  const handleNotificationClick = async (notification: NotificationWithDetails) => {
+    if (!notification.is_read) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, is_read: true } : n))
+      setUnreadCount(prev => Math.max(prev - 1, 0))
+      await markNotificationRead(notification.id)
+    }
+
+    setIsOpen(false)
+
+    if (notification.question_id) {
+      router.push(`/questions/${notification.question_id}`)
+    }
+  }
+
+  /**
+   * Mark every notification as read
+   */
+  const handleMarkAllRead = async () => {
+    const success = await markAllNotificationsRead()
+
+    if (success) {
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })))
+      setUnreadCount(0)
+    }
+  }
+
+  /**
+   * Format notification date in relative time
+   */
+  const getTimeAgo = (dateString: string) => {
+    try {
+      return formatDistanceToNow(new Date(dateString), { addSuffix: true })
+    } catch {
+      return 'Unknown time'
+    }
+  }
+
+  const renderIcon = (type: NotificationWithDetails['type']) => {
+    switch (type) {
+      case 'new_answer':
+        return <MessageCircle className="h-4 w-4 text-primary-light" />
+      case 'answer_accepted':
+        return <CheckCircle className="h-4 w-4 text-success" />
+      case 'mention':
+        return <AtSign className="h-4 w-4 text-warning" />
+      case 'badge_awarded':
+        return <Award className="h-4 w-4 text-warning" />
+      case 'watched_tag_question':
+        return <Eye className="h-4 w-4 text-primary-light" />
+    }
+  }
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={toggleDropdown}
+        className="relative p-2 text-dark-text hover:text-white transition-colors"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-error text-white text-[10px] font-bold min-w-[1rem] h-4 px-1 rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-dark-card rounded-lg shadow-dark-lg border border-dark-border z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-dark-border">
+            <span className="text-white font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-primary-light hover:text-white transition-colors"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-dark-muted text-center">
+                You have no notifications yet
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`w-full text-left px-4 py-3 flex items-start space-x-3 hover:bg-dark-hover transition-colors ${
+                    notification.is_read ? '' : 'bg-dark-bg'
+                  }`}
+                >
+                  <span className="mt-0.5">{renderIcon(notification.type)}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className={`block text-sm ${notification.is_read ? 'text-dark-muted' : 'text-dark-text'}`}>
+                      {getNotificationMessage(notification)}
+                    </span>
+                    <span className="block text-xs text-dark-muted mt-1">
+                      {getTimeAgo(notification.created_at)}
+                    </span>
+                  </span>
+                  {!notification.is_read && (
+                    <span className="mt-1.5 h-2 w-2 bg-primary-light rounded-full flex-shrink-0"></span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
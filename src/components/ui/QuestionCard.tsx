@@ -1,6 +1,9 @@
 import Link from 'next/link'
 import { formatDistanceToNow } from 'date-fns'
-import { QuestionWithAuthor } from '@/types/database'
+import { QuestionListItem, TagPreferences } from '@/types/database'
+import ReputationBadge from '@/components/ui/ReputationBadge'
+import { splitHighlights } from '@/lib/search'
+import { questionPath } from '@/lib/urls'
 import { logInfo } from '@/lib/client-logger'
 
 /**
@@ -8,10 +11,14 @@ import { logInfo } from '@/lib/client-logger'
  * Matches the exact mockup design with dark theme and rounded corners
  */
 interface QuestionCardProps {
-  question: QuestionWithAuthor
+  question: QuestionListItem
+  /** Signed-in user's watched/ignored tags - watched tags are highlighted, ignored ones dim the card (question lists already leave them out when the user hides them) */
+  preferences?: TagPreferences | null
 }
 
-export default function QuestionCard({ question }: QuestionCardProps) {
+export default function QuestionCard({ question, preferences }: QuestionCardProps) {
+  const isIgnored = !!preferences && question.tags.some(tag => preferences.ignored_tags.includes(tag))
+
   /**
    * Handle question card click for analytics
    */
@@ -43,15 +50,20 @@ export default function QuestionCard({ question }: QuestionCardProps) {
   }
 
   return (
-    <div className="bg-dark-card rounded-lg p-6 border border-dark-border hover:border-dark-hover transition-all duration-200 animate-fade-in">
+    <div className={`bg-dark-card rounded-lg p-6 border border-dark-border hover:border-dark-hover transition-all duration-200 animate-fade-in ${isIgnored ? 'opacity-50' : ''}`}>
       <Link 
-        href={`/questions/${question.id}`}
+        href={questionPath(question)}
         onClick={handleQuestionClick}
         className="block group"
       >
         {/* Question Title */}
         <h3 className="text-lg font-semibold text-white mb-3 group-hover:text-primary-light transition-colors line-clamp-2">
-          {question.title}
+          {question.title_highlight ? (
+            <Highlighted text={question.title_highlight} />
+          ) : question.title}
+          {question.status !== 'open' && (
+            <span className="ml-2 text-dark-muted font-normal">[{question.status === 'duplicate' ? 'duplicate' : 'closed'}]</span>
+          )}
         </h3>
 
         {/* Tags */}
@@ -59,7 +71,9 @@ export default function QuestionCard({ question }: QuestionCardProps) {
           {question.tags.map((tag, index) => (
             <span
               key={index}
-              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-tag-bg text-tag-text hover:bg-tag-hover transition-colors"
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-tag-bg text-tag-text hover:bg-tag-hover transition-colors ${
+                preferences?.watched_tags.includes(tag) ? 'ring-1 ring-primary' : ''
+              }`}
             >
               {tag}
             </span>
@@ -68,7 +82,9 @@ export default function QuestionCard({ question }: QuestionCardProps) {
 
         {/* Question Description Preview */}
         <p className="text-dark-text text-sm mb-4 line-clamp-3">
-          {truncateDescription(question.description)}
+          {question.snippet ? (
+            <Highlighted text={question.snippet} />
+          ) : truncateDescription(question.description)}
         </p>
 
         {/* Question Meta Information */}
@@ -92,6 +108,7 @@ export default function QuestionCard({ question }: QuestionCardProps) {
               <span className="text-dark-muted text-sm font-medium">
                 {question.author.username}
               </span>
+              <ReputationBadge reputation={question.author.reputation} />
             </div>
 
             {/* Creation Time */}
@@ -118,6 +135,23 @@ export default function QuestionCard({ question }: QuestionCardProps) {
   )
 }
 
+/**
+ * Render search highlights as text with the matched words marked
+ */
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) => segment.isMatch ? (
+        <mark key={index} className="bg-primary/30 text-white rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  )
+}
+
 /**
  * QuestionCard Skeleton for loading states
  */
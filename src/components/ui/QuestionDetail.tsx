@@ -0,0 +1,690 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Mail, MailOpen, Tag, Calendar, User, MessageCircle, AlertCircle, CheckCircle, Pencil, History, Trash2, RotateCcw, Lock } from 'lucide-react'
+import CommentThread from '@/components/ui/CommentThread'
+import { QuestionEditForm, AnswerEditForm } from '@/components/ui/EditPostForm'
+import ReputationBadge from '@/components/ui/ReputationBadge'
+import StatusVoteButton, { QuestionStatusBanner } from '@/components/ui/QuestionStatus'
+import FlagButton from '@/components/ui/FlagButton'
+import Markdown from '@/components/ui/Markdown'
+import DraftPrompt from '@/components/ui/DraftPrompt'
+import { getQuestionWithAnswers, createAnswer, vote, RateLimitError, getCurrentUserProfile, acceptAnswer, unacceptAnswer, deleteQuestion, restoreQuestion, deleteAnswer, restoreAnswer, recordQuestionView } from '@/lib/api'
+import { canDeletePost, canRestorePost, canEditPost, hasPrivilege, privilegeMessage, isQuestionOpen } from '@/lib/permissions'
+import { QuestionWithAnswers, AnswerFormData, VoteFormData, Profile, StatusVoteResponse } from '@/types/database'
+import { useDraft } from '@/lib/use-draft'
+import { logInfo, logError } from '@/lib/client-logger'
+
+type AnswerDraft = {
+  content: string
+}
+
+const isAnswerDraftEmpty = (draft: AnswerDraft) => !draft.content.trim()
+
+/**
+ * Question Detail (Screen 3) for SlackIt Q&A platform
+ * Shows a real question with answers and voting system using mail-like icons
+ * Rendered on the server with the question loaded by the page, then kept up to date
+ * by reloading it after votes, edits and new answers
+ */
+interface QuestionDetailProps {
+  initialQuestion: QuestionWithAnswers
+}
+
+export default function QuestionDetail({ initialQuestion }: QuestionDetailProps) {
+  const questionId = initialQuestion.id
+  const [question, setQuestion] = useState<QuestionWithAnswers>(initialQuestion)
+  const [newAnswer, setNewAnswer] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState('')
+  const [submitSuccess, setSubmitSuccess] = useState('')
+  const [voteError, setVoteError] = useState('')
+  const [currentUser, setCurrentUser] = useState<Profile | null>(null)
+  const [isEditingQuestion, setIsEditingQuestion] = useState(false)
+  const [editingAnswerId, setEditingAnswerId] = useState<string | null>(null)
+
+  // Load the signed-in user so author and moderator actions can be shown
+  useEffect(() => {
+    const loadCurrentUser = async () => {
+      const profile = await getCurrentUserProfile()
+      setCurrentUser(profile)
+    }
+
+    loadCurrentUser()
+  }, [])
+
+  const currentUserId = currentUser?.id || null
+
+  // Autosave the answer being written; signed-in users get it synced to the server
+  const answerDraft = useDraft<AnswerDraft>(
+    `answer:${questionId}`,
+    { content: newAnswer },
+    { isEmpty: isAnswerDraftEmpty, syncToServer: !!currentUser }
+  )
+
+  // Count one view per page load
+  useEffect(() => {
+    if (questionId) {
+      recordQuestionView(questionId)
+    }
+  }, [questionId])
+
+  /**
+   * Handle voting on question or answer - Real database operation
+   */
+  const handleVote = async (targetType: 'question' | 'answer', targetId: string, voteType: 'upvote' | 'downvote') => {
+    setVoteError('')
+
+    try {
+      logInfo('Submitting vote', { targetType, targetId, voteType })
+      
+      const voteData: VoteFormData = {
+        target_id: targetId,
+        target_type: targetType,
+        vote_type: voteType
+      }
+      
+      const success = await vote(voteData)
+      
+      if (success) {
+        logInfo('Vote submitted successfully', voteData)
+        // Refresh question data to show updated votes
+        const updatedQuestion = await getQuestionWithAnswers(questionId)
+        if (updatedQuestion) {
+          setQuestion(updatedQuestion)
+        }
+      } else {
+        logError('Vote submission failed')
+      }
+      
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        setVoteError(error.message)
+        setTimeout(() => setVoteError(''), 5000)
+      }
+      logError('Error submitting vote', error as Error)
+    }
+  }
+
+  /**
+   * Handle a saved edit - reload so revisions, edit markers and comments stay in sync
+   */
+  const handleEditSaved = async () => {
+    setIsEditingQuestion(false)
+    setEditingAnswerId(null)
+    logInfo('Post edit saved', { questionId: questionId })
+
+    const updatedQuestion = await getQuestionWithAnswers(questionId)
+    if (updatedQuestion) {
+      setQuestion(updatedQuestion)
+    }
+  }
+
+  /**
+   * Handle accepting or unaccepting an answer - only the question author sees this action
+   */
+  const handleToggleAccepted = async (answerId: string, isAccepted: boolean) => {
+    try {
+      logInfo('Toggling accepted answer', { answerId, accept: !isAccepted })
+      
+      const updatedAnswer = isAccepted
+        ? await unacceptAnswer(answerId)
+        : await acceptAnswer(answerId)
+      
+      if (!updatedAnswer) {
+        logError('Accepting answer failed - API returned null')
+        return
+      }
+      
+      // Refresh question data so the previously accepted answer is updated too
+      const updatedQuestion = await getQuestionWithAnswers(questionId)
+      if (updatedQuestion) {
+        setQuestion(updatedQuestion)
+      }
+    } catch (error) {
+      logError('Error toggling accepted answer', error as Error)
+    }
+  }
+
+  /**
+   * Handle a close or reopen vote
+   * A status change reloads the question so the banner can link the canonical question
+   */
+  const handleStatusVote = async (result: StatusVoteResponse) => {
+    if (question && result.question.status !== question.status) {
+      const refreshed = await getQuestionWithAnswers(questionId)
+      if (refreshed) {
+        setQuestion(refreshed)
+        return
+      }
+    }
+
+    setQuestion(prev => ({ ...prev, ...result.question, status_votes: result.status_votes }))
+  }
+
+  /**
+   * Handle deleting or restoring the question or one of its answers
+   * Deletes are soft, so authors and moderators can undo them within the restore window
+   */
+  const handleSetDeleted = async (targetType: 'question' | 'answer', targetId: string, deleted: boolean) => {
+    if (deleted && !window.confirm(`Delete this ${targetType}? You can restore it later.`)) {
+      return
+    }
+
+    try {
+      logInfo('Toggling post deletion', { targetType, targetId, deleted })
+
+      const deleteFn = targetType === 'question' ? deleteQuestion : deleteAnswer
+      const restoreFn = targetType === 'question' ? restoreQuestion : restoreAnswer
+      const updated = deleted ? await deleteFn(targetId) : await restoreFn(targetId)
+
+      if (!updated) {
+        logError('Post deletion toggle failed - API returned null')
+        return
+      }
+
+      const updatedQuestion = await getQuestionWithAnswers(questionId)
+      if (updatedQuestion) {
+        setQuestion(updatedQuestion)
+      }
+    } catch (error) {
+      logError('Error toggling post deletion', error as Error)
+    }
+  }
+
+  /**
+   * Handle submitting a new answer - Real database operation
+   */
+  const handleSubmitAnswer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setSubmitError('')
+    setSubmitSuccess('')
+    
+    try {
+      if (!newAnswer.trim()) {
+        setSubmitError('Please enter an answer')
+        return
+      }
+
+      logInfo('Submitting new answer', { 
+        questionId: questionId, 
+        answerLength: newAnswer.trim().length 
+      })
+
+      const answerData: AnswerFormData = {
+        content: newAnswer.trim()
+      }
+
+      const createdAnswer = await createAnswer(questionId, answerData)
+
+      if (!createdAnswer) {
+        setSubmitError('Failed to submit answer. Please try again.')
+        logError('Answer creation failed - API returned null')
+        return
+      }
+
+      // Success
+      setSubmitSuccess('Answer submitted successfully!')
+      setNewAnswer('')
+      answerDraft.clear()
+      logInfo('Answer submitted successfully', { answerId: createdAnswer.id })
+
+      // Refresh question data to show new answer
+      const updatedQuestion = await getQuestionWithAnswers(questionId)
+      if (updatedQuestion) {
+        setQuestion(updatedQuestion)
+      }
+
+      // Clear success message after 3 seconds
+      setTimeout(() => {
+        setSubmitSuccess('')
+      }, 3000)
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+      setSubmitError(errorMessage)
+      logError('Error submitting answer', error as Error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Format date for display
+   */
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const liveAnswerCount = question.answers?.filter(answer => !answer.deleted_at).length || 0
+
+  // Signed-out users can click and get the sign-in error; signed-in users see the requirement
+  const canDownvote = !currentUser || hasPrivilege(currentUser, 'downvote')
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-gray-800 border-b border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center space-x-4">
+            <Link 
+              href="/" 
+              className="flex items-center space-x-2 text-gray-300 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              <span>Back to Questions</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Deleted Banner - only authors and moderators can see a deleted question */}
+        {question.deleted_at && (
+          <div className="bg-red-900 border border-red-700 rounded-lg p-4 mb-6 flex items-center justify-between">
+            <div className="flex items-center text-sm text-red-300">
+              <Trash2 className="h-5 w-5 text-red-400 mr-3" />
+              <span>This question was deleted on {formatDate(question.deleted_at)} and is hidden from other users.</span>
+            </div>
+            {canRestorePost(question, currentUser) && (
+              <button
+                onClick={() => handleSetDeleted('question', question.id, false)}
+                className="flex items-center space-x-1 px-3 py-1 text-sm text-white border border-red-500 rounded-lg hover:bg-red-800 transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Restore</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Vote Rate Limit Message - fixed so it shows whichever post was voted on */}
+        {voteError && (
+          <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-red-900 border border-red-700 rounded-lg p-4 flex items-center text-sm text-red-300 shadow-lg">
+            <AlertCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0" />
+            <span>{voteError}</span>
+          </div>
+        )}
+
+        {/* Closed / Duplicate Banner */}
+        <QuestionStatusBanner question={question} />
+
+        {/* Question */}
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 mb-8">
+          <div className="flex items-start space-x-4">
+            {/* Voting */}
+            <div className="flex flex-col items-center space-y-2">
+              <button
+                onClick={() => handleVote('question', question.id, 'upvote')}
+                className="p-2 rounded transition-colors text-gray-400 hover:text-green-500 hover:bg-gray-700"
+                title="Upvote this question"
+              >
+                <MailOpen className="h-5 w-5" />
+              </button>
+              <span className="text-lg font-semibold">{question.votes}</span>
+              <button
+                onClick={() => handleVote('question', question.id, 'downvote')}
+                disabled={!canDownvote}
+                className="p-2 rounded transition-colors text-gray-400 hover:text-red-500 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-gray-400 disabled:hover:bg-transparent"
+                title={canDownvote ? 'Downvote this question' : privilegeMessage('downvote')}
+              >
+                <Mail className="h-5 w-5" />
+              </button>
+            </div>
+
+            {/* Question Content */}
+            <div className="flex-1">
+              {isEditingQuestion ? (
+                <div className="mb-4">
+                  <QuestionEditForm
+                    question={question}
+                    onSaved={handleEditSaved}
+                    onCancel={() => setIsEditingQuestion(false)}
+                  />
+                </div>
+              ) : (
+                <>
+                  <h1 className="text-2xl font-bold text-white mb-4">{question.title}</h1>
+                  
+                  {/* Tags */}
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {question.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        href={`/tags/${encodeURIComponent(tag)}`}
+                        className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                      >
+                        <Tag className="h-3 w-3 mr-1" />
+                        {tag}
+                      </Link>
+                    ))}
+                  </div>
+
+                  {/* Description */}
+                  <div className="prose prose-invert max-w-none mb-4">
+                    <Markdown content={question.description} className="text-gray-300" />
+                  </div>
+
+                  {/* Why the asker says this isn't a duplicate */}
+                  {question.difference_note && (
+                    <div className="mb-4 border-l-4 border-gray-600 bg-gray-900/50 px-4 py-2 text-sm">
+                      <span className="font-medium text-gray-200">This is different because: </span>
+                      <span className="text-gray-400 whitespace-pre-wrap">{question.difference_note}</span>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* Question Meta */}
+              <div className="flex items-center justify-between text-sm text-gray-400">
+                <div className="flex items-center space-x-4">
+                  <div className="flex items-center space-x-1">
+                    <User className="h-4 w-4" />
+                    <Link href={`/users/${encodeURIComponent(question.author.username)}`} className="hover:text-white transition-colors">{question.author.username}</Link>
+                    <ReputationBadge reputation={question.author.reputation} />
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Calendar className="h-4 w-4" />
+                    <span>{formatDate(question.created_at)}</span>
+                  </div>
+                  {question.edited_at && (
+                    <Link
+                      href={`/questions/${question.id}/revisions`}
+                      className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                      title="View revision history"
+                    >
+                      <History className="h-4 w-4" />
+                      <span>edited {formatDate(question.edited_at)}</span>
+                    </Link>
+                  )}
+                </div>
+                <div className="flex items-center space-x-4">
+                  {canEditPost(question, currentUser) && !isEditingQuestion && (
+                    <button
+                      onClick={() => setIsEditingQuestion(true)}
+                      className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span>Edit</span>
+                    </button>
+                  )}
+                  <StatusVoteButton question={question} viewer={currentUser} onChange={handleStatusVote} />
+                  {!question.deleted_at && (
+                    <FlagButton
+                      targetType="question"
+                      targetId={question.id}
+                      authorId={question.author_id}
+                      currentUserId={currentUserId}
+                    />
+                  )}
+                  {!question.deleted_at && canDeletePost(question, currentUser) && (
+                    <button
+                      onClick={() => handleSetDeleted('question', question.id, true)}
+                      className="flex items-center space-x-1 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span>Delete</span>
+                    </button>
+                  )}
+                  <span>{liveAnswerCount} answers</span>
+                </div>
+              </div>
+
+              {/* Question Comments */}
+              <CommentThread
+                targetType="question"
+                targetId={question.id}
+                initialComments={question.comments || []}
+                currentUserId={currentUserId}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Answers */}
+        <div className="space-y-6 mb-8">
+          <h2 className="text-xl font-semibold text-white">{liveAnswerCount} Answers</h2>
+          
+          {question.answers?.map((answer) => answer.is_tombstone ? (
+            <div key={answer.id} className="bg-gray-800 border border-gray-700 border-dashed rounded-lg p-4 flex items-center text-sm text-gray-400">
+              <Trash2 className="h-4 w-4 mr-2" />
+              <span>
+                This answer was deleted by {answer.deleted_by === answer.author_id ? 'its author' : 'a moderator'}
+                {answer.deleted_at && ` on ${formatDate(answer.deleted_at)}`}
+              </span>
+            </div>
+          ) : (
+            <div
+              key={answer.id}
+              id={`answer-${answer.id}`}
+              className={`bg-gray-800 border rounded-lg p-6 ${answer.deleted_at ? 'border-red-700 opacity-75' : 'border-gray-700'}`}
+            >
+              <div className="flex items-start space-x-4">
+                {/* Voting */}
+                <div className="flex flex-col items-center space-y-2">
+                  <button
+                    onClick={() => handleVote('answer', answer.id, 'upvote')}
+                    className="p-2 rounded transition-colors text-gray-400 hover:text-green-500 hover:bg-gray-700"
+                    title="Upvote this answer"
+                  >
+                    <MailOpen className="h-5 w-5" />
+                  </button>
+                  <span className="text-lg font-semibold">{answer.votes}</span>
+                  <button
+                    onClick={() => handleVote('answer', answer.id, 'downvote')}
+                    disabled={!canDownvote}
+                    className="p-2 rounded transition-colors text-gray-400 hover:text-red-500 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-gray-400 disabled:hover:bg-transparent"
+                    title={canDownvote ? 'Downvote this answer' : privilegeMessage('downvote')}
+                  >
+                    <Mail className="h-5 w-5" />
+                  </button>
+                  {currentUserId === question.author_id ? (
+                    <button
+                      onClick={() => handleToggleAccepted(answer.id, answer.is_accepted)}
+                      className={`mt-2 p-1 rounded-full transition-colors ${
+                        answer.is_accepted
+                          ? 'bg-green-600 text-white hover:bg-green-700'
+                          : 'text-gray-500 hover:text-green-500 hover:bg-gray-700'
+                      }`}
+                      title={answer.is_accepted ? 'Unaccept this answer' : 'Accept this answer'}
+                    >
+                      <CheckCircle className="h-5 w-5" />
+                    </button>
+                  ) : answer.is_accepted && (
+                    <div className="mt-2 p-1 bg-green-600 rounded-full">
+                      <MessageCircle className="h-4 w-4 text-white" />
+                    </div>
+                  )}
+                </div>
+
+                {/* Answer Content */}
+                <div className="flex-1">
+                  {editingAnswerId === answer.id ? (
+                    <div className="mb-4">
+                      <AnswerEditForm
+                        answer={answer}
+                        onSaved={handleEditSaved}
+                        onCancel={() => setEditingAnswerId(null)}
+                      />
+                    </div>
+                  ) : (
+                    <div className="prose prose-invert max-w-none mb-4">
+                      <Markdown content={answer.content} className="text-gray-300" />
+                    </div>
+                  )}
+
+                  {/* Answer Meta */}
+                  <div className="flex items-center justify-between text-sm text-gray-400">
+                    <div className="flex items-center space-x-4">
+                      <div className="flex items-center space-x-1">
+                        <User className="h-4 w-4" />
+                        <Link href={`/users/${encodeURIComponent(answer.author.username)}`} className="hover:text-white transition-colors">{answer.author.username}</Link>
+                        <ReputationBadge reputation={answer.author.reputation} />
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="h-4 w-4" />
+                        <span>{formatDate(answer.created_at)}</span>
+                      </div>
+                      {answer.edited_at && (
+                        <Link
+                          href={`/questions/${question.id}/revisions?answer=${answer.id}`}
+                          className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                          title="View revision history"
+                        >
+                          <History className="h-4 w-4" />
+                          <span>edited {formatDate(answer.edited_at)}</span>
+                        </Link>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      {canEditPost(answer, currentUser) && editingAnswerId !== answer.id && (
+                        <button
+                          onClick={() => setEditingAnswerId(answer.id)}
+                          className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                        >
+                          <Pencil className="h-4 w-4" />
+                          <span>Edit</span>
+                        </button>
+                      )}
+                      {answer.deleted_at ? (
+                        <>
+                          <span className="text-red-400">Deleted {formatDate(answer.deleted_at)}</span>
+                          {canRestorePost(answer, currentUser) && (
+                            <button
+                              onClick={() => handleSetDeleted('answer', answer.id, false)}
+                              className="flex items-center space-x-1 hover:text-blue-400 transition-colors"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                              <span>Restore</span>
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <FlagButton
+                            targetType="answer"
+                            targetId={answer.id}
+                            authorId={answer.author_id}
+                            currentUserId={currentUserId}
+                          />
+                          {canDeletePost(answer, currentUser) && (
+                            <button
+                              onClick={() => handleSetDeleted('answer', answer.id, true)}
+                              className="flex items-center space-x-1 hover:text-red-400 transition-colors"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Delete</span>
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {answer.is_accepted && (
+                        <span className="text-green-500 font-medium">✓ Accepted Answer</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Answer Comments */}
+                  <CommentThread
+                    targetType="answer"
+                    targetId={answer.id}
+                    initialComments={answer.comments || []}
+                    currentUserId={currentUserId}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Answer Form */}
+        {!question.deleted_at && !isQuestionOpen(question) && (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 text-gray-400 flex items-center">
+            <Lock className="h-5 w-5 mr-3" />
+            <span>This question is closed, so it is not accepting new answers.</span>
+          </div>
+        )}
+        {!question.deleted_at && isQuestionOpen(question) && (
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Your Answer</h3>
+            {answerDraft.pendingDraft && (
+              <DraftPrompt
+                savedAt={answerDraft.pendingDraft.saved_at}
+                onRestore={() => {
+                  const content = answerDraft.restore()
+                  if (content) {
+                    setNewAnswer(content.content)
+                  }
+                }}
+                onDiscard={answerDraft.discard}
+              />
+            )}
+            <form onSubmit={handleSubmitAnswer}>
+              <textarea
+                value={newAnswer}
+                onChange={(e) => {
+                  setNewAnswer(e.target.value)
+                  setSubmitError('')
+                  setSubmitSuccess('')
+                }}
+                placeholder="Write your answer here..."
+                rows={6}
+                className="w-full px-4 py-3 bg-gray-700 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+                required
+              />
+
+              {/* Error Message */}
+              {submitError && (
+                <div className="rounded-md bg-red-900 border border-red-700 p-4 mt-4">
+                  <div className="flex items-center">
+                    <AlertCircle className="h-5 w-5 text-red-400 mr-3" />
+                    <div className="text-sm text-red-300">
+                      {submitError}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Success Message */}
+              {submitSuccess && (
+                <div className="rounded-md bg-green-900 border border-green-700 p-4 mt-4">
+                  <div className="flex items-center">
+                    <CheckCircle className="h-5 w-5 text-green-400 mr-3" />
+                    <div className="text-sm text-green-300">
+                      {submitSuccess}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end mt-4">
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !newAnswer.trim()}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      <span>Submitting...</span>
+                    </>
+                  ) : (
+                    <span>Post Your Answer</span>
+                  )}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+} 
\ No newline at end of file
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Lock, Copy, Unlock } from 'lucide-react'
+import { voteToCloseQuestion, voteToReopenQuestion } from '@/lib/api'
+import { canVoteOnStatus, isModerator, isQuestionOpen, privilegeMessage } from '@/lib/permissions'
+import { CLOSE_VOTES_REQUIRED, CLOSE_VOTE_REASONS } from '@/lib/constants'
+import { questionPath } from '@/lib/urls'
+import { CloseVoteReason, Profile, QuestionWithAnswers, StatusVoteResponse } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+const QUESTION_ID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i
+
+/**
+ * Banner for a closed or duplicate question, linking to the canonical question
+ */
+export function QuestionStatusBanner({ question }: { question: QuestionWithAnswers }) {
+  if (isQuestionOpen(question)) return null
+
+  const closedOn = question.closed_at
+    ? new Date(question.closed_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    : null
+
+  return (
+    <div className="bg-yellow-900/40 border border-yellow-700 rounded-lg p-4 mb-6 text-sm text-yellow-100">
+      {question.status === 'duplicate' ? (
+        <div className="flex items-start">
+          <Copy className="h-5 w-5 text-yellow-400 mr-3 flex-shrink-0" />
+          <div>
+            <p>This question already has an answer here:</p>
+            {question.duplicate_question ? (
+              <Link
+                href={questionPath(question.duplicate_question)}
+                className="font-medium text-blue-300 hover:text-blue-200 transition-colors"
+              >
+                {question.duplicate_question.title}
+              </Link>
+            ) : (
+              <p className="text-yellow-300">The original question is no longer available.</p>
+            )}
+            {closedOn && <p className="text-yellow-300 mt-1">Closed as a duplicate on {closedOn}.</p>}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center">
+          <Lock className="h-5 w-5 text-yellow-400 mr-3 flex-shrink-0" />
+          <span>
+            Closed as {question.close_reason ? CLOSE_VOTE_REASONS[question.close_reason] : 'off-topic'}
+            {closedOn && <> on {closedOn}</>}. It is not accepting new answers.
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Close / reopen vote button for the question meta row
+ * Closing opens a small form to pick a reason (or the original question for a duplicate)
+ */
+interface StatusVoteButtonProps {
+  question: QuestionWithAnswers
+  viewer: Profile | null
+  onChange: (result: StatusVoteResponse) => void
+}
+
+export default function StatusVoteButton({ question, viewer, onChange }: StatusVoteButtonProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [reason, setReason] = useState<CloseVoteReason>('duplicate')
+  const [duplicateInput, setDuplicateInput] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  if (!viewer || question.deleted_at) return null
+
+  const isOpen = isQuestionOpen(question)
+  const kind = isOpen ? 'close' : 'reopen'
+  const votes = question.status_votes
+  const count = isOpen ? votes?.close_votes || 0 : votes?.reopen_votes || 0
+  const hasVoted = votes?.user_vote === kind
+  const canVote = canVoteOnStatus(question, viewer)
+  const label = isOpen ? 'Close' : 'Reopen'
+
+  const submit = async (result: Promise<StatusVoteResponse | null>) => {
+    setIsSubmitting(true)
+    setError('')
+
+    const response = await result
+    if (response) {
+      onChange(response)
+      setIsFormOpen(false)
+      logInfo('Status vote cast', { questionId: question.id, kind, status: response.question.status })
+    } else {
+      setError(`Failed to vote to ${kind} this question`)
+    }
+
+    setIsSubmitting(false)
+  }
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    let duplicateOf: string | undefined
+    if (reason === 'duplicate') {
+      // Accept a pasted question link as well as a bare id
+      duplicateOf = QUESTION_ID_PATTERN.exec(duplicateInput)?.[0]
+      if (!duplicateOf) {
+        setError('Paste a link to the original question')
+        return
+      }
+    }
+
+    submit(voteToCloseQuestion(question.id, { reason, duplicate_of: duplicateOf }))
+  }
+
+  const Icon = isOpen ? Lock : Unlock
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? setIsFormOpen(!isFormOpen) : submit(voteToReopenQuestion(question.id)))}
+        disabled={!canVote || hasVoted || isSubmitting}
+        title={!canVote ? privilegeMessage('close_vote') : hasVoted ? `You voted to ${kind} this question` : undefined}
+        className="flex items-center space-x-1 hover:text-yellow-400 transition-colors disabled:opacity-50 disabled:hover:text-gray-400 disabled:cursor-not-allowed"
+      >
+        <Icon className="h-4 w-4" />
+        <span>
+          {label}
+          {count > 0 && ` (${count}/${CLOSE_VOTES_REQUIRED})`}
+        </span>
+      </button>
+
+      {!isOpen && error && (
+        <p className="absolute right-0 mt-1 w-64 text-xs text-red-400">{error}</p>
+      )}
+
+      {isOpen && isFormOpen && (
+        <form
+          onSubmit={handleClose}
+          className="absolute right-0 mt-2 w-80 z-10 bg-gray-800 border border-gray-600 rounded-lg shadow-lg p-4 space-y-3 text-left"
+        >
+          <p className="text-sm font-medium text-white">Why should this question be closed?</p>
+          {(Object.keys(CLOSE_VOTE_REASONS) as CloseVoteReason[]).map(option => (
+            <label key={option} className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="radio"
+                name="close-reason"
+                value={option}
+                checked={reason === option}
+                onChange={() => {
+                  setReason(option)
+                  setError('')
+                }}
+              />
+              <span className="first-letter:uppercase">{CLOSE_VOTE_REASONS[option]}</span>
+            </label>
+          ))}
+
+          {reason === 'duplicate' && (
+            <input
+              type="text"
+              value={duplicateInput}
+              onChange={(e) => {
+                setDuplicateInput(e.target.value)
+                setError('')
+              }}
+              placeholder="Link to the original question"
+              className="w-full px-3 py-2 bg-gray-700 text-white text-sm border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <p className="text-xs text-gray-400">
+            {isModerator(viewer.role)
+              ? 'As a moderator, your vote closes the question straight away.'
+              : `The question closes after ${CLOSE_VOTES_REQUIRED} votes.`}
+          </p>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-1 text-sm text-gray-300 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Vote to close
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+/**
+ * ReputationBadge component shown next to usernames
+ * Large scores are abbreviated the way they are on the profile (1.2k, 15k)
+ */
+interface ReputationBadgeProps {
+  reputation?: number | null
+  className?: string
+}
+
+/**
+ * Abbreviate a reputation score for compact display
+ */
+export const formatReputation = (reputation: number) => {
+  if (reputation < 1000) return reputation.toString()
+  if (reputation < 10000) return `${(reputation / 1000).toFixed(1).replace(/\.0$/, '')}k`
+  return `${Math.round(reputation / 1000)}k`
+}
+
+export default function ReputationBadge({ reputation, className = '' }: ReputationBadgeProps) {
+  if (reputation === undefined || reputation === null) {
+    return null
+  }
+
+  return (
+    <span
+      className={`text-xs font-semibold text-warning ${className}`}
+      title={`${reputation.toLocaleString()} reputation`}
+    >
+      {formatReputation(reputation)}
+    </span>
+  )
+}
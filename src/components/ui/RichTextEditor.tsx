@@ -10,15 +10,21 @@ import {
   List, 
   ListOrdered,
   Quote,
+  Image as ImageIcon,
   Eye,
   Edit
 } from 'lucide-react'
-import { logInfo } from '@/lib/client-logger'
+import { renderMarkdown } from '@/lib/markdown'
+import { uploadAttachment, RateLimitError } from '@/lib/api'
+import { validateAttachment } from '@/lib/validation'
+import { ATTACHMENT_MAX_BYTES, ATTACHMENT_TYPES } from '@/lib/constants'
+import { logInfo, logError } from '@/lib/client-logger'
 
 /**
  * Rich Text Editor Component for SlackIt Q&A platform
  * Provides a clean interface for writing questions and answers
- * Supports basic formatting, markdown, and live preview
+ * Supports basic formatting, markdown, live preview, and images
+ * dropped, pasted or picked from disk, which are uploaded and inserted at the cursor
  */
 
 interface RichTextEditorProps {
@@ -37,7 +43,15 @@ export default function RichTextEditor({
   error
 }: RichTextEditorProps) {
   const [isPreviewMode, setIsPreviewMode] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const [uploadCount, setUploadCount] = useState(0)
+  const [uploadError, setUploadError] = useState('')
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Uploads finish after more typing, so they edit the latest value rather than the one they started with
+  const valueRef = useRef(value)
+  valueRef.current = value
 
   /**
    * Handle formatting actions
@@ -104,6 +118,83 @@ export default function RichTextEditor({
     }, 0)
   }
 
+  /**
+   * Replace the latest value, keeping valueRef in step for uploads that finish together
+   */
+  const updateValue = (newValue: string) => {
+    valueRef.current = newValue
+    onChange(newValue)
+  }
+
+  /**
+   * Upload images and insert them at the cursor as a thumbnail linking to the full image
+   * A placeholder holds each image's place while it uploads
+   */
+  const handleImageFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'))
+    if (images.length === 0) return
+
+    setUploadError('')
+
+    await Promise.all(images.map(async file => {
+      const validationError = validateAttachment({ type: file.type, size: file.size })
+      if (validationError) {
+        setUploadError(`${file.name}: ${validationError}`)
+        return
+      }
+
+      const alt = file.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '') || 'image'
+      const placeholder = `![Uploading ${alt}…]()`
+      const textarea = textareaRef.current
+      const current = valueRef.current
+      const position = textarea ? textarea.selectionEnd : current.length
+      updateValue(current.substring(0, position) + placeholder + current.substring(position))
+
+      setUploadCount(count => count + 1)
+      logInfo('Uploading image', { name: file.name, size: file.size })
+
+      try {
+        const attachment = await uploadAttachment(file)
+
+        if (attachment) {
+          updateValue(valueRef.current.replace(placeholder, `[![${alt}](${attachment.thumbnail_url})](${attachment.url})`))
+        } else {
+          updateValue(valueRef.current.replace(placeholder, ''))
+          setUploadError(`Failed to upload ${file.name}`)
+        }
+      } catch (error) {
+        updateValue(valueRef.current.replace(placeholder, ''))
+        setUploadError(error instanceof RateLimitError ? error.message : `Failed to upload ${file.name}`)
+        logError('Error uploading image', error as Error)
+      } finally {
+        setUploadCount(count => count - 1)
+      }
+    }))
+  }
+
+  /**
+   * Upload images pasted from the clipboard; pasted text is left to the textarea
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.some(file => file.type.startsWith('image/'))) {
+      e.preventDefault()
+      handleImageFiles(files)
+    }
+  }
+
+  /**
+   * Upload images dropped on the textarea
+   */
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setIsDragging(false)
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) {
+      e.preventDefault()
+      handleImageFiles(files)
+    }
+  }
+
   /**
    * Handle keyboard shortcuts
    */
@@ -130,22 +221,6 @@ export default function RichTextEditor({
     }
   }
 
-  /**
-   * Convert markdown to HTML for preview
-   */
-  const markdownToHtml = (text: string) => {
-    return text
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`([^`]+)`/g, '<code class="bg-dark-hover text-primary px-1 rounded">$1</code>')
-      .replace(/```([\s\S]*?)```/g, '<pre class="bg-dark-hover p-3 rounded-lg overflow-x-auto"><code>$1</code></pre>')
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" class="text-primary hover:underline">$1</a>')
-      .replace(/^- (.*$)/gm, '<li class="ml-4">$1</li>')
-      .replace(/^(\d+)\. (.*$)/gm, '<li class="ml-4">$1. $2</li>')
-      .replace(/^> (.*$)/gm, '<blockquote class="border-l-4 border-primary pl-4 italic text-dark-muted">$1</blockquote>')
-      .replace(/\n/g, '<br>')
-  }
-
   return (
     <div className="w-full">
       {/* Toolbar */}
@@ -192,6 +267,26 @@ export default function RichTextEditor({
           >
             <Link className="h-4 w-4" />
           </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isPreviewMode}
+            className="p-2 text-dark-text hover:text-white hover:bg-dark-hover rounded transition-colors disabled:opacity-50"
+            title="Image (or drop or paste one)"
+          >
+            <ImageIcon className="h-4 w-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleImageFiles(Array.from(e.target.files || []))
+              e.target.value = ''
+            }}
+          />
           <div className="w-px h-6 bg-dark-border"></div>
           <button
             type="button"
@@ -238,9 +333,9 @@ export default function RichTextEditor({
       <div className="relative">
         {isPreviewMode ? (
           <div 
-            className={`w-full p-4 bg-dark-bg border-x border-b border-dark-border rounded-b-lg text-dark-text prose prose-invert max-w-none`}
+            className={`markdown-body w-full p-4 bg-dark-bg border-x border-b border-dark-border rounded-b-lg text-dark-text`}
             style={{ minHeight }}
-            dangerouslySetInnerHTML={{ __html: markdownToHtml(value) || '<p class="text-dark-muted italic">Nothing to preview</p>' }}
+            dangerouslySetInnerHTML={{ __html: value.trim() ? renderMarkdown(value) : '<p class="text-dark-muted italic">Nothing to preview</p>' }}
           />
         ) : (
           <textarea
@@ -248,15 +343,30 @@ export default function RichTextEditor({
             value={value}
             onChange={(e) => onChange(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
             placeholder={placeholder}
             className={`w-full p-4 bg-dark-bg border-x border-b border-dark-border rounded-b-lg text-dark-text placeholder-dark-muted resize-none focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${
               error ? 'border-error' : ''
-            }`}
+            } ${isDragging ? 'ring-2 ring-primary' : ''}`}
             style={{ minHeight }}
           />
         )}
       </div>
 
+      {/* Upload Status */}
+      {uploadCount > 0 && (
+        <p className="mt-2 text-sm text-dark-muted">Uploading {uploadCount === 1 ? 'image' : `${uploadCount} images`}…</p>
+      )}
+      {uploadError && (
+        <p className="mt-2 text-sm text-error">{uploadError}</p>
+      )}
+
       {/* Error Message */}
       {error && (
         <p className="mt-2 text-sm text-error">{error}</p>
@@ -268,7 +378,11 @@ export default function RichTextEditor({
           <strong>Formatting shortcuts:</strong> Ctrl+B (bold), Ctrl+I (italic), Ctrl+K (link), Ctrl+` (code)
         </p>
         <p>
-          <strong>Markdown supported:</strong> **bold**, *italic*, `code`, [link](url), &gt; quote, - list
+          <strong>Markdown supported:</strong> **bold**, *italic*, `code`, [link](url), &gt; quote, - list, # heading,
+          ```lang code blocks, tables, - [ ] task lists
+        </p>
+        <p>
+          <strong>Images:</strong> drop or paste PNG, JPEG, GIF or WebP images into the editor, up to {ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB each
         </p>
       </div>
     </div>
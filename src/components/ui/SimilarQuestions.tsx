@@ -0,0 +1,111 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { CheckCircle, Copy } from 'lucide-react'
+import { getSimilarQuestions } from '@/lib/api'
+import { questionPath } from '@/lib/urls'
+import { DUPLICATE_SIMILARITY_THRESHOLD, SIMILAR_QUESTIONS_MIN_TITLE_LENGTH } from '@/lib/constants'
+import { SimilarQuestion } from '@/types/database'
+
+/**
+ * How long to wait after the last keystroke before looking for similar questions
+ */
+const SIMILAR_DELAY_MS = 400
+
+/**
+ * Similar questions panel for the Ask page, shown under the title field
+ * Reports its matches to the page so a near-duplicate can ask for a difference note
+ */
+interface SimilarQuestionsProps {
+  title: string
+  tags: string[]
+  /** Should keep its identity between renders (a state setter works) */
+  onChange: (questions: SimilarQuestion[]) => void
+}
+
+export default function SimilarQuestions({ title, tags, onChange }: SimilarQuestionsProps) {
+  const [questions, setQuestions] = useState<SimilarQuestion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const query = title.trim()
+  const tagKey = tags.join(',')
+
+  // Look up matches once typing pauses; stale responses are ignored
+  useEffect(() => {
+    if (query.length < SIMILAR_QUESTIONS_MIN_TITLE_LENGTH) {
+      setQuestions([])
+      setIsLoading(false)
+      onChange([])
+      return
+    }
+
+    let isCurrent = true
+    const timeout = setTimeout(async () => {
+      setIsLoading(true)
+      const results = await getSimilarQuestions(query, tagKey ? tagKey.split(',') : [])
+      if (isCurrent) {
+        setQuestions(results)
+        onChange(results)
+        setIsLoading(false)
+      }
+    }, SIMILAR_DELAY_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeout)
+    }
+  }, [query, tagKey, onChange])
+
+  if (questions.length === 0) {
+    return isLoading ? (
+      <p className="text-sm text-gray-400 mt-3">Looking for similar questions...</p>
+    ) : null
+  }
+
+  return (
+    <div className="mt-3 bg-gray-800 border border-gray-700 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-white mb-1 flex items-center space-x-2">
+        <Copy className="h-4 w-4" />
+        <span>Similar questions</span>
+      </h3>
+      <p className="text-sm text-gray-400 mb-3">
+        One of these may already answer your question.
+      </p>
+      <ul className="space-y-2">
+        {questions.map(question => (
+          <li key={question.id} className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <Link
+                href={questionPath(question)}
+                target="_blank"
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                {question.title}
+              </Link>
+              {question.similarity >= DUPLICATE_SIMILARITY_THRESHOLD && (
+                <span className="ml-2 text-xs text-yellow-300">Very close match</span>
+              )}
+              {question.shared_tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {question.shared_tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-700 text-gray-300">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center space-x-3 text-xs text-gray-400 flex-shrink-0">
+              <span>{question.votes} votes</span>
+              <span className={`flex items-center space-x-1 ${question.has_accepted_answer ? 'text-green-400' : ''}`}>
+                {question.has_accepted_answer && <CheckCircle className="h-3 w-3" />}
+                <span>{question.answer_count} answers</span>
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
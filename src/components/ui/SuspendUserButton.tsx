@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { Ban } from 'lucide-react'
+import { liftSuspension, suspendUser } from '@/lib/api'
+import { SUSPENSION_DAYS, SUSPENSION_REASON_MAX_LENGTH } from '@/lib/constants'
+import { validateSuspensionInput } from '@/lib/validation'
+import { SuspensionMode } from '@/types/database'
+import { logInfo } from '@/lib/client-logger'
+
+const MODE_OPTIONS: { mode: SuspensionMode; label: string; hint: string }[] = [
+  { mode: 'suspend', label: 'Suspend', hint: 'Cannot post, vote or comment, and is told why' },
+  { mode: 'shadow', label: 'Shadow-ban', hint: 'Can keep posting, but new posts are only visible to them and moderators' }
+]
+
+/**
+ * Moderator control on a user's profile to suspend or shadow-ban them, or lift it
+ */
+interface SuspendUserButtonProps {
+  userId: string
+  username: string
+  /** The user is suspended or shadow-banned right now */
+  isRestricted: boolean
+  onChange: () => void
+}
+
+export default function SuspendUserButton({ userId, username, isRestricted, onChange }: SuspendUserButtonProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [mode, setMode] = useState<SuspensionMode>('suspend')
+  const [days, setDays] = useState<number>(SUSPENSION_DAYS[0])
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateSuspensionInput({ mode, days, reason })
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError('')
+
+    const updated = await suspendUser(userId, { mode, days, reason: reason.trim() })
+    if (updated) {
+      setIsFormOpen(false)
+      setReason('')
+      logInfo('User suspended', { userId, mode, days })
+      onChange()
+    } else {
+      setError(`Failed to ${mode === 'suspend' ? 'suspend' : 'shadow-ban'} ${username}`)
+    }
+
+    setIsSubmitting(false)
+  }
+
+  const handleLift = async () => {
+    setIsSubmitting(true)
+    setError('')
+
+    const updated = await liftSuspension(userId)
+    if (updated) {
+      logInfo('Suspension lifted', { userId })
+      onChange()
+    } else {
+      setError(`Failed to lift the suspension of ${username}`)
+    }
+
+    setIsSubmitting(false)
+  }
+
+  if (isRestricted) {
+    return (
+      <div className="text-right">
+        <button
+          type="button"
+          onClick={handleLift}
+          disabled={isSubmitting}
+          className="inline-flex items-center space-x-2 px-4 py-2 border border-dark-border rounded-lg text-dark-text hover:text-white hover:bg-dark-hover transition-colors disabled:opacity-50"
+        >
+          <Ban className="h-4 w-4" />
+          <span>Lift suspension</span>
+        </button>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsFormOpen(!isFormOpen)}
+        className="inline-flex items-center space-x-2 px-4 py-2 border border-dark-border rounded-lg text-dark-text hover:text-red-400 hover:bg-dark-hover transition-colors"
+      >
+        <Ban className="h-4 w-4" />
+        <span>Suspend</span>
+      </button>
+
+      {isFormOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 mt-2 w-80 z-10 bg-dark-card border border-dark-border rounded-lg shadow-lg p-4 space-y-3 text-left"
+        >
+          {MODE_OPTIONS.map(option => (
+            <label key={option.mode} className="flex items-start space-x-2 text-sm text-dark-text">
+              <input
+                type="radio"
+                name="suspension-mode"
+                value={option.mode}
+                checked={mode === option.mode}
+                onChange={() => setMode(option.mode)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-white">{option.label}</span>
+                <span className="block text-xs text-dark-muted">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="w-full px-3 py-2 bg-dark-bg text-dark-text text-sm rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {SUSPENSION_DAYS.map(option => (
+              <option key={option} value={option}>
+                {option === 1 ? '1 day' : `${option} days`}
+              </option>
+            ))}
+          </select>
+
+          <textarea
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value)
+              setError('')
+            }}
+            maxLength={SUSPENSION_REASON_MAX_LENGTH}
+            rows={3}
+            placeholder={mode === 'suspend' ? `Why is ${username} suspended? They will see this.` : 'Why? Only moderators see this.'}
+            className="w-full px-3 py-2 bg-dark-bg text-dark-text text-sm rounded-lg border border-dark-border focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-1 text-sm text-dark-text hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {mode === 'suspend' ? 'Suspend' : 'Shadow-ban'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
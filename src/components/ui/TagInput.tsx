@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Tag, X, AlertTriangle } from 'lucide-react'
+import { suggestTags } from '@/lib/api'
+import { normalizeTag, validateTag } from '@/lib/validation'
+import { TAG_MAX_COUNT, TAG_MAX_LENGTH } from '@/lib/constants'
+import { TagSuggestion } from '@/types/database'
+
+/**
+ * How long to wait after the last keystroke before asking for suggestions
+ */
+const SUGGEST_DELAY_MS = 200
+
+/**
+ * TagInput combobox for the Ask page
+ * Suggests existing tags as you type, turns synonyms into their main tag and
+ * warns before a brand new tag is created
+ */
+interface TagInputProps {
+  tags: string[]
+  onChange: (tags: string[]) => void
+}
+
+export default function TagInput({ tags, onChange }: TagInputProps) {
+  const [input, setInput] = useState('')
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([])
+  const [highlighted, setHighlighted] = useState(-1)
+  const [isOpen, setIsOpen] = useState(false)
+  const [newTags, setNewTags] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const query = normalizeTag(input)
+  const isFull = tags.length >= TAG_MAX_COUNT
+
+  // Fetch suggestions once typing pauses; stale responses are ignored
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([])
+      return
+    }
+
+    let isCurrent = true
+    const timeout = setTimeout(async () => {
+      const results = await suggestTags(query)
+      if (isCurrent) {
+        setSuggestions(results.filter(suggestion => !tags.includes(suggestion.name)))
+        setHighlighted(-1)
+      }
+    }, SUGGEST_DELAY_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeout)
+    }
+  }, [query, tags])
+
+  /**
+   * Add a tag, resolving synonyms and remembering whether it already existed
+   */
+  const addTag = async (raw: string) => {
+    const name = normalizeTag(raw)
+    if (!name || isFull) return
+
+    const validationError = validateTag(name)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    let match = suggestions.find(suggestion => suggestion.name === name || suggestion.matched_synonym === name)
+    if (!match) {
+      match = (await suggestTags(name)).find(suggestion => suggestion.name === name || suggestion.matched_synonym === name)
+    }
+
+    const tag = match?.name || name
+
+    if (!tags.includes(tag)) {
+      onChange([...tags, tag])
+      if (!match) {
+        setNewTags(prev => [...prev, tag])
+      }
+    }
+
+    setInput('')
+    setSuggestions([])
+    setIsOpen(false)
+    setError('')
+    inputRef.current?.focus()
+  }
+
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter(tag => tag !== tagToRemove))
+    setNewTags(prev => prev.filter(tag => tag !== tagToRemove))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setIsOpen(true)
+      setHighlighted(prev => (prev + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(isOpen && highlighted >= 0 ? suggestions[highlighted].name : input)
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1])
+    }
+  }
+
+  const visibleNewTags = newTags.filter(tag => tags.includes(tag))
+
+  return (
+    <div>
+      {/* Current Tags */}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-blue-600 text-white"
+            >
+              <Tag className="h-3 w-3 mr-1" />
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="ml-2 hover:text-blue-200"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Tag Combobox */}
+      <div className="relative">
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded={isOpen && suggestions.length > 0}
+          aria-controls="tag-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={highlighted >= 0 ? `tag-suggestion-${highlighted}` : undefined}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setIsOpen(true)
+            setError('')
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          // Delay closing so a click on a suggestion still lands
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          placeholder={isFull ? `Up to ${TAG_MAX_COUNT} tags` : 'Start typing to find a tag (e.g., javascript, react, python)'}
+          className="w-full px-4 py-2 bg-gray-800 text-white border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          maxLength={TAG_MAX_LENGTH}
+          disabled={isFull}
+        />
+
+        {isOpen && suggestions.length > 0 && (
+          <ul
+            id="tag-suggestions"
+            role="listbox"
+            className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg shadow-lg overflow-hidden"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.name}
+                id={`tag-suggestion-${index}`}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  addTag(suggestion.name)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`px-4 py-2 cursor-pointer ${index === highlighted ? 'bg-gray-700' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white">
+                    {suggestion.name}
+                    {suggestion.matched_synonym && (
+                      <span className="ml-2 text-xs text-gray-400">(synonym: {suggestion.matched_synonym})</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-400">× {suggestion.usage_count.toLocaleString()}</span>
+                </div>
+                {suggestion.excerpt && (
+                  <p className="text-xs text-gray-400 mt-0.5 line-clamp-1">{suggestion.excerpt}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-400 mt-2">{error}</p>
+      )}
+
+      {visibleNewTags.length > 0 && (
+        <div className="flex items-start space-x-2 text-sm text-yellow-300 mt-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {visibleNewTags.join(', ')} {visibleNewTags.length === 1 ? 'is a new tag' : 'are new tags'}.
+            Check that no existing tag fits before creating one.
+          </span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-400 mt-2">
+        Add up to {TAG_MAX_COUNT} tags to describe what your question is about ({tags.length}/{TAG_MAX_COUNT})
+      </p>
+    </div>
+  )
+}
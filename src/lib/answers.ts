@@ -0,0 +1,37 @@
+import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { requireRole } from '@/lib/auth'
+import { Answer } from '@/types/database'
+
+/**
+ * Server-only answer helpers for SlackIt Q&A platform
+ */
+
+/**
+ * Accept or unaccept an answer through the set_answer_accepted database function
+ * The function runs as the signed-in user, so the "question author only" rule
+ * and the single accepted answer are enforced inside one transaction
+ */
+export const setAnswerAccepted = async (
+  answerId: string,
+  accepted: boolean
+): Promise<{ answer: Answer | null; error: string | null; status: number }> => {
+  const { profile, error: authError, status: authStatus } = await requireRole('user')
+
+  if (!profile) {
+    return { answer: null, error: authError, status: authStatus }
+  }
+
+  const supabase = await createSupabaseServerClient()
+  const { data: answer, error } = await supabase.rpc('set_answer_accepted', {
+    p_answer_id: answerId,
+    p_accepted: accepted
+  })
+
+  if (error) {
+    // Map the SQLSTATE codes raised by set_answer_accepted
+    const status = error.code === 'P0002' ? 404 : error.code === '42501' ? 403 : 500
+    return { answer: null, error: error.message, status }
+  }
+
+  return { answer, error: null, status: 200 }
+}
@@ -2,14 +2,44 @@ import { supabase } from '@/lib/supabase'
 import { 
   Question, 
   Answer, 
+  Attachment,
+  Draft,
   Vote, 
   Profile,
+  Flag,
+  FlagFormData,
+  FlagStatus,
+  FlagWithDetails,
+  ModerationLogEntryWithModerator,
+  CommentWithAuthor,
   QuestionWithAuthor,
   QuestionWithAnswers,
+  QuestionListItem,
+  QuestionSort,
   QuestionFormData,
   AnswerFormData,
+  CommentFormData,
   VoteFormData,
-  PaginatedResponse
+  NotificationListResponse,
+  PostRevisionWithEditor,
+  PaginatedResponse,
+  SearchResult,
+  SimilarQuestion,
+  StatusVoteFormData,
+  StatusVoteResponse,
+  SuspensionFormData,
+  UserBadge,
+  UserProfileSummary,
+  AnswerWithQuestion,
+  ProfileFormData,
+  UserPostSort,
+  Tag,
+  TagSort,
+  TagWithSynonyms,
+  TagSuggestion,
+  TagPreferences,
+  UserRole,
+  UserWithRole
 } from '@/types/database'
 import { logAPI, logError, logAuth } from '@/lib/client-logger'
 
@@ -18,6 +48,38 @@ import { logAPI, logError, logAuth } from '@/lib/client-logger'
  * All functions include comprehensive logging for tracking workflows
  */
 
+/**
+ * Thrown by the write helpers when the server rate limits a request (429)
+ * The message already says how long to wait; retryAfter is the same wait in seconds
+ */
+export class RateLimitError extends Error {
+  retryAfter: number
+
+  constructor(message: string, retryAfter: number) {
+    super(message)
+    this.name = 'RateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Build a RateLimitError from a 429 response, reading the wait from its Retry-After header
+ */
+const toRateLimitError = (response: Response, errorData: { error?: string; retry_after?: number }) => {
+  const retryAfter = Number(response.headers.get('Retry-After')) || errorData.retry_after || 60
+  return new RateLimitError(errorData.error || `Too many requests. Try again in ${retryAfter} seconds.`, retryAfter)
+}
+
+/**
+ * Thrown by updateUserProfile when the username belongs to someone else (the unique index caught it)
+ */
+export class UsernameTakenError extends Error {
+  constructor() {
+    super('That username is already taken')
+    this.name = 'UsernameTakenError'
+  }
+}
+
 // ================================
 // AUTHENTICATION OPERATIONS
 // ================================
@@ -61,9 +123,10 @@ export const getCurrentUserProfile = async (): Promise<Profile | null> => {
 }
 
 /**
- * Update user profile
+ * Update the signed-in user's username and avatar
+ * Reputation and role are maintained by the database and can't be changed here
  */
-export const updateUserProfile = async (profileData: Partial<Profile>): Promise<Profile | null> => {
+export const updateUserProfile = async (profileData: Partial<ProfileFormData>): Promise<Profile | null> => {
   try {
     logAPI('Updating user profile', profileData)
     
@@ -83,93 +146,254 @@ export const updateUserProfile = async (profileData: Partial<Profile>): Promise<
     
     if (error) {
       logError('Error updating user profile', error)
+      if (error.code === '23505') {
+        throw new UsernameTakenError()
+      }
       return null
     }
     
     logAPI('Successfully updated user profile', { username: profile.username })
     return profile
   } catch (error) {
+    if (error instanceof UsernameTakenError) throw error
     logError('Unexpected error in updateUserProfile', error as Error)
     return null
   }
 }
 
+/**
+ * Check whether a username is free, ignoring the signed-in user's own profile
+ */
+export const isUsernameAvailable = async (username: string, currentUserId?: string): Promise<boolean> => {
+  try {
+    let query = supabase
+      .from('profiles')
+      .select('id')
+      .eq('username', username)
+    
+    if (currentUserId) {
+      query = query.neq('id', currentUserId)
+    }
+    
+    const { data, error } = await query.limit(1)
+    
+    if (error) {
+      logError('Error checking username availability', error)
+      return false
+    }
+    
+    return (data || []).length === 0
+  } catch (error) {
+    logError('Unexpected error in isUsernameAvailable', error as Error)
+    return false
+  }
+}
+
+/**
+ * Save the signed-in user's watched and ignored tags
+ */
+export const updateTagPreferences = async (preferences: TagPreferences): Promise<TagPreferences | null> => {
+  try {
+    logAPI('Saving tag preferences via API', {
+      watched: preferences.watched_tags.length,
+      ignored: preferences.ignored_tags.length
+    })
+    
+    const response = await fetch('/api/profile/tags', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(preferences),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error saving tag preferences', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    return await response.json()
+  } catch (error) {
+    logError('Unexpected error in updateTagPreferences', error as Error)
+    return null
+  }
+}
+
 // ================================
-// QUESTION OPERATIONS
+// USER OPERATIONS
 // ================================
 
 /**
- * Fetch all questions with pagination and filtering
+ * Fetch a public profile with post counts and top tags
  */
-export const getQuestions = async (
-  page: number = 1,
-  limit: number = 10,
-  filter: 'newest' | 'unanswered' | 'all' = 'all',
-  searchTerm?: string
-): Promise<PaginatedResponse<QuestionWithAuthor>> => {
+export const getUserProfile = async (username: string): Promise<UserProfileSummary | null> => {
   try {
-    logAPI('Fetching questions', { page, limit, filter, searchTerm })
+    logAPI('Fetching user profile via API', { username })
     
-    let query = supabase
-      .from('questions')
-      .select(`
-        *,
-        author:profiles!author_id(id, username, avatar_url),
-        answers(count)
-      `)
-      .order('created_at', { ascending: false })
+    const response = await fetch(`/api/users/${encodeURIComponent(username)}`)
     
-    // Apply filters
-    if (filter === 'unanswered') {
-      query = query.eq('answers.count', 0)
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching user profile', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
     }
     
-    // Apply search
-    if (searchTerm) {
-      query = query.or(`title.ilike.%${searchTerm}%, description.ilike.%${searchTerm}%`)
+    const profile = await response.json()
+    
+    logAPI('Successfully fetched user profile via API', { username })
+    return profile
+  } catch (error) {
+    logError('Unexpected error in getUserProfile', error as Error)
+    return null
+  }
+}
+
+/**
+ * Fetch one page of a user's questions or answers
+ */
+const getUserPosts = async <T>(
+  username: string,
+  kind: 'questions' | 'answers',
+  page: number,
+  limit: number,
+  sort: UserPostSort
+): Promise<PaginatedResponse<T>> => {
+  const emptyResponse: PaginatedResponse<T> = { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+
+  try {
+    logAPI(`Fetching user ${kind} via API`, { username, page, limit, sort })
+    
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString(), sort })
+    const response = await fetch(`/api/users/${encodeURIComponent(username)}/${kind}?${params}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError(`API error fetching user ${kind}`, new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return emptyResponse
     }
     
-    // Apply pagination
-    const from = (page - 1) * limit
-    const to = from + limit - 1
+    const result = await response.json()
+    
+    logAPI(`Successfully fetched user ${kind} via API`, { username, count: result.count })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getUserPosts', error as Error)
+    return emptyResponse
+  }
+}
+
+/**
+ * Fetch a page of the questions a user has asked
+ */
+export const getUserQuestions = (
+  username: string,
+  page: number = 1,
+  limit: number = 10,
+  sort: UserPostSort = 'votes'
+) => getUserPosts<QuestionWithAuthor>(username, 'questions', page, limit, sort)
+
+/**
+ * Fetch a page of the answers a user has written
+ */
+export const getUserAnswers = (
+  username: string,
+  page: number = 1,
+  limit: number = 10,
+  sort: UserPostSort = 'votes'
+) => getUserPosts<AnswerWithQuestion>(username, 'answers', page, limit, sort)
+
+// ================================
+// QUESTION OPERATIONS
+// ================================
+
+/**
+ * Fetch all questions with pagination and filtering
+ * Searches go through the ranked full-text search API instead
+ */
+export const getQuestions = async (
+  page: number = 1,
+  limit: number = 10,
+  sort: QuestionSort = 'newest',
+  searchTerm?: string,
+  tag?: string
+): Promise<PaginatedResponse<QuestionListItem>> => {
+  if (searchTerm?.trim()) {
+    return searchQuestions(searchTerm, page, limit)
+  }
+
+  try {
+    logAPI('Fetching questions via API', { page, limit, sort, tag })
     
-    const { data: questions, error, count } = await query
-      .range(from, to)
-      .returns<QuestionWithAuthor[]>()
+    const params = new URLSearchParams({ sort, page: page.toString(), limit: limit.toString() })
+    if (tag) {
+      params.set('tag', tag)
+    }
+    const response = await fetch(`/api/questions?${params.toString()}`)
     
-    if (error) {
-      logError('Error fetching questions', error)
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching questions', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
       return { data: [], count: 0, page, per_page: limit, total_pages: 0 }
     }
     
-    // Transform data to include answer count
-    const transformedQuestions = questions?.map(question => ({
-      ...question,
-      answer_count: question.answers?.[0]?.count || 0
-    })) || []
-    
-    const totalPages = Math.ceil((count || 0) / limit)
+    const result: PaginatedResponse<QuestionWithAuthor> = await response.json()
     
     logAPI('Successfully fetched questions', { 
-      count: transformedQuestions.length, 
-      totalCount: count,
+      count: result.data.length, 
+      totalCount: result.count,
       page,
-      totalPages
+      totalPages: result.total_pages
     })
     
-    return {
-      data: transformedQuestions,
-      count: count || 0,
-      page,
-      per_page: limit,
-      total_pages: totalPages
-    }
+    return result
   } catch (error) {
     logError('Unexpected error in getQuestions', error as Error)
     return { data: [], count: 0, page, per_page: limit, total_pages: 0 }
   }
 }
 
+/**
+ * Full-text search over questions and answers, best matches first
+ * Supports [tag], user:name, is:answered, is:unanswered and score:>5 operators
+ */
+export const searchQuestions = async (
+  query: string,
+  page: number = 1,
+  limit: number = 10
+): Promise<PaginatedResponse<SearchResult>> => {
+  try {
+    logAPI('Searching questions via API', { query, page, limit })
+    
+    const params = new URLSearchParams({ q: query, page: page.toString(), limit: limit.toString() })
+    const response = await fetch(`/api/search?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error searching questions', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+    }
+    
+    const results: PaginatedResponse<SearchResult> = await response.json()
+    
+    logAPI('Successfully searched questions via API', { query, count: results.count })
+    return results
+  } catch (error) {
+    logError('Unexpected error in searchQuestions', error as Error)
+    return { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+  }
+}
+
 /**
  * Fetch a single question with its answers
  */
@@ -204,6 +428,7 @@ export const getQuestionWithAnswers = async (questionId: string): Promise<Questi
 
 /**
  * Create a new question
+ * Throws a RateLimitError when the user is asking too quickly
  */
 export const createQuestion = async (questionData: QuestionFormData): Promise<Question | null> => {
   try {
@@ -219,6 +444,9 @@ export const createQuestion = async (questionData: QuestionFormData): Promise<Qu
     
     if (!response.ok) {
       const errorData = await response.json()
+      if (response.status === 429) {
+        throw toRateLimitError(response, errorData)
+      }
       logError('API error creating question', { 
         status: response.status, 
         error: errorData.error || 'Unknown error' 
@@ -231,117 +459,134 @@ export const createQuestion = async (questionData: QuestionFormData): Promise<Qu
     logAPI('Successfully created question via API', { questionId: question.id, title: question.title })
     return question
   } catch (error) {
+    if (error instanceof RateLimitError) throw error
     logError('Unexpected error in createQuestion', error as Error)
     return null
   }
 }
 
-// ================================
-// ANSWER OPERATIONS
-// ================================
+/**
+ * Find existing questions that may duplicate a draft title, best match first
+ */
+export const getSimilarQuestions = async (title: string, tags: string[] = []): Promise<SimilarQuestion[]> => {
+  try {
+    const params = new URLSearchParams({ title, tags: tags.join(',') })
+    const response = await fetch(`/api/questions/similar?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error finding similar questions', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return []
+    }
+    
+    return await response.json()
+  } catch (error) {
+    logError('Unexpected error in getSimilarQuestions', error as Error)
+    return []
+  }
+}
 
 /**
- * Create a new answer
+ * Edit an existing question (only the question author can do this)
  */
-export const createAnswer = async (questionId: string, answerData: AnswerFormData): Promise<Answer | null> => {
+export const updateQuestion = async (questionId: string, questionData: QuestionFormData): Promise<Question | null> => {
   try {
-    logAPI('Creating new answer via API', { questionId, contentLength: answerData.content.length })
+    logAPI('Editing question via API', { questionId, title: questionData.title, tags: questionData.tags })
     
-    const response = await fetch(`/api/questions/${questionId}/answers`, {
-      method: 'POST',
+    const response = await fetch(`/api/questions/${questionId}`, {
+      method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(answerData),
+      body: JSON.stringify(questionData),
     })
     
     if (!response.ok) {
       const errorData = await response.json()
-      logError('API error creating answer', { 
-        status: response.status, 
-        error: errorData.error || 'Unknown error' 
+      logError('API error editing question', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
       })
       return null
     }
     
-    const answer = await response.json()
+    const question = await response.json()
     
-    logAPI('Successfully created answer via API', { answerId: answer.id, questionId })
-    return answer
+    logAPI('Successfully edited question via API', { questionId })
+    return question
   } catch (error) {
-    logError('Unexpected error in createAnswer', error as Error)
+    logError('Unexpected error in updateQuestion', error as Error)
     return null
   }
 }
 
 /**
- * Accept an answer (only question owner can do this)
+ * Soft-delete a question (author or moderator)
  */
-export const acceptAnswer = async (answerId: string): Promise<boolean> => {
+export const deleteQuestion = async (questionId: string): Promise<Question | null> => {
   try {
-    logAPI('Accepting answer', { answerId })
-    
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      logAuth('User not authenticated for answer acceptance')
-      return false
-    }
+    logAPI('Deleting question via API', { questionId })
     
-    // First, check if the user is the question owner
-    const { data: answer, error: answerError } = await supabase
-      .from('answers')
-      .select('question_id, questions!inner(author_id)')
-      .eq('id', answerId)
-      .single()
+    const response = await fetch(`/api/questions/${questionId}`, {
+      method: 'DELETE',
+    })
     
-    if (answerError) {
-      logError('Error fetching answer for acceptance', answerError)
-      return false
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error deleting question', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
     }
     
-    if (answer.questions?.author_id !== user.id) {
-      logAuth('User not authorized to accept this answer')
-      return false
-    }
+    const question = await response.json()
     
-    // Unaccept all other answers for this question
-    await supabase
-      .from('answers')
-      .update({ is_accepted: false })
-      .eq('question_id', answer.question_id)
+    logAPI('Successfully deleted question via API', { questionId })
+    return question
+  } catch (error) {
+    logError('Unexpected error in deleteQuestion', error as Error)
+    return null
+  }
+}
+
+/**
+ * Restore a soft-deleted question within the restore window (author or moderator)
+ */
+export const restoreQuestion = async (questionId: string): Promise<Question | null> => {
+  try {
+    logAPI('Restoring question via API', { questionId })
     
-    // Accept the selected answer
-    const { error: updateError } = await supabase
-      .from('answers')
-      .update({ is_accepted: true })
-      .eq('id', answerId)
+    const response = await fetch(`/api/questions/${questionId}/restore`, {
+      method: 'POST',
+    })
     
-    if (updateError) {
-      logError('Error accepting answer', updateError)
-      return false
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error restoring question', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
     }
     
-    logAPI('Successfully accepted answer', { answerId })
-    return true
+    const question = await response.json()
+    
+    logAPI('Successfully restored question via API', { questionId })
+    return question
   } catch (error) {
-    logError('Unexpected error in acceptAnswer', error as Error)
-    return false
+    logError('Unexpected error in restoreQuestion', error as Error)
+    return null
   }
 }
 
-// ================================
-// VOTING OPERATIONS
-// ================================
-
 /**
- * Vote on a question or answer
+ * Vote to close a question, or to mark it as a duplicate (a moderator's vote closes it at once)
  */
-export const vote = async (voteData: VoteFormData): Promise<boolean> => {
+export const voteToCloseQuestion = async (questionId: string, voteData: StatusVoteFormData): Promise<StatusVoteResponse | null> => {
   try {
-    logAPI('Submitting vote via API', voteData)
+    logAPI('Voting to close question via API', { questionId, reason: voteData.reason })
     
-    const response = await fetch('/api/vote', {
+    const response = await fetch(`/api/questions/${questionId}/close`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -351,95 +596,1138 @@ export const vote = async (voteData: VoteFormData): Promise<boolean> => {
     
     if (!response.ok) {
       const errorData = await response.json()
-      logError('API error submitting vote', { 
-        status: response.status, 
-        error: errorData.error || 'Unknown error' 
+      logError('API error voting to close question', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
       })
-      return false
+      return null
     }
     
     const result = await response.json()
     
-    logAPI('Successfully submitted vote via API', { success: result.success })
-    return result.success
+    logAPI('Successfully voted to close question via API', { questionId, status: result.question.status })
+    return result
   } catch (error) {
-    logError('Unexpected error in vote', error as Error)
-    return false
+    logError('Unexpected error in voteToCloseQuestion', error as Error)
+    return null
   }
 }
 
 /**
- * Get user's vote for a specific target
+ * Vote to reopen a closed or duplicate question (a moderator's vote reopens it at once)
  */
-export const getUserVote = async (targetId: string, targetType: 'question' | 'answer'): Promise<Vote | null> => {
+export const voteToReopenQuestion = async (questionId: string): Promise<StatusVoteResponse | null> => {
   try {
-    logAPI('Fetching user vote', { targetId, targetType })
+    logAPI('Voting to reopen question via API', { questionId })
     
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    const response = await fetch(`/api/questions/${questionId}/reopen`, {
+      method: 'POST',
+    })
     
-    if (authError || !user) {
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error voting to reopen question', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
       return null
     }
     
-    const { data: vote, error } = await supabase
-      .from('votes')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('target_id', targetId)
-      .eq('target_type', targetType)
-      .single()
-    
-    if (error && error.code !== 'PGRST116') {
-      logError('Error fetching user vote', error)
-      return null
-    }
+    const result = await response.json()
     
-    return vote
+    logAPI('Successfully voted to reopen question via API', { questionId, status: result.question.status })
+    return result
   } catch (error) {
-    logError('Unexpected error in getUserVote', error as Error)
+    logError('Unexpected error in voteToReopenQuestion', error as Error)
     return null
   }
 }
 
-// ================================
-// UTILITY FUNCTIONS
-// ================================
-
 /**
- * Get popular tags
+ * Fetch the revision history of a question, or of one of its answers when answerId is given
  */
-export const getPopularTags = async (limit: number = 20): Promise<string[]> => {
+export const getRevisions = async (questionId: string, answerId?: string | null): Promise<PostRevisionWithEditor[]> => {
   try {
-    logAPI('Fetching popular tags', { limit })
+    logAPI('Fetching revisions via API', { questionId, answerId })
     
-    const { data: questions, error } = await supabase
-      .from('questions')
-      .select('tags')
-      .limit(1000) // Get recent questions to analyze tags
+    const query = answerId ? `?answer_id=${encodeURIComponent(answerId)}` : ''
+    const response = await fetch(`/api/questions/${questionId}/revisions${query}`)
     
-    if (error) {
-      logError('Error fetching questions for tags', error)
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching revisions', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
       return []
     }
     
-    // Count tag occurrences
-    const tagCounts: Record<string, number> = {}
-    questions?.forEach(question => {
-      question.tags?.forEach(tag => {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1
+    const revisions = await response.json()
+    
+    logAPI('Successfully fetched revisions via API', { questionId, answerId, count: revisions.length })
+    return revisions
+  } catch (error) {
+    logError('Unexpected error in getRevisions', error as Error)
+    return []
+  }
+}
+
+/**
+ * Count a view of a question (used by the Tumbleweed badge)
+ */
+export const recordQuestionView = async (questionId: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/questions/${questionId}/view`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error recording question view', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return false
+    }
+    
+    return true
+  } catch (error) {
+    logError('Unexpected error in recordQuestionView', error as Error)
+    return false
+  }
+}
+
+// ================================
+// ANSWER OPERATIONS
+// ================================
+
+/**
+ * Create a new answer
+ * Throws a RateLimitError when the user is answering too quickly
+ */
+export const createAnswer = async (questionId: string, answerData: AnswerFormData): Promise<Answer | null> => {
+  try {
+    logAPI('Creating new answer via API', { questionId, contentLength: answerData.content.length })
+    
+    const response = await fetch(`/api/questions/${questionId}/answers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(answerData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      if (response.status === 429) {
+        throw toRateLimitError(response, errorData)
+      }
+      logError('API error creating answer', { 
+        status: response.status, 
+        error: errorData.error || 'Unknown error' 
+      })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully created answer via API', { answerId: answer.id, questionId })
+    return answer
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error
+    logError('Unexpected error in createAnswer', error as Error)
+    return null
+  }
+}
+
+/**
+ * Edit an existing answer (only the answer author can do this)
+ */
+export const updateAnswer = async (answerId: string, answerData: AnswerFormData): Promise<Answer | null> => {
+  try {
+    logAPI('Editing answer via API', { answerId, contentLength: answerData.content.length })
+    
+    const response = await fetch(`/api/answers/${answerId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(answerData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error editing answer', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully edited answer via API', { answerId })
+    return answer
+  } catch (error) {
+    logError('Unexpected error in updateAnswer', error as Error)
+    return null
+  }
+}
+
+/**
+ * Soft-delete an answer (author or moderator)
+ */
+export const deleteAnswer = async (answerId: string): Promise<Answer | null> => {
+  try {
+    logAPI('Deleting answer via API', { answerId })
+    
+    const response = await fetch(`/api/answers/${answerId}`, {
+      method: 'DELETE',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error deleting answer', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully deleted answer via API', { answerId })
+    return answer
+  } catch (error) {
+    logError('Unexpected error in deleteAnswer', error as Error)
+    return null
+  }
+}
+
+/**
+ * Restore a soft-deleted answer within the restore window (author or moderator)
+ */
+export const restoreAnswer = async (answerId: string): Promise<Answer | null> => {
+  try {
+    logAPI('Restoring answer via API', { answerId })
+    
+    const response = await fetch(`/api/answers/${answerId}/restore`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error restoring answer', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully restored answer via API', { answerId })
+    return answer
+  } catch (error) {
+    logError('Unexpected error in restoreAnswer', error as Error)
+    return null
+  }
+}
+
+/**
+ * Accept an answer (only question owner can do this)
+ * Any previously accepted answer on the question is unaccepted in the same transaction
+ */
+export const acceptAnswer = async (answerId: string): Promise<Answer | null> => {
+  try {
+    logAPI('Accepting answer via API', { answerId })
+    
+    const response = await fetch(`/api/answers/${answerId}/accept`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error accepting answer', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
       })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully accepted answer via API', { answerId })
+    return answer
+  } catch (error) {
+    logError('Unexpected error in acceptAnswer', error as Error)
+    return null
+  }
+}
+
+/**
+ * Remove the accepted mark from an answer (only question owner can do this)
+ */
+export const unacceptAnswer = async (answerId: string): Promise<Answer | null> => {
+  try {
+    logAPI('Unaccepting answer via API', { answerId })
+    
+    const response = await fetch(`/api/answers/${answerId}/unaccept`, {
+      method: 'POST',
     })
     
-    // Sort by popularity and return top tags
-    const popularTags = Object.entries(tagCounts)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, limit)
-      .map(([tag]) => tag)
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error unaccepting answer', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const answer = await response.json()
+    
+    logAPI('Successfully unaccepted answer via API', { answerId })
+    return answer
+  } catch (error) {
+    logError('Unexpected error in unacceptAnswer', error as Error)
+    return null
+  }
+}
+
+// ================================
+// COMMENT OPERATIONS
+// ================================
+
+/**
+ * Build the comments endpoint for a question or an answer
+ */
+const commentsEndpoint = (targetType: 'question' | 'answer', targetId: string) =>
+  targetType === 'question'
+    ? `/api/questions/${targetId}/comments`
+    : `/api/answers/${targetId}/comments`
+
+/**
+ * Fetch comments on a question or answer
+ */
+export const getComments = async (
+  targetType: 'question' | 'answer',
+  targetId: string
+): Promise<CommentWithAuthor[]> => {
+  try {
+    logAPI('Fetching comments via API', { targetType, targetId })
+    
+    const response = await fetch(commentsEndpoint(targetType, targetId))
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching comments', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return []
+    }
+    
+    const comments = await response.json()
     
-    logAPI('Successfully fetched popular tags', { count: popularTags.length })
-    return popularTags
+    logAPI('Successfully fetched comments via API', { targetType, targetId, count: comments.length })
+    return comments
   } catch (error) {
-    logError('Unexpected error in getPopularTags', error as Error)
+    logError('Unexpected error in getComments', error as Error)
     return []
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Create a comment (or a reply when parent_id is set) on a question or answer
+ */
+export const createComment = async (
+  targetType: 'question' | 'answer',
+  targetId: string,
+  commentData: CommentFormData
+): Promise<CommentWithAuthor | null> => {
+  try {
+    logAPI('Creating comment via API', { targetType, targetId, isReply: !!commentData.parent_id })
+    
+    const response = await fetch(commentsEndpoint(targetType, targetId), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(commentData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error creating comment', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const comment = await response.json()
+    
+    logAPI('Successfully created comment via API', { commentId: comment.id, targetType, targetId })
+    return comment
+  } catch (error) {
+    logError('Unexpected error in createComment', error as Error)
+    return null
+  }
+}
+
+/**
+ * Edit a comment (only the comment author can do this)
+ */
+export const updateComment = async (commentId: string, content: string): Promise<CommentWithAuthor | null> => {
+  try {
+    logAPI('Updating comment via API', { commentId, contentLength: content.length })
+    
+    const response = await fetch(`/api/comments/${commentId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content }),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error updating comment', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const comment = await response.json()
+    
+    logAPI('Successfully updated comment via API', { commentId })
+    return comment
+  } catch (error) {
+    logError('Unexpected error in updateComment', error as Error)
+    return null
+  }
+}
+
+/**
+ * Delete a comment (only the comment author can do this)
+ */
+export const deleteComment = async (commentId: string): Promise<boolean> => {
+  try {
+    logAPI('Deleting comment via API', { commentId })
+    
+    const response = await fetch(`/api/comments/${commentId}`, {
+      method: 'DELETE',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error deleting comment', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return false
+    }
+    
+    logAPI('Successfully deleted comment via API', { commentId })
+    return true
+  } catch (error) {
+    logError('Unexpected error in deleteComment', error as Error)
+    return false
+  }
+}
+
+// ================================
+// VOTING OPERATIONS
+// ================================
+
+/**
+ * Vote on a question or answer
+ * Throws a RateLimitError when the user is voting too quickly
+ */
+export const vote = async (voteData: VoteFormData): Promise<boolean> => {
+  try {
+    logAPI('Submitting vote via API', voteData)
+    
+    const response = await fetch('/api/vote', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(voteData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      if (response.status === 429) {
+        throw toRateLimitError(response, errorData)
+      }
+      logError('API error submitting vote', { 
+        status: response.status, 
+        error: errorData.error || 'Unknown error' 
+      })
+      return false
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully submitted vote via API', { success: result.success })
+    return result.success
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error
+    logError('Unexpected error in vote', error as Error)
+    return false
+  }
+}
+
+/**
+ * Get user's vote for a specific target
+ */
+export const getUserVote = async (targetId: string, targetType: 'question' | 'answer'): Promise<Vote | null> => {
+  try {
+    logAPI('Fetching user vote', { targetId, targetType })
+    
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    
+    if (authError || !user) {
+      return null
+    }
+    
+    const { data: vote, error } = await supabase
+      .from('votes')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('target_id', targetId)
+      .eq('target_type', targetType)
+      .single()
+    
+    if (error && error.code !== 'PGRST116') {
+      logError('Error fetching user vote', error)
+      return null
+    }
+    
+    return vote
+  } catch (error) {
+    logError('Unexpected error in getUserVote', error as Error)
+    return null
+  }
+}
+
+// ================================
+// NOTIFICATION OPERATIONS
+// ================================
+
+/**
+ * Fetch the current user's latest notifications and unread count
+ */
+export const getNotifications = async (limit: number = 20): Promise<NotificationListResponse> => {
+  try {
+    logAPI('Fetching notifications via API', { limit })
+    
+    const response = await fetch(`/api/notifications?limit=${limit}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching notifications', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return { data: [], unread_count: 0 }
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully fetched notifications via API', { 
+      count: result.data.length, 
+      unreadCount: result.unread_count 
+    })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getNotifications', error as Error)
+    return { data: [], unread_count: 0 }
+  }
+}
+
+/**
+ * Mark a single notification as read
+ */
+export const markNotificationRead = async (notificationId: string): Promise<boolean> => {
+  try {
+    logAPI('Marking notification as read via API', { notificationId })
+    
+    const response = await fetch(`/api/notifications/${notificationId}/read`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error marking notification as read', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return false
+    }
+    
+    return true
+  } catch (error) {
+    logError('Unexpected error in markNotificationRead', error as Error)
+    return false
+  }
+}
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export const markAllNotificationsRead = async (): Promise<boolean> => {
+  try {
+    logAPI('Marking all notifications as read via API')
+    
+    const response = await fetch('/api/notifications/read-all', {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error marking all notifications as read', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return false
+    }
+    
+    logAPI('Successfully marked all notifications as read via API')
+    return true
+  } catch (error) {
+    logError('Unexpected error in markAllNotificationsRead', error as Error)
+    return false
+  }
+}
+
+// ================================
+// BADGE OPERATIONS
+// ================================
+
+/**
+ * Fetch the badges a user has earned, newest first
+ */
+export const getUserBadges = async (username: string): Promise<UserBadge[]> => {
+  try {
+    logAPI('Fetching user badges via API', { username })
+    
+    const response = await fetch(`/api/users/${encodeURIComponent(username)}/badges`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching user badges', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return []
+    }
+    
+    const badges = await response.json()
+    
+    logAPI('Successfully fetched user badges via API', { username, count: badges.length })
+    return badges
+  } catch (error) {
+    logError('Unexpected error in getUserBadges', error as Error)
+    return []
+  }
+}
+
+// ================================
+// TAG OPERATIONS
+// ================================
+
+/**
+ * Fetch a page of tags, optionally filtered by a name fragment
+ */
+export const getTags = async (
+  sort: TagSort = 'popular',
+  page: number = 1,
+  limit: number = 36,
+  filter?: string
+): Promise<PaginatedResponse<Tag>> => {
+  const emptyResponse: PaginatedResponse<Tag> = { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+
+  try {
+    logAPI('Fetching tags via API', { sort, page, limit, filter })
+    
+    const params = new URLSearchParams({ sort, page: page.toString(), limit: limit.toString() })
+    if (filter?.trim()) {
+      params.set('q', filter.trim())
+    }
+    
+    const response = await fetch(`/api/tags?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching tags', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return emptyResponse
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully fetched tags via API', { count: result.data.length, totalCount: result.count })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getTags', error as Error)
+    return emptyResponse
+  }
+}
+
+/**
+ * Fetch a tag with its description, wiki and synonyms
+ */
+export const getTag = async (name: string): Promise<TagWithSynonyms | null> => {
+  try {
+    logAPI('Fetching tag via API', { name })
+    
+    const response = await fetch(`/api/tags/${encodeURIComponent(name)}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching tag', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const tag = await response.json()
+    
+    logAPI('Successfully fetched tag via API', { name: tag.name })
+    return tag
+  } catch (error) {
+    logError('Unexpected error in getTag', error as Error)
+    return null
+  }
+}
+
+/**
+ * Suggest existing tags that start with the typed text
+ */
+export const suggestTags = async (query: string, limit: number = 8): Promise<TagSuggestion[]> => {
+  try {
+    const params = new URLSearchParams({ q: query, limit: limit.toString() })
+    const response = await fetch(`/api/tags/suggest?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error suggesting tags', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return []
+    }
+    
+    return await response.json()
+  } catch (error) {
+    logError('Unexpected error in suggestTags', error as Error)
+    return []
+  }
+}
+
+// ================================
+// MODERATION OPERATIONS
+// ================================
+
+/**
+ * Flag a question, answer or comment for moderator review
+ */
+export const flagPost = async (flagData: FlagFormData): Promise<Flag | null> => {
+  try {
+    logAPI('Flagging post via API', { targetType: flagData.target_type, targetId: flagData.target_id, reason: flagData.reason })
+    
+    const response = await fetch('/api/flags', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(flagData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error flagging post', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const flag = await response.json()
+    
+    logAPI('Successfully flagged post via API', { flagId: flag.id })
+    return flag
+  } catch (error) {
+    logError('Unexpected error in flagPost', error as Error)
+    return null
+  }
+}
+
+/**
+ * Fetch a page of the moderation queue (moderators only)
+ */
+export const getFlags = async (
+  status: FlagStatus = 'pending',
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<FlagWithDetails>> => {
+  const emptyResponse: PaginatedResponse<FlagWithDetails> = { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+
+  try {
+    logAPI('Fetching flags via API', { status, page, limit })
+    
+    const params = new URLSearchParams({ status, page: page.toString(), limit: limit.toString() })
+    const response = await fetch(`/api/moderation/flags?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching flags', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return emptyResponse
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully fetched flags via API', { count: result.data.length, totalCount: result.count })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getFlags', error as Error)
+    return emptyResponse
+  }
+}
+
+/**
+ * Approve or dismiss a pending flag (moderators only)
+ */
+const resolveFlag = async (flagId: string, decision: 'approve' | 'dismiss'): Promise<Flag | null> => {
+  try {
+    logAPI('Resolving flag via API', { flagId, decision })
+    
+    const response = await fetch(`/api/moderation/flags/${flagId}/${decision}`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error resolving flag', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const flag = await response.json()
+    
+    logAPI('Successfully resolved flag via API', { flagId, status: flag.status })
+    return flag
+  } catch (error) {
+    logError('Unexpected error in resolveFlag', error as Error)
+    return null
+  }
+}
+
+/**
+ * Approve a flag: the flagged post is removed and its other pending flags are settled
+ */
+export const approveFlag = (flagId: string) => resolveFlag(flagId, 'approve')
+
+/**
+ * Dismiss a flag, leaving the post in place
+ */
+export const dismissFlag = (flagId: string) => resolveFlag(flagId, 'dismiss')
+
+/**
+ * Fetch a page of the moderation audit log, newest first (moderators only)
+ */
+export const getModerationLog = async (
+  page: number = 1,
+  limit: number = 50
+): Promise<PaginatedResponse<ModerationLogEntryWithModerator>> => {
+  const emptyResponse: PaginatedResponse<ModerationLogEntryWithModerator> = { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+
+  try {
+    logAPI('Fetching moderation log via API', { page, limit })
+    
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() })
+    const response = await fetch(`/api/moderation/log?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching moderation log', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return emptyResponse
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully fetched moderation log via API', { count: result.data.length, totalCount: result.count })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getModerationLog', error as Error)
+    return emptyResponse
+  }
+}
+
+/**
+ * Suspend or shadow-ban a user for a number of days (moderators only)
+ */
+export const suspendUser = async (userId: string, formData: SuspensionFormData): Promise<Profile | null> => {
+  try {
+    logAPI('Suspending user via API', { userId, mode: formData.mode, days: formData.days })
+    
+    const response = await fetch(`/api/moderation/users/${userId}/suspend`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(formData),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error suspending user', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const profile = await response.json()
+    
+    logAPI('Successfully suspended user via API', { userId })
+    return profile
+  } catch (error) {
+    logError('Unexpected error in suspendUser', error as Error)
+    return null
+  }
+}
+
+/**
+ * Lift a user's suspension and shadow ban (moderators only)
+ */
+export const liftSuspension = async (userId: string): Promise<Profile | null> => {
+  try {
+    logAPI('Lifting suspension via API', { userId })
+    
+    const response = await fetch(`/api/moderation/users/${userId}/unsuspend`, {
+      method: 'POST',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error lifting suspension', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const profile = await response.json()
+    
+    logAPI('Successfully lifted suspension via API', { userId })
+    return profile
+  } catch (error) {
+    logError('Unexpected error in liftSuspension', error as Error)
+    return null
+  }
+}
+
+// ================================
+// ADMIN OPERATIONS
+// ================================
+
+/**
+ * Fetch a page of users for the roles page, optionally filtered by name or role (admins only)
+ */
+export const getUsersWithRoles = async (
+  filter: string = '',
+  role?: UserRole,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedResponse<UserWithRole>> => {
+  const emptyResponse: PaginatedResponse<UserWithRole> = { data: [], count: 0, page, per_page: limit, total_pages: 0 }
+
+  try {
+    logAPI('Fetching users with roles via API', { filter, role, page, limit })
+    
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() })
+    if (filter.trim()) {
+      params.set('q', filter.trim())
+    }
+    if (role) {
+      params.set('role', role)
+    }
+    
+    const response = await fetch(`/api/admin/users?${params.toString()}`)
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching users with roles', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return emptyResponse
+    }
+    
+    const result = await response.json()
+    
+    logAPI('Successfully fetched users with roles via API', { count: result.data.length, totalCount: result.count })
+    return result
+  } catch (error) {
+    logError('Unexpected error in getUsersWithRoles', error as Error)
+    return emptyResponse
+  }
+}
+
+/**
+ * Grant or revoke a user's role (admins only)
+ */
+export const setUserRole = async (userId: string, role: UserRole): Promise<UserWithRole | null> => {
+  try {
+    logAPI('Changing user role via API', { userId, role })
+    
+    const response = await fetch(`/api/admin/users/${userId}/role`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ role }),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error changing user role', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const user = await response.json()
+    
+    logAPI('Successfully changed user role via API', { userId, role: user.role })
+    return user
+  } catch (error) {
+    logError('Unexpected error in setUserRole', error as Error)
+    return null
+  }
+}
+
+// ================================
+// ATTACHMENT OPERATIONS
+// ================================
+
+/**
+ * Upload an image for a post
+ * Throws a RateLimitError when the user is uploading too quickly
+ */
+export const uploadAttachment = async (file: File): Promise<Attachment | null> => {
+  try {
+    logAPI('Uploading attachment via API', { name: file.name, type: file.type, size: file.size })
+    
+    const formData = new FormData()
+    formData.append('file', file)
+    
+    const response = await fetch('/api/attachments', {
+      method: 'POST',
+      body: formData,
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      if (response.status === 429) {
+        throw toRateLimitError(response, errorData)
+      }
+      logError('API error uploading attachment', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    const attachment = await response.json()
+    
+    logAPI('Successfully uploaded attachment via API', { attachmentId: attachment.id })
+    return attachment
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error
+    logError('Unexpected error in uploadAttachment', error as Error)
+    return null
+  }
+}
+
+// ================================
+// DRAFT OPERATIONS
+// ================================
+
+/**
+ * Get your server-side draft for a form, or null if there is none
+ */
+export const getDraft = async (key: string): Promise<Draft | null> => {
+  try {
+    const response = await fetch(`/api/drafts/${encodeURIComponent(key)}`)
+    
+    if (response.status === 404) {
+      return null
+    }
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error fetching draft', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    return await response.json()
+  } catch (error) {
+    logError('Unexpected error in getDraft', error as Error)
+    return null
+  }
+}
+
+/**
+ * Save your draft for a form on the server
+ */
+export const saveDraft = async (key: string, content: Record<string, unknown>): Promise<Draft | null> => {
+  try {
+    const response = await fetch(`/api/drafts/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ content }),
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error saving draft', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return null
+    }
+    
+    return await response.json()
+  } catch (error) {
+    logError('Unexpected error in saveDraft', error as Error)
+    return null
+  }
+}
+
+/**
+ * Delete your server-side draft for a form
+ */
+export const deleteDraft = async (key: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/drafts/${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+    })
+    
+    if (!response.ok) {
+      const errorData = await response.json()
+      logError('API error deleting draft', new Error(errorData.error || 'Unknown error'), { 
+        status: response.status 
+      })
+      return false
+    }
+    
+    return true
+  } catch (error) {
+    logError('Unexpected error in deleteDraft', error as Error)
+    return false
+  }
+}
+
+// ================================
+// UTILITY FUNCTIONS
+// ================================
+
+/**
+ * Get popular tags, most used first
+ */
+export const getPopularTags = async (limit: number = 20): Promise<string[]> => {
+  const result = await getTags('popular', 1, limit)
+  return result.data.map(tag => tag.name)
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from 'crypto'
+import sharp from 'sharp'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getStorage } from '@/lib/storage'
+import { validateAttachment } from '@/lib/validation'
+import { ATTACHMENT_MAX_PIXELS, ATTACHMENT_THUMBNAIL_WIDTH } from '@/lib/constants'
+import { Attachment } from '@/types/database'
+
+/**
+ * Server-only image attachments for posts
+ * Uploads are decoded and re-encoded with sharp, which checks the file really is an image of
+ * an accepted type and drops its EXIF data (camera details, GPS position) along the way
+ */
+
+type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp'
+
+// Formats sharp may detect, with what they are stored as
+const IMAGE_FORMATS: Record<ImageFormat, { contentType: string; extension: string }> = {
+  png: { contentType: 'image/png', extension: 'png' },
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+  webp: { contentType: 'image/webp', extension: 'webp' }
+}
+
+/**
+ * Check, clean and store an uploaded image with its thumbnail, and record it
+ * Returns the attachment, or the error and status (400 or 500) to respond with
+ */
+export const createAttachment = async (
+  file: File,
+  uploaderId: string
+): Promise<{ attachment: Attachment; error: null; status: 201 } | { attachment: null; error: string; status: 400 | 500 }> => {
+  const validationError = validateAttachment({ type: file.type, size: file.size })
+  if (validationError) {
+    return { attachment: null, error: validationError, status: 400 }
+  }
+
+  const input = Buffer.from(await file.arrayBuffer())
+  let image: { data: Buffer; width: number; height: number }
+  let thumbnail: Buffer
+  let format: { contentType: string; extension: string }
+
+  try {
+    const source = sharp(input, { animated: true, limitInputPixels: ATTACHMENT_MAX_PIXELS })
+    const metadata = await source.metadata()
+
+    if (!metadata.format || !(metadata.format in IMAGE_FORMATS)) {
+      return { attachment: null, error: 'The file is not a PNG, JPEG, GIF or WebP image', status: 400 }
+    }
+
+    const detected = metadata.format as ImageFormat
+    format = IMAGE_FORMATS[detected]
+    const isAnimated = (metadata.pages || 1) > 1
+
+    // rotate() turns the pixels upright from the EXIF orientation before the EXIF data is dropped
+    const { data, info } = await (isAnimated ? source : source.rotate())
+      .toFormat(detected)
+      .toBuffer({ resolveWithObject: true })
+
+    image = { data, width: info.width, height: metadata.pageHeight || info.height }
+
+    thumbnail = await sharp(data, { animated: isAnimated })
+      .resize({ width: ATTACHMENT_THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .webp()
+      .toBuffer()
+  } catch (error) {
+    console.error('Image processing error:', error)
+    return { attachment: null, error: 'The image could not be read', status: 400 }
+  }
+
+  const id = randomUUID()
+  const now = new Date()
+  const prefix = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}/${id}`
+
+  let url: string
+  let thumbnailUrl: string
+
+  try {
+    [url, thumbnailUrl] = await Promise.all([
+      getStorage().put(`${prefix}.${format.extension}`, image.data, format.contentType),
+      getStorage().put(`${prefix}-thumb.webp`, thumbnail, 'image/webp')
+    ])
+  } catch (error) {
+    console.error('Attachment storage error:', error)
+    return { attachment: null, error: 'Failed to store the image', status: 500 }
+  }
+
+  const { data: attachment, error } = await supabaseAdmin
+    .from('attachments')
+    .insert({
+      id,
+      uploader_id: uploaderId,
+      url,
+      thumbnail_url: thumbnailUrl,
+      content_type: format.contentType,
+      size: image.data.length,
+      width: image.width,
+      height: image.height
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Attachment insert error:', error)
+    return { attachment: null, error: error.message, status: 500 }
+  }
+
+  return { attachment, error: null, status: 201 }
+}
@@ -0,0 +1,71 @@
+import { cache } from 'react'
+import { getSessionProfile } from '@/lib/supabase-server'
+import { hasRole, isSuspended, suspensionMessage } from '@/lib/permissions'
+import { Profile, SuspensionDetails, UserRole } from '@/types/database'
+
+/**
+ * Server-only access control for SlackIt Q&A platform
+ * Every API route that acts for a user goes through requireRole, so the
+ * session user and their role are resolved in one place
+ */
+
+const ROLE_ERRORS: Record<UserRole, string> = {
+  user: 'Authentication required',
+  moderator: 'Only moderators can do this',
+  admin: 'Only admins can do this'
+}
+
+/**
+ * The signed-in user's profile (including role), or null for a guest
+ * Cached for the request, so a route and the helpers it calls share one lookup
+ */
+export const getSession = cache(getSessionProfile)
+
+/**
+ * Resolve the signed-in user and check they have at least the given role
+ * Returns the profile, or the error and status (401 or 403) to respond with
+ */
+export const requireRole = async (
+  role: UserRole = 'user'
+): Promise<{ profile: Profile; error: null; status: 200 } | { profile: null; error: string; status: 401 | 403 }> => {
+  const profile = await getSession()
+
+  if (!profile) {
+    return { profile: null, error: ROLE_ERRORS.user, status: 401 }
+  }
+
+  if (!hasRole(profile.role, role)) {
+    return { profile: null, error: ROLE_ERRORS[role], status: 403 }
+  }
+
+  return { profile, error: null, status: 200 }
+}
+
+/**
+ * Resolve the signed-in user for a route that writes content (posts, votes, comments, flags)
+ * Suspended users get a 403 explaining why and until when
+ */
+export const requireWriteAccess = async (): Promise<
+  | { profile: Profile; error: null; status: 200; suspension: null }
+  | { profile: null; error: string; status: 401 | 403; suspension: SuspensionDetails | null }
+> => {
+  const result = await requireRole('user')
+
+  if (!result.profile) {
+    return { ...result, suspension: null }
+  }
+
+  if (isSuspended(result.profile)) {
+    return {
+      profile: null,
+      error: suspensionMessage(result.profile),
+      status: 403,
+      suspension: {
+        suspended_until: result.profile.suspended_until!,
+        reason: result.profile.suspension_reason
+      }
+    }
+  }
+
+  return { ...result, suspension: null }
+}
@@ -0,0 +1,50 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { BADGE_RULES } from '@/lib/badges'
+
+/**
+ * Server-only badge awarding job
+ * Every rule is evaluated in the database; already-awarded badges are skipped there,
+ * so the job is safe to run as often as the scheduler likes
+ */
+
+export interface BadgeJobResult {
+  awarded: Record<string, number>
+  failed: string[]
+}
+
+/**
+ * Evaluate every badge rule and award the badges that have been earned since the last run
+ * A failing rule is logged and skipped so the others still run
+ */
+export const runBadgeJob = async (): Promise<BadgeJobResult> => {
+  const result: BadgeJobResult = { awarded: {}, failed: [] }
+
+  for (const rule of BADGE_RULES) {
+    const { data, error } = await supabaseAdmin.rpc('award_badge', {
+      p_slug: rule.slug,
+      p_criterion: rule.criterion,
+      p_threshold: rule.threshold,
+      p_days: rule.days ?? null
+    })
+
+    if (error) {
+      console.error('Badge rule error:', { slug: rule.slug, error })
+      result.failed.push(rule.slug)
+      continue
+    }
+
+    result.awarded[rule.slug] = data ?? 0
+  }
+
+  return result
+}
+
+/**
+ * Check the shared secret sent by the scheduler (Vercel Cron sends it as a bearer token)
+ */
+export const isAuthorizedJobRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
@@ -0,0 +1,110 @@
+/**
+ * Badge definitions for SlackIt Q&A platform
+ * Rules are declarative: each one names a criterion evaluated by the badge_candidates
+ * function in database/schema.sql, so adding a badge is a matter of adding a rule here
+ */
+
+export type BadgeTier = 'bronze' | 'silver' | 'gold'
+
+export type BadgeCriterion =
+  | 'question_count'
+  | 'accepted_answer_count'
+  | 'answer_score'
+  | 'unanswered_question'
+  | 'tag_answer_score'
+
+export interface BadgeRule {
+  slug: string
+  /** Display name; tag badges are shown under the tag's name instead */
+  name: string
+  description: string
+  tier: BadgeTier
+  criterion: BadgeCriterion
+  /** Minimum count or score (for unanswered_question, the maximum number of views) */
+  threshold: number
+  /** Minimum age in days, used by unanswered_question */
+  days?: number
+}
+
+export const BADGE_RULES: BadgeRule[] = [
+  {
+    slug: 'first-question',
+    name: 'Student',
+    description: 'Asked a first question',
+    tier: 'bronze',
+    criterion: 'question_count',
+    threshold: 1
+  },
+  {
+    slug: 'first-accepted-answer',
+    name: 'Teacher',
+    description: 'Had an answer accepted for the first time',
+    tier: 'bronze',
+    criterion: 'accepted_answer_count',
+    threshold: 1
+  },
+  {
+    slug: 'good-answer',
+    name: 'Good Answer',
+    description: 'Answer scored 25 or more',
+    tier: 'silver',
+    criterion: 'answer_score',
+    threshold: 25
+  },
+  {
+    slug: 'tumbleweed',
+    name: 'Tumbleweed',
+    description: 'Asked a question with no views, answers or votes for a week',
+    tier: 'bronze',
+    criterion: 'unanswered_question',
+    threshold: 0,
+    days: 7
+  },
+  {
+    slug: 'tag-bronze',
+    name: 'Tag Bronze',
+    description: 'Earned a total answer score of 100 in a tag',
+    tier: 'bronze',
+    criterion: 'tag_answer_score',
+    threshold: 100
+  },
+  {
+    slug: 'tag-silver',
+    name: 'Tag Silver',
+    description: 'Earned a total answer score of 400 in a tag',
+    tier: 'silver',
+    criterion: 'tag_answer_score',
+    threshold: 400
+  },
+  {
+    slug: 'tag-gold',
+    name: 'Tag Gold',
+    description: 'Earned a total answer score of 1000 in a tag',
+    tier: 'gold',
+    criterion: 'tag_answer_score',
+    threshold: 1000
+  }
+]
+
+/**
+ * Look up the rule behind an awarded badge
+ */
+export const getBadgeRule = (slug: string) =>
+  BADGE_RULES.find(rule => rule.slug === slug) || null
+
+/**
+ * Name shown for an awarded badge - tag badges are named after their tag
+ */
+export const getBadgeName = (badge: { badge_slug: string; tag: string | null }) => {
+  if (badge.tag) return badge.tag
+  return getBadgeRule(badge.badge_slug)?.name || badge.badge_slug
+}
+
+/**
+ * Text colour for each tier
+ */
+export const BADGE_TIER_COLORS: Record<BadgeTier, string> = {
+  bronze: 'text-amber-600',
+  silver: 'text-gray-300',
+  gold: 'text-yellow-400'
+}
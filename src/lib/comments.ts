@@ -0,0 +1,95 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { notifyMentions } from '@/lib/notifications'
+import { CommentWithAuthor } from '@/types/database'
+
+/**
+ * Server-only comment helpers for SlackIt Q&A platform
+ * Shared by the question-level and answer-level comment routes
+ */
+
+export const COMMENT_SELECT = `
+  *,
+  author:profiles!author_id(id, username, avatar_url)
+`
+
+/**
+ * Fetch the comments attached to a question (answerId null) or to one of its answers
+ * Comments are returned oldest first so threads read top to bottom
+ */
+export const fetchComments = async (questionId: string, answerId: string | null) => {
+  let query = supabaseAdmin
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('question_id', questionId)
+    .order('created_at', { ascending: true })
+
+  query = answerId ? query.eq('answer_id', answerId) : query.is('answer_id', null)
+
+  return query.returns<CommentWithAuthor[]>()
+}
+
+/**
+ * Insert a comment, attaching replies to the top-level comment of their thread
+ * Returns an error message instead of throwing so routes can map it to a 400
+ */
+export const insertComment = async ({
+  questionId,
+  answerId,
+  parentId,
+  authorId,
+  content
+}: {
+  questionId: string
+  answerId: string | null
+  parentId?: string | null
+  authorId: string
+  content: string
+}): Promise<{ comment: CommentWithAuthor | null; error: string | null; status: number }> => {
+  let threadParentId: string | null = null
+
+  if (parentId) {
+    const { data: parent, error: parentError } = await supabaseAdmin
+      .from('comments')
+      .select('id, question_id, answer_id, parent_id')
+      .eq('id', parentId)
+      .single()
+
+    if (parentError || !parent) {
+      return { comment: null, error: 'Parent comment not found', status: 404 }
+    }
+
+    if (parent.question_id !== questionId || parent.answer_id !== answerId) {
+      return { comment: null, error: 'Parent comment belongs to a different post', status: 400 }
+    }
+
+    // Threads are one level deep: replying to a reply joins the same thread
+    threadParentId = parent.parent_id || parent.id
+  }
+
+  const { data: comment, error } = await supabaseAdmin
+    .from('comments')
+    .insert({
+      question_id: questionId,
+      answer_id: answerId,
+      parent_id: threadParentId,
+      author_id: authorId,
+      content: content.trim()
+    })
+    .select(COMMENT_SELECT)
+    .returns<CommentWithAuthor[]>()
+    .single()
+
+  if (error) {
+    return { comment: null, error: error.message, status: 500 }
+  }
+
+  await notifyMentions({
+    text: comment.content,
+    actorId: authorId,
+    questionId,
+    answerId,
+    commentId: comment.id
+  })
+
+  return { comment, error: null, status: 200 }
+}
@@ -0,0 +1,160 @@
+import { CloseVoteReason, FlagReason, QuestionSort, RateLimitAction, ReputationTier, UserRole } from '@/types/database'
+
+/**
+ * Shared limits for SlackIt Q&A platform
+ * Used by both the API routes and the client forms so validation stays in sync
+ */
+
+/**
+ * Comments are meant for short clarifications, not full answers
+ */
+export const COMMENT_MIN_LENGTH = 2
+export const COMMENT_MAX_LENGTH = 600
+
+/**
+ * Question limits, matching the counters shown on the Ask page
+ */
+export const QUESTION_TITLE_MAX_LENGTH = 200
+export const QUESTION_DESCRIPTION_MAX_LENGTH = 10000
+
+/**
+ * Similar-question hints on the Ask page
+ * Titles shorter than the minimum match too loosely to be useful; a match at or above
+ * DUPLICATE_SIMILARITY_THRESHOLD needs a "this is different because..." note to post
+ */
+export const SIMILAR_QUESTIONS_MIN_TITLE_LENGTH = 15
+export const SIMILAR_QUESTIONS_LIMIT = 5
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.6
+export const DIFFERENCE_NOTE_MAX_LENGTH = 500
+
+/**
+ * Tag limits: lowercase letters, digits and + # . - (so c++, c# and .net work)
+ */
+export const TAG_MAX_COUNT = 5
+export const TAG_MAX_LENGTH = 30
+export const TAG_PATTERN = /^[a-z0-9+#.][a-z0-9+#.-]*$/
+
+/**
+ * How many tags a user can watch, and separately ignore
+ */
+export const TAG_PREFERENCES_MAX = 100
+
+/**
+ * Username limits, matching the characters @mentions recognise
+ */
+export const USERNAME_MIN_LENGTH = 3
+export const USERNAME_MAX_LENGTH = 30
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.-]+$/
+
+/**
+ * Soft-deleted questions and answers can be restored for this many days
+ */
+export const RESTORE_WINDOW_DAYS = 30
+
+/**
+ * Sort modes accepted by GET /api/questions, in the order the home page offers them
+ * for_you is personalised and needs a signed-in user
+ */
+export const QUESTION_SORTS: QuestionSort[] = ['for_you', 'newest', 'active', 'hot', 'votes', 'unanswered', 'no_accepted_answer']
+
+/**
+ * Role names for the admin page, lowest first
+ */
+export const USER_ROLES: Record<UserRole, string> = {
+  user: 'User',
+  moderator: 'Moderator',
+  admin: 'Admin'
+}
+
+/**
+ * Reputation needed to unlock each privilege (moderators and admins have them all)
+ * Reputation itself is awarded by triggers in database/schema.sql
+ */
+export const PRIVILEGE_THRESHOLDS = {
+  downvote: 125,
+  close_vote: 500,
+  edit_others_posts: 2000
+} as const
+
+/**
+ * Community votes needed to close or reopen a question (a moderator's vote is binding)
+ */
+export const CLOSE_VOTES_REQUIRED = 3
+
+/**
+ * Close vote reasons, worded to follow "Closed as"
+ */
+export const CLOSE_VOTE_REASONS: Record<CloseVoteReason, string> = {
+  duplicate: 'a duplicate',
+  off_topic: 'off-topic',
+  unclear: 'needing details or clarity',
+  too_broad: 'needing more focus',
+  opinion_based: 'opinion-based'
+}
+
+/**
+ * Flag reasons offered on every post; "other" needs a note for the moderators
+ */
+export const FLAG_REASONS: Record<FlagReason, string> = {
+  spam: 'Spam',
+  rude: 'Rude or abusive',
+  low_quality: 'Very low quality',
+  other: 'Something else'
+}
+
+export const FLAG_NOTE_MAX_LENGTH = 500
+
+/**
+ * Suspension lengths offered to moderators, in days
+ */
+export const SUSPENSION_DAYS = [1, 3, 7, 30, 365] as const
+
+export const SUSPENSION_REASON_MAX_LENGTH = 500
+
+/**
+ * Reputation needed to reach each rate limit tier; below established a user is new
+ */
+export const RATE_LIMIT_TIER_THRESHOLDS = {
+  established: 100,
+  trusted: 1000
+} as const
+
+/**
+ * Write budgets per fixed window: perUser depends on the user's reputation tier,
+ * perIp caps everyone behind one address together. question_check is the looser budget for
+ * submitting the Ask form at all (each submission runs the duplicate search, even when refused)
+ */
+export const RATE_LIMITS: Record<RateLimitAction, {
+  windowSeconds: number
+  perUser: Record<ReputationTier, number>
+  perIp: number
+}> = {
+  question: { windowSeconds: 60 * 60, perUser: { new: 3, established: 10, trusted: 30 }, perIp: 30 },
+  question_check: { windowSeconds: 60 * 60, perUser: { new: 20, established: 60, trusted: 120 }, perIp: 120 },
+  answer: { windowSeconds: 60 * 60, perUser: { new: 10, established: 30, trusted: 60 }, perIp: 60 },
+  vote: { windowSeconds: 60, perUser: { new: 10, established: 30, trusted: 60 }, perIp: 120 },
+  upload: { windowSeconds: 60 * 60, perUser: { new: 10, established: 30, trusted: 100 }, perIp: 100 }
+}
+
+/**
+ * A question view is counted once per viewer (user, or IP address when signed out) per window
+ */
+export const QUESTION_VIEW_WINDOW_SECONDS = 60 * 60
+
+/**
+ * Images attached to posts: the accepted types and size, and the width of the
+ * thumbnail shown in the post (it links to the full image)
+ */
+export const ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+export const ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024
+export const ATTACHMENT_MAX_PIXELS = 40_000_000
+export const ATTACHMENT_THUMBNAIL_WIDTH = 800
+
+/**
+ * Drafts are keyed by form: 'question' for the Ask page, 'answer:<question id>' for an answer
+ * Local saves follow typing closely; server syncs are spaced out
+ */
+export const DRAFT_KEY_PATTERN = /^(question|answer:[0-9a-f-]{36})$/
+export const DRAFT_MAX_LENGTH = QUESTION_DESCRIPTION_MAX_LENGTH + 2000
+export const DRAFT_LOCAL_SAVE_DELAY_MS = 500
+export const DRAFT_SERVER_SYNC_DELAY_MS = 3000
@@ -0,0 +1,91 @@
+/**
+ * Line-based text diff for SlackIt revision history
+ * Uses a longest-common-subsequence table, which is plenty fast for post-sized text
+ */
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null
+  right: DiffLine | null
+}
+
+/**
+ * Diff two texts line by line
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i] })
+      i++
+    } else {
+      lines.push({ type: 'added', text: b[j] })
+      j++
+    }
+  }
+
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] })
+
+  return lines
+}
+
+/**
+ * Arrange a diff into rows for a two-column view
+ * Runs of removed and added lines are paired up so a changed line sits next to its replacement
+ */
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    const length = Math.max(removed.length, added.length)
+    for (let k = 0; k < length; k++) {
+      rows.push({ left: removed[k] || null, right: added[k] || null })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line)
+    } else if (line.type === 'added') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+
+  flush()
+  return rows
+}
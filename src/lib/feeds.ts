@@ -0,0 +1,246 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { resolveTagSynonyms } from '@/lib/tags'
+import { renderMarkdown } from '@/lib/markdown'
+import { questionPath, siteUrl } from '@/lib/urls'
+import { escapeXml } from '@/lib/xml'
+
+/**
+ * Server-only Atom feeds for SlackIt Q&A platform
+ * Newest questions, newest questions in a tag, and the answers to a question.
+ * Only public posts are included: deleted and shadowed ones never appear in a feed
+ */
+
+// Entries per feed, newest first
+const FEED_ENTRY_LIMIT = 30
+
+export interface FeedEntry {
+  /** Path the entry's id is built from; made of database ids only, so editing a title doesn't change it */
+  idPath: string
+  url: string
+  title: string
+  author: string
+  published: string
+  updated: string
+  /** Markdown, rendered to sanitized HTML in the feed */
+  content: string
+  categories?: string[]
+}
+
+export interface Feed {
+  /** Path of the page the feed follows */
+  path: string
+  /** Path of the feed itself */
+  feedPath: string
+  title: string
+  subtitle: string
+  entries: FeedEntry[]
+}
+
+type FeedResult = { feed: Feed; error: null; status: 200 } | { feed: null; error: string; status: 404 | 500 }
+
+const authorName = (author: { username: string } | null) => author?.username || 'a deleted user'
+
+/**
+ * Load the newest public questions, optionally only those with a tag
+ */
+const loadQuestionEntries = async (tag?: string) => {
+  let query = supabaseAdmin
+    .from('questions')
+    .select('id, title, description, tags, created_at, updated_at, author:profiles!author_id(username)')
+    .is('deleted_at', null)
+    .eq('is_shadowed', false)
+    .order('created_at', { ascending: false })
+    .limit(FEED_ENTRY_LIMIT)
+
+  if (tag) {
+    query = query.contains('tags', [tag])
+  }
+
+  const { data, error } = await query.returns<{
+    id: string
+    title: string
+    description: string
+    tags: string[]
+    created_at: string
+    updated_at: string
+    author: { username: string } | null
+  }[]>()
+
+  if (error) {
+    console.error('Feed questions fetch error:', error)
+    return { entries: null, error: error.message }
+  }
+
+  const entries: FeedEntry[] = (data || []).map(question => ({
+    idPath: `/questions/${question.id}`,
+    url: questionPath(question),
+    title: question.title,
+    author: authorName(question.author),
+    published: question.created_at,
+    updated: question.updated_at,
+    content: question.description,
+    categories: question.tags
+  }))
+
+  return { entries, error: null }
+}
+
+/**
+ * The newest questions across the site
+ */
+export const getNewestQuestionsFeed = async (): Promise<FeedResult> => {
+  const { entries, error } = await loadQuestionEntries()
+
+  if (!entries) {
+    return { feed: null, error, status: 500 }
+  }
+
+  return {
+    feed: {
+      path: '/',
+      feedPath: '/questions/feed',
+      title: 'Newest questions - SlackIt',
+      subtitle: 'The newest questions on SlackIt',
+      entries
+    },
+    error: null,
+    status: 200
+  }
+}
+
+/**
+ * The newest questions in a tag; a synonym gives the feed of its main tag
+ */
+export const getTagFeed = async (requested: string): Promise<FeedResult> => {
+  const [name] = await resolveTagSynonyms([requested])
+
+  const { data: tag, error: tagError } = name
+    ? await supabaseAdmin.from('tags').select('name').eq('name', name).maybeSingle()
+    : { data: null, error: null }
+
+  if (tagError) {
+    console.error('Feed tag fetch error:', tagError)
+    return { feed: null, error: tagError.message, status: 500 }
+  }
+
+  if (!tag) {
+    return { feed: null, error: 'Tag not found', status: 404 }
+  }
+
+  const { entries, error } = await loadQuestionEntries(tag.name)
+
+  if (!entries) {
+    return { feed: null, error, status: 500 }
+  }
+
+  const path = `/tags/${encodeURIComponent(tag.name)}`
+
+  return {
+    feed: {
+      path,
+      feedPath: `${path}/feed`,
+      title: `Newest ${tag.name} questions - SlackIt`,
+      subtitle: `The newest questions tagged ${tag.name} on SlackIt`,
+      entries
+    },
+    error: null,
+    status: 200
+  }
+}
+
+/**
+ * The answers to a question, newest first
+ */
+export const getQuestionAnswersFeed = async (questionId: string): Promise<FeedResult> => {
+  const { data: question, error: questionError } = await supabaseAdmin
+    .from('questions')
+    .select('id, title')
+    .eq('id', questionId)
+    .is('deleted_at', null)
+    .eq('is_shadowed', false)
+    .maybeSingle()
+
+  if (questionError) {
+    console.error('Feed question fetch error:', questionError)
+    return { feed: null, error: questionError.message, status: 500 }
+  }
+
+  if (!question) {
+    return { feed: null, error: 'Question not found', status: 404 }
+  }
+
+  const { data: answers, error: answersError } = await supabaseAdmin
+    .from('answers')
+    .select('id, content, created_at, updated_at, author:profiles!author_id(username)')
+    .eq('question_id', questionId)
+    .is('deleted_at', null)
+    .eq('is_shadowed', false)
+    .order('created_at', { ascending: false })
+    .limit(FEED_ENTRY_LIMIT)
+    .returns<{ id: string; content: string; created_at: string; updated_at: string; author: { username: string } | null }[]>()
+
+  if (answersError) {
+    console.error('Feed answers fetch error:', answersError)
+    return { feed: null, error: answersError.message, status: 500 }
+  }
+
+  const path = questionPath(question)
+
+  return {
+    feed: {
+      path,
+      feedPath: `/questions/${question.id}/feed`,
+      title: `Answers to "${question.title}" - SlackIt`,
+      subtitle: `The newest answers to "${question.title}" on SlackIt`,
+      entries: (answers || []).map(answer => ({
+        idPath: `/questions/${question.id}#answer-${answer.id}`,
+        url: `${path}#answer-${answer.id}`,
+        title: `Answer by ${authorName(answer.author)} to "${question.title}"`,
+        author: authorName(answer.author),
+        published: answer.created_at,
+        updated: answer.updated_at,
+        content: answer.content
+      }))
+    },
+    error: null,
+    status: 200
+  }
+}
+
+/**
+ * An Atom 1.0 document for a feed
+ * Entry ids come from database ids rather than the slugged URLs, so they never change for a post
+ */
+export const renderAtomFeed = (feed: Feed) => {
+  const origin = siteUrl()
+  const updated = feed.entries.reduce(
+    (latest, entry) => (new Date(entry.updated) > new Date(latest) ? entry.updated : latest),
+    feed.entries[0]?.updated || new Date().toISOString()
+  )
+
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(`${origin}${entry.idPath}`)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(`${origin}${entry.url}`)}"/>`,
+    `    <author><name>${escapeXml(entry.author)}</name></author>`,
+    `    <published>${new Date(entry.published).toISOString()}</published>`,
+    `    <updated>${new Date(entry.updated).toISOString()}</updated>`,
+    ...(entry.categories || []).map(category => `    <category term="${escapeXml(category)}"/>`),
+    `    <content type="html">${escapeXml(renderMarkdown(entry.content))}</content>`,
+    '  </entry>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${origin}${feed.feedPath}`)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.subtitle)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${origin}${feed.feedPath}`)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(`${origin}${feed.path}`)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    ...entries,
+    '</feed>'
+  ].join('\n')
+}
@@ -0,0 +1,87 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+import rehypeRaw from 'rehype-raw'
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize'
+import rehypeSlug from 'rehype-slug'
+import rehypeAutolinkHeadings from 'rehype-autolink-headings'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeStringify from 'rehype-stringify'
+
+/**
+ * Markdown rendering for SlackIt Q&A platform
+ * Posts are CommonMark with the GitHub extensions (tables, task lists, strikethrough, autolinks).
+ * Raw HTML in a post is parsed and cut down to an allow-list, so <script>, event handlers and
+ * javascript: links never reach the page. Runs the same in the editor preview and on the server
+ */
+
+// GitHub's allow-list, plus <u> from the editor toolbar
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), 'u']
+}
+
+// Heading ids share the user-content- prefix the sanitizer gives every other id in a post,
+// so a heading can't clobber globals like window.location
+const HEADING_ID_PREFIX = 'user-content-'
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(rehypeRaw)
+  .use(rehypeSanitize, SANITIZE_SCHEMA)
+  // Everything below only adds markup of its own, so it runs after the sanitizer
+  .use(rehypeSlug, { prefix: HEADING_ID_PREFIX })
+  .use(rehypeAutolinkHeadings, {
+    behavior: 'append',
+    properties: { className: ['heading-anchor'], ariaHidden: 'true', tabIndex: -1 },
+    content: { type: 'text', value: '#' }
+  })
+  .use(rehypeHighlight, { detect: false })
+  .use(rehypeStringify)
+  .freeze()
+
+/**
+ * Render a post's Markdown to sanitized HTML
+ */
+export const renderMarkdown = (markdown: string): string =>
+  String(processor.processSync(markdown))
+
+const textParser = unified().use(remarkParse).use(remarkGfm).freeze()
+
+interface TextNode {
+  type: string
+  value?: string
+  children?: TextNode[]
+}
+
+// Nodes whose children are blocks, so their text is joined with a space instead of run together
+const BLOCK_CONTAINERS = ['root', 'blockquote', 'list', 'listItem', 'table', 'tableRow', 'footnoteDefinition']
+
+const plainText = (node: TextNode): string => {
+  if (node.type === 'html') return ''
+  if (node.value !== undefined) return node.value
+  return (node.children || []).map(plainText).join(BLOCK_CONTAINERS.includes(node.type) ? ' ' : '')
+}
+
+/**
+ * A post's Markdown as plain text on one line, without markup or raw HTML
+ */
+export const markdownToText = (markdown: string): string =>
+  plainText(textParser.parse(markdown)).replace(/\s+/g, ' ').trim()
+
+/**
+ * A post's plain text cut to a length on a word boundary
+ * Used for page descriptions and feed summaries
+ */
+export const markdownExcerpt = (markdown: string, maxLength: number): string => {
+  const text = markdownToText(markdown)
+
+  if (text.length <= maxLength) return text
+
+  const cut = text.slice(0, maxLength - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
@@ -0,0 +1,42 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { ModerationAction, ModerationTargetType } from '@/types/database'
+
+/**
+ * Server-only audit log of moderator actions, shown on the /moderation page
+ */
+
+/**
+ * Record a moderator action in the audit log
+ * Background jobs acting on their own pass a null moderatorId.
+ * A failed write is logged but never undoes the action itself
+ */
+export const logModeratorAction = async ({
+  moderatorId,
+  action,
+  targetType,
+  targetId,
+  questionId = null,
+  note = null
+}: {
+  moderatorId: string | null
+  action: ModerationAction
+  targetType: ModerationTargetType
+  targetId: string
+  questionId?: string | null
+  note?: string | null
+}) => {
+  const { error } = await supabaseAdmin
+    .from('moderation_log')
+    .insert({
+      moderator_id: moderatorId,
+      action,
+      target_type: targetType,
+      target_id: targetId,
+      question_id: questionId,
+      note
+    })
+
+  if (error) {
+    console.error('Moderation log error:', error)
+  }
+}
@@ -0,0 +1,325 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireRole } from '@/lib/auth'
+import { setPostDeleted } from '@/lib/posts'
+import { logModeratorAction } from '@/lib/moderation-log'
+import { validateSuspensionInput } from '@/lib/validation'
+import {
+  Flag,
+  FlagStatus,
+  FlagTarget,
+  FlagTargetType,
+  Profile,
+  SuspensionFormData
+} from '@/types/database'
+
+/**
+ * Server-only moderation helpers: flag lookups and decisions, suspensions and shadow bans
+ */
+
+const EXCERPT_LENGTH = 200
+
+const excerpt = (text: string) =>
+  text.length > EXCERPT_LENGTH ? `${text.substring(0, EXCERPT_LENGTH).trim()}...` : text
+
+type TargetAuthor = Pick<Profile, 'id' | 'username'> | null
+
+/**
+ * Load flagged posts of one type in a single query, keyed by id
+ * Comments are deleted outright, so a missing comment simply has no entry
+ */
+const loadTargets = async (targetType: FlagTargetType, ids: string[]): Promise<Map<string, FlagTarget>> => {
+  const targets = new Map<string, FlagTarget>()
+
+  if (ids.length === 0) return targets
+
+  if (targetType === 'question') {
+    const { data } = await supabaseAdmin
+      .from('questions')
+      .select('id, title, deleted_at, author:profiles!author_id(id, username)')
+      .in('id', ids)
+      .returns<{ id: string; title: string; deleted_at: string | null; author: TargetAuthor }[]>()
+
+    for (const question of data || []) {
+      targets.set(question.id, {
+        question_id: question.id,
+        author: question.author,
+        excerpt: excerpt(question.title),
+        deleted: !!question.deleted_at
+      })
+    }
+  } else if (targetType === 'answer') {
+    const { data } = await supabaseAdmin
+      .from('answers')
+      .select('id, question_id, content, deleted_at, author:profiles!author_id(id, username)')
+      .in('id', ids)
+      .returns<{ id: string; question_id: string; content: string; deleted_at: string | null; author: TargetAuthor }[]>()
+
+    for (const answer of data || []) {
+      targets.set(answer.id, {
+        question_id: answer.question_id,
+        author: answer.author,
+        excerpt: excerpt(answer.content),
+        deleted: !!answer.deleted_at
+      })
+    }
+  } else {
+    const { data } = await supabaseAdmin
+      .from('comments')
+      .select('id, question_id, content, author:profiles!author_id(id, username)')
+      .in('id', ids)
+      .returns<{ id: string; question_id: string; content: string; author: TargetAuthor }[]>()
+
+    for (const comment of data || []) {
+      targets.set(comment.id, {
+        question_id: comment.question_id,
+        author: comment.author,
+        excerpt: excerpt(comment.content),
+        deleted: false
+      })
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Find the post a flag points at, with its author and a short excerpt
+ */
+export const findFlagTarget = async (targetType: FlagTargetType, targetId: string) =>
+  (await loadTargets(targetType, [targetId])).get(targetId) || null
+
+/**
+ * Attach the flagged posts to a page of flags
+ */
+export const attachFlagTargets = async <T extends Flag>(flags: T[]) => {
+  const idsOf = (targetType: FlagTargetType) =>
+    flags.filter(flag => flag.target_type === targetType).map(flag => flag.target_id)
+
+  const [questions, answers, comments] = await Promise.all([
+    loadTargets('question', idsOf('question')),
+    loadTargets('answer', idsOf('answer')),
+    loadTargets('comment', idsOf('comment'))
+  ])
+
+  const byType = { question: questions, answer: answers, comment: comments }
+
+  return flags.map(flag => ({
+    ...flag,
+    target: byType[flag.target_type].get(flag.target_id) || null
+  }))
+}
+
+/**
+ * Approve or dismiss a pending flag
+ * Approving removes the post (soft delete for questions and answers, comments are deleted)
+ * and settles every other pending flag on it; dismissing only settles this flag
+ */
+export const resolveFlag = async (
+  flagId: string,
+  decision: Exclude<FlagStatus, 'pending'>
+): Promise<{ flag: Flag | null; error: string | null; status: number }> => {
+  const moderator = await requireRole('moderator')
+
+  if (!moderator.profile) {
+    return { flag: null, error: moderator.error, status: moderator.status }
+  }
+
+  const { data: flag, error: flagError } = await supabaseAdmin
+    .from('flags')
+    .select('*')
+    .eq('id', flagId)
+    .single()
+
+  if (flagError || !flag) {
+    return { flag: null, error: 'Flag not found', status: 404 }
+  }
+
+  if (flag.status !== 'pending') {
+    return { flag: null, error: `This flag was already ${flag.status}`, status: 409 }
+  }
+
+  if (decision === 'approved') {
+    if (flag.target_type === 'comment') {
+      const { error } = await supabaseAdmin
+        .from('comments')
+        .delete()
+        .eq('id', flag.target_id)
+
+      if (error) {
+        return { flag: null, error: error.message, status: 500 }
+      }
+    } else {
+      const table = flag.target_type === 'question' ? 'questions' : 'answers'
+      const { error, status } = await setPostDeleted(table, flag.target_id, true)
+
+      // Already deleted (409) or gone (404) still lets the flag be settled
+      if (error && status !== 409 && status !== 404) {
+        return { flag: null, error, status }
+      }
+    }
+  }
+
+  let update = supabaseAdmin
+    .from('flags')
+    .update({
+      status: decision,
+      resolved_by: moderator.profile.id,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('status', 'pending')
+
+  update = decision === 'approved'
+    ? update.eq('target_type', flag.target_type).eq('target_id', flag.target_id)
+    : update.eq('id', flag.id)
+
+  const { error: updateError } = await update
+
+  if (updateError) {
+    return { flag: null, error: updateError.message, status: 500 }
+  }
+
+  await logModeratorAction({
+    moderatorId: moderator.profile.id,
+    action: decision === 'approved' ? 'flag_approved' : 'flag_dismissed',
+    targetType: 'flag',
+    targetId: flag.id,
+    questionId: flag.question_id,
+    note: `${flag.reason} flag on ${flag.target_type} ${flag.target_id}`
+  })
+
+  return {
+    flag: { ...flag, status: decision, resolved_by: moderator.profile.id },
+    error: null,
+    status: 200
+  }
+}
+
+type SuspensionResult = { profile: Profile | null; error: string | null; status: number }
+
+/**
+ * Load a user a moderator wants to suspend; staff cannot be suspended
+ */
+const findSuspendableUser = async (userId: string): Promise<SuspensionResult> => {
+  const { data: target } = await supabaseAdmin
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!target) {
+    return { profile: null, error: 'User not found', status: 404 }
+  }
+
+  if (target.role !== 'user') {
+    return { profile: null, error: 'Moderators and admins cannot be suspended', status: 403 }
+  }
+
+  return { profile: target, error: null, status: 200 }
+}
+
+/**
+ * Suspend a user for a number of days
+ * A suspension blocks posting, voting and commenting and is shown to the user;
+ * a shadow ban lets them carry on but hides their new posts from everyone else
+ */
+export const suspendUser = async (userId: string, form: SuspensionFormData): Promise<SuspensionResult> => {
+  const moderator = await requireRole('moderator')
+
+  if (!moderator.profile) {
+    return { profile: null, error: moderator.error, status: moderator.status }
+  }
+
+  const validationError = validateSuspensionInput(form)
+  if (validationError) {
+    return { profile: null, error: validationError, status: 400 }
+  }
+
+  const target = await findSuspendableUser(userId)
+
+  if (!target.profile) {
+    return target
+  }
+
+  let profile = target.profile
+  const reason = form.reason.trim()
+  const until = new Date(Date.now() + form.days * 24 * 60 * 60 * 1000).toISOString()
+
+  if (form.mode === 'suspend') {
+    const { data: updated, error } = await supabaseAdmin
+      .from('profiles')
+      .update({ suspended_until: until, suspension_reason: reason })
+      .eq('id', userId)
+      .select()
+      .single()
+
+    if (error) {
+      return { profile: null, error: error.message, status: 500 }
+    }
+
+    profile = updated
+  } else {
+    const { error } = await supabaseAdmin
+      .from('shadow_bans')
+      .upsert({ user_id: userId, reason, expires_at: until, created_by: moderator.profile.id })
+
+    if (error) {
+      return { profile: null, error: error.message, status: 500 }
+    }
+  }
+
+  await logModeratorAction({
+    moderatorId: moderator.profile.id,
+    action: form.mode === 'suspend' ? 'user_suspended' : 'user_shadow_banned',
+    targetType: 'user',
+    targetId: userId,
+    note: `${profile.username} for ${form.days} day${form.days === 1 ? '' : 's'}: ${reason}`
+  })
+
+  return { profile, error: null, status: 200 }
+}
+
+/**
+ * Lift a user's suspension and shadow ban
+ * Posts made during a shadow ban stay hidden
+ */
+export const liftSuspension = async (userId: string): Promise<SuspensionResult> => {
+  const moderator = await requireRole('moderator')
+
+  if (!moderator.profile) {
+    return { profile: null, error: moderator.error, status: moderator.status }
+  }
+
+  const target = await findSuspendableUser(userId)
+
+  if (!target.profile) {
+    return target
+  }
+
+  const [{ data: updated, error: profileError }, { error: shadowError }] = await Promise.all([
+    supabaseAdmin
+      .from('profiles')
+      .update({ suspended_until: null, suspension_reason: null })
+      .eq('id', userId)
+      .select()
+      .single(),
+    supabaseAdmin
+      .from('shadow_bans')
+      .delete()
+      .eq('user_id', userId)
+  ])
+
+  const error = profileError || shadowError
+  if (error || !updated) {
+    return { profile: null, error: error?.message || 'User not found', status: 500 }
+  }
+
+  await logModeratorAction({
+    moderatorId: moderator.profile.id,
+    action: 'user_unsuspended',
+    targetType: 'user',
+    targetId: userId,
+    note: updated.username
+  })
+
+  return { profile: updated, error: null, status: 200 }
+}
@@ -0,0 +1,134 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { NotificationInsert } from '@/types/database'
+
+/**
+ * Server-only notification helpers for SlackIt Q&A platform
+ * Failures are logged and swallowed: a missed notification must never fail the write that caused it
+ */
+
+export const NOTIFICATION_SELECT = `
+  *,
+  actor:profiles!actor_id(id, username, avatar_url),
+  question:questions!question_id(id, title),
+  badge:user_badges!badge_id(badge_slug, tag)
+`
+
+/**
+ * Match @username mentions that are not part of an email address
+ */
+const MENTION_PATTERN = /(^|[^\w@.])@([A-Za-z0-9_.-]{3,30})/g
+
+/**
+ * Extract the unique usernames mentioned in a piece of text
+ */
+export const extractMentions = (text: string): string[] => {
+  const usernames = new Set<string>()
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    // Trailing dots are sentence punctuation, not part of the username
+    usernames.add(match[2].replace(/\.+$/, ''))
+  }
+
+  return Array.from(usernames)
+}
+
+/**
+ * Insert notifications, skipping any addressed to the actor themselves
+ */
+export const createNotifications = async (notifications: NotificationInsert[]) => {
+  const rows = notifications.filter(notification => notification.user_id !== notification.actor_id)
+
+  if (rows.length === 0) return
+
+  const { error } = await supabaseAdmin
+    .from('notifications')
+    .insert(rows)
+
+  if (error) {
+    console.error('Notification creation error:', error)
+  }
+}
+
+/**
+ * Notify every user mentioned in the text, except the ones listed in excludeUserIds
+ * (e.g. the question author who already gets a "new answer" notification)
+ */
+export const notifyMentions = async ({
+  text,
+  actorId,
+  questionId,
+  answerId = null,
+  commentId = null,
+  excludeUserIds = []
+}: {
+  text: string
+  actorId: string
+  questionId: string
+  answerId?: string | null
+  commentId?: string | null
+  excludeUserIds?: string[]
+}) => {
+  const usernames = extractMentions(text)
+
+  if (usernames.length === 0) return
+
+  const { data: profiles, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, username')
+    .in('username', usernames)
+
+  if (error) {
+    console.error('Mention lookup error:', error)
+    return
+  }
+
+  await createNotifications(
+    (profiles || [])
+      .filter(profile => !excludeUserIds.includes(profile.id))
+      .map(profile => ({
+        user_id: profile.id,
+        actor_id: actorId,
+        type: 'mention' as const,
+        question_id: questionId,
+        answer_id: answerId,
+        comment_id: commentId
+      }))
+  )
+}
+
+/**
+ * Notify users watching any of a new question's tags
+ * Users who also ignore one of the tags are skipped
+ */
+export const notifyTagWatchers = async ({
+  questionId,
+  tags,
+  actorId
+}: {
+  questionId: string
+  tags: string[]
+  actorId: string
+}) => {
+  if (tags.length === 0) return
+
+  const { data: watchers, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, ignored_tags')
+    .overlaps('watched_tags', tags)
+
+  if (error) {
+    console.error('Tag watcher lookup error:', error)
+    return
+  }
+
+  await createNotifications(
+    (watchers || [])
+      .filter(watcher => !watcher.ignored_tags.some((tag: string) => tags.includes(tag)))
+      .map(watcher => ({
+        user_id: watcher.id,
+        actor_id: actorId,
+        type: 'watched_tag_question' as const,
+        question_id: questionId
+      }))
+  )
+}
@@ -0,0 +1,140 @@
+import { RESTORE_WINDOW_DAYS, PRIVILEGE_THRESHOLDS } from '@/lib/constants'
+import { QuestionStatus, UserRole } from '@/types/database'
+
+/**
+ * Permission helpers for SlackIt Q&A platform
+ * Pure functions so the API routes and the UI make the same decisions
+ */
+
+export interface Viewer {
+  id: string
+  role: UserRole
+  reputation: number
+}
+
+export type Privilege = keyof typeof PRIVILEGE_THRESHOLDS
+
+const PRIVILEGE_DESCRIPTIONS: Record<Privilege, string> = {
+  downvote: 'downvote',
+  close_vote: 'vote to close or reopen questions',
+  edit_others_posts: "edit other users' posts"
+}
+
+interface OwnedPost {
+  author_id: string
+  deleted_at?: string | null
+  deleted_by?: string | null
+}
+
+interface ShadowablePost {
+  author_id: string
+  is_shadowed: boolean
+}
+
+interface SuspendableUser {
+  suspended_until: string | null
+  suspension_reason: string | null
+}
+
+interface StatusPost {
+  status: QuestionStatus
+  deleted_at?: string | null
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2
+}
+
+/**
+ * Check whether a role includes another: admins can do everything moderators can
+ * Mirrored by public.has_role() in database/schema.sql for the RLS policies
+ */
+export const hasRole = (role: UserRole | null | undefined, required: UserRole) =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[required]
+
+/**
+ * Moderators and admins can act on other users' posts
+ */
+export const isModerator = (role?: UserRole | null) =>
+  hasRole(role, 'moderator')
+
+/**
+ * Only admins can grant and revoke roles
+ */
+export const isAdmin = (role?: UserRole | null) =>
+  hasRole(role, 'admin')
+
+/**
+ * Check whether a user has earned a reputation-gated privilege
+ */
+export const hasPrivilege = (viewer: Viewer | null, privilege: Privilege) =>
+  !!viewer && (isModerator(viewer.role) || viewer.reputation >= PRIVILEGE_THRESHOLDS[privilege])
+
+/**
+ * Explain which privilege is missing, for 403 responses and disabled buttons
+ */
+export const privilegeMessage = (privilege: Privilege) =>
+  `You need ${PRIVILEGE_THRESHOLDS[privilege]} reputation to ${PRIVILEGE_DESCRIPTIONS[privilege]}`
+
+/**
+ * Authors can edit their own posts; others need the edit privilege
+ */
+export const canEditPost = (post: OwnedPost, viewer: Viewer | null) =>
+  !!viewer && !post.deleted_at && (viewer.id === post.author_id || hasPrivilege(viewer, 'edit_others_posts'))
+
+/**
+ * Check whether a soft-deleted post is still inside the restore window
+ */
+export const isWithinRestoreWindow = (deletedAt: string, now: Date = new Date()) =>
+  now.getTime() - new Date(deletedAt).getTime() <= RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+
+/**
+ * Authors and moderators can delete a post
+ */
+export const canDeletePost = (post: OwnedPost, viewer: Viewer | null) =>
+  !!viewer && (viewer.id === post.author_id || isModerator(viewer.role))
+
+/**
+ * Authors and moderators can restore a deleted post within the restore window
+ * A post removed by someone else (a moderator, or an approved flag) can only be restored by a moderator
+ */
+export const canRestorePost = (post: OwnedPost, viewer: Viewer | null) =>
+  !!post.deleted_at
+  && isWithinRestoreWindow(post.deleted_at)
+  && !!viewer
+  && (isModerator(viewer.role) || (viewer.id === post.author_id && (!post.deleted_by || post.deleted_by === post.author_id)))
+
+/**
+ * Only open questions take new answers
+ */
+export const isQuestionOpen = (question: StatusPost) =>
+  question.status === 'open'
+
+/**
+ * Users with the close vote privilege (and moderators) can vote to close an open question
+ * or reopen a closed one
+ */
+export const canVoteOnStatus = (question: StatusPost, viewer: Viewer | null) =>
+  !question.deleted_at && hasPrivilege(viewer, 'close_vote')
+
+/**
+ * Shadowed posts are visible only to their author and to moderators
+ */
+export const canSeePost = (post: ShadowablePost, viewer: Viewer | null) =>
+  !post.is_shadowed || (!!viewer && (viewer.id === post.author_id || isModerator(viewer.role)))
+
+/**
+ * Suspended users cannot post, vote or comment until their suspension ends
+ */
+export const isSuspended = (user: SuspendableUser | null, now: Date = new Date()) =>
+  !!user?.suspended_until && new Date(user.suspended_until).getTime() > now.getTime()
+
+/**
+ * Explain a suspension, for 403 responses and the banner shown to the suspended user
+ */
+export const suspensionMessage = (user: SuspendableUser) => {
+  const until = new Date(user.suspended_until!).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+  return `Your account is suspended until ${until}${user.suspension_reason ? `: ${user.suspension_reason}` : ''}`
+}
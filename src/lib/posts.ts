@@ -0,0 +1,173 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireWriteAccess } from '@/lib/auth'
+import { canDeletePost, canRestorePost, canSeePost, isModerator, isWithinRestoreWindow, Viewer } from '@/lib/permissions'
+import { logModeratorAction } from '@/lib/moderation-log'
+import { RESTORE_WINDOW_DAYS } from '@/lib/constants'
+import { Question, Answer } from '@/types/database'
+
+/**
+ * Server-only helpers shared by question and answer routes
+ */
+
+type PostTable = 'questions' | 'answers'
+
+/**
+ * PostgREST filter (for .or()) that hides shadowed posts from a viewer
+ * Authors still see their own; moderators see everything, so there is no filter (null)
+ */
+export const visiblePostsFilter = (viewer: Viewer | null) =>
+  isModerator(viewer?.role) ? null : `is_shadowed.eq.false${viewer ? `,author_id.eq.${viewer.id}` : ''}`
+
+/**
+ * Whether the viewer may see a post: deleted and shadowed posts are only shown to their
+ * author and moderators, as on the question page
+ */
+const isPostVisible = (
+  post: { author_id: string; deleted_at: string | null; is_shadowed: boolean },
+  viewer: Viewer | null
+) => (!post.deleted_at || canDeletePost(post, viewer)) && canSeePost(post, viewer)
+
+/**
+ * Find a question, or an answer together with its question, if the viewer may see it
+ * A hidden post is reported as not found so its existence isn't given away; deleted is set
+ * when the post (or the question an answer belongs to) is deleted
+ */
+export const findVisiblePost = async (
+  table: PostTable,
+  id: string,
+  viewer: Viewer | null
+): Promise<{
+  post: { question_id: string; deleted: boolean } | null
+  error: string | null
+  status: number
+}> => {
+  const label = table === 'questions' ? 'Question' : 'Answer'
+
+  let questionId = id
+  let answerDeleted = false
+
+  if (table === 'answers') {
+    const { data: answer, error: answerError } = await supabaseAdmin
+      .from('answers')
+      .select('question_id, author_id, deleted_at, is_shadowed')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (answerError) {
+      return { post: null, error: answerError.message, status: 500 }
+    }
+
+    if (!answer || !isPostVisible(answer, viewer)) {
+      return { post: null, error: `${label} not found`, status: 404 }
+    }
+
+    questionId = answer.question_id
+    answerDeleted = !!answer.deleted_at
+  }
+
+  const { data: question, error: questionError } = await supabaseAdmin
+    .from('questions')
+    .select('author_id, deleted_at, is_shadowed')
+    .eq('id', questionId)
+    .maybeSingle()
+
+  if (questionError) {
+    return { post: null, error: questionError.message, status: 500 }
+  }
+
+  if (!question || !isPostVisible(question, viewer)) {
+    return { post: null, error: `${label} not found`, status: 404 }
+  }
+
+  return {
+    post: { question_id: questionId, deleted: answerDeleted || !!question.deleted_at },
+    error: null,
+    status: 200
+  }
+}
+
+/**
+ * Soft-delete or restore a question or answer
+ * Authors and moderators may delete; restoring is limited to the restore window, and a post
+ * someone else removed can only be restored by a moderator. Suspended users can do neither
+ * Rows are never removed, so answers, votes and comments survive a restore
+ */
+export const setPostDeleted = async <T extends PostTable>(
+  table: T,
+  id: string,
+  deleted: boolean
+): Promise<{
+  post: (T extends 'questions' ? Question : Answer) | null
+  error: string | null
+  status: number
+}> => {
+  const label = table === 'questions' ? 'Question' : 'Answer'
+  const { profile, error: authError, status: authStatus } = await requireWriteAccess()
+
+  if (!profile) {
+    return { post: null, error: authError, status: authStatus }
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from(table)
+    .select('id, author_id, deleted_at, deleted_by')
+    .eq('id', id)
+    .single()
+
+  if (existingError || !existing) {
+    return { post: null, error: `${label} not found`, status: 404 }
+  }
+
+  if (!canDeletePost(existing, profile)) {
+    return { post: null, error: `You can only ${deleted ? 'delete' : 'restore'} your own posts`, status: 403 }
+  }
+
+  if (deleted && existing.deleted_at) {
+    return { post: null, error: `${label} is already deleted`, status: 409 }
+  }
+
+  if (!deleted) {
+    if (!existing.deleted_at) {
+      return { post: null, error: `${label} is not deleted`, status: 409 }
+    }
+
+    if (!isWithinRestoreWindow(existing.deleted_at)) {
+      return {
+        post: null,
+        error: `Posts can only be restored within ${RESTORE_WINDOW_DAYS} days of being deleted`,
+        status: 403
+      }
+    }
+
+    if (!canRestorePost(existing, profile)) {
+      return { post: null, error: 'Only a moderator can restore a post a moderator removed', status: 403 }
+    }
+  }
+
+  const { data: post, error } = await supabaseAdmin
+    .from(table)
+    .update({
+      deleted_at: deleted ? new Date().toISOString() : null,
+      deleted_by: deleted ? profile.id : null
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    return { post: null, error: error.message, status: 500 }
+  }
+
+  // Acting on someone else's post is a moderator action
+  if (existing.author_id !== profile.id) {
+    await logModeratorAction({
+      moderatorId: profile.id,
+      action: deleted ? 'post_deleted' : 'post_restored',
+      targetType: table === 'questions' ? 'question' : 'answer',
+      targetId: id,
+      questionId: 'question_id' in post ? post.question_id : post.id
+    })
+  }
+
+  return { post: post as T extends 'questions' ? Question : Answer, error: null, status: 200 }
+}
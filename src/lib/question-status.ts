@@ -0,0 +1,266 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { requireWriteAccess } from '@/lib/auth'
+import { canVoteOnStatus, isModerator, isQuestionOpen, privilegeMessage } from '@/lib/permissions'
+import { logModeratorAction } from '@/lib/moderation-log'
+import { CLOSE_VOTES_REQUIRED, CLOSE_VOTE_REASONS } from '@/lib/constants'
+import {
+  CloseReason,
+  CloseVoteReason,
+  Question,
+  QuestionStatusVote,
+  StatusVoteFormData,
+  StatusVoteKind,
+  StatusVoteSummary
+} from '@/types/database'
+
+/**
+ * Server-only helpers for closing, reopening and marking questions as duplicates
+ */
+
+type StatusVoteResult = {
+  question: Question | null
+  status_votes: StatusVoteSummary | null
+  error: string | null
+  status: number
+}
+
+const failure = (error: string, status: number): StatusVoteResult =>
+  ({ question: null, status_votes: null, error, status })
+
+/**
+ * Count the close and reopen votes in the current round
+ */
+export const getStatusVoteSummary = async (questionId: string, userId?: string | null): Promise<StatusVoteSummary> => {
+  const { data: votes, error } = await supabaseAdmin
+    .from('question_status_votes')
+    .select('user_id, kind')
+    .eq('question_id', questionId)
+
+  if (error) {
+    console.error('Status votes fetch error:', error)
+  }
+
+  const rows = votes || []
+
+  return {
+    close_votes: rows.filter(vote => vote.kind === 'close').length,
+    reopen_votes: rows.filter(vote => vote.kind === 'reopen').length,
+    user_vote: rows.find(vote => vote.user_id === userId)?.kind || null
+  }
+}
+
+/**
+ * Pick the most common value, earliest vote first on a tie
+ */
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1))
+  return values.reduce((best, value) => (counts.get(value)! > counts.get(best)! ? value : best), values[0])
+}
+
+/**
+ * Work out how a question closes from the votes that closed it:
+ * the most common reason wins, and a duplicate points at the most voted canonical question
+ */
+const closeOutcome = (votes: Pick<QuestionStatusVote, 'reason' | 'duplicate_of'>[]) => {
+  const reason = mostCommon(votes.map(vote => vote.reason as CloseVoteReason))
+
+  if (reason === 'duplicate') {
+    const duplicateOf = mostCommon(votes.flatMap(vote => (vote.duplicate_of ? [vote.duplicate_of] : [])))
+    return { status: 'duplicate' as const, close_reason: null, duplicate_of: duplicateOf }
+  }
+
+  return { status: 'closed' as const, close_reason: reason as CloseReason, duplicate_of: null }
+}
+
+/**
+ * Check a close vote's reason and resolve its canonical question
+ * Pointing at a question that is itself a duplicate follows it to its canonical question
+ */
+const validateCloseVote = async (
+  questionId: string,
+  form: StatusVoteFormData
+): Promise<{ reason: CloseVoteReason; duplicateOf: string | null } | { error: string }> => {
+  if (!form.reason || !Object.hasOwn(CLOSE_VOTE_REASONS, form.reason)) {
+    return { error: 'Choose a reason for closing this question' }
+  }
+
+  if (form.reason !== 'duplicate') {
+    return { reason: form.reason, duplicateOf: null }
+  }
+
+  if (!form.duplicate_of) {
+    return { error: 'Choose the question this one duplicates' }
+  }
+
+  const { data: target } = await supabaseAdmin
+    .from('questions')
+    .select('id, status, duplicate_of, deleted_at')
+    .eq('id', form.duplicate_of)
+    .maybeSingle()
+
+  if (!target || target.deleted_at) {
+    return { error: 'The original question was not found' }
+  }
+
+  const duplicateOf = target.status === 'duplicate' && target.duplicate_of ? target.duplicate_of : target.id
+
+  if (duplicateOf === questionId) {
+    return { error: 'A question cannot be a duplicate of itself' }
+  }
+
+  return { reason: 'duplicate', duplicateOf }
+}
+
+/**
+ * Vote to close or reopen a question
+ * CLOSE_VOTES_REQUIRED community votes change the status; a moderator's vote does it at once.
+ * Once the status changes, the round's votes are cleared
+ */
+export const castStatusVote = async (
+  questionId: string,
+  kind: StatusVoteKind,
+  form: StatusVoteFormData = {}
+): Promise<StatusVoteResult> => {
+  const { profile, error: authError, status: authStatus } = await requireWriteAccess()
+
+  if (!profile) {
+    return failure(authError, authStatus)
+  }
+
+  const { data: question, error: questionError } = await supabaseAdmin
+    .from('questions')
+    .select('*')
+    .eq('id', questionId)
+    .single()
+
+  if (questionError || !question || question.deleted_at) {
+    return failure('Question not found', 404)
+  }
+
+  if (!canVoteOnStatus(question, profile)) {
+    return failure(privilegeMessage('close_vote'), 403)
+  }
+
+  if (kind === 'close' && !isQuestionOpen(question)) {
+    return failure('This question is already closed', 409)
+  }
+
+  if (kind === 'reopen' && isQuestionOpen(question)) {
+    return failure('This question is not closed', 409)
+  }
+
+  let closeVote: { reason: CloseVoteReason; duplicateOf: string | null } | null = null
+
+  if (kind === 'close') {
+    const checked = await validateCloseVote(questionId, form)
+    if ('error' in checked) {
+      return failure(checked.error, 400)
+    }
+    closeVote = checked
+  }
+
+  const isBinding = isModerator(profile.role)
+
+  if (!isBinding) {
+    const { error: voteError } = await supabaseAdmin
+      .from('question_status_votes')
+      .insert({
+        question_id: questionId,
+        user_id: profile.id,
+        kind,
+        reason: closeVote?.reason ?? null,
+        duplicate_of: closeVote?.duplicateOf ?? null
+      })
+
+    if (voteError) {
+      // 23505: unique_violation on (question_id, user_id, kind)
+      return voteError.code === '23505'
+        ? failure(`You have already voted to ${kind} this question`, 409)
+        : failure(voteError.message, 500)
+    }
+  }
+
+  const { data: votes, error: votesError } = await supabaseAdmin
+    .from('question_status_votes')
+    .select('reason, duplicate_of')
+    .eq('question_id', questionId)
+    .eq('kind', kind)
+    .order('created_at', { ascending: true })
+
+  if (votesError) {
+    return failure(votesError.message, 500)
+  }
+
+  const roundVotes = votes || []
+
+  if (!isBinding && roundVotes.length < CLOSE_VOTES_REQUIRED) {
+    return {
+      question,
+      status_votes: await getStatusVoteSummary(questionId, profile.id),
+      error: null,
+      status: 200
+    }
+  }
+
+  let changes: Pick<Question, 'status' | 'close_reason' | 'duplicate_of' | 'closed_at' | 'closed_by'>
+
+  if (kind === 'reopen') {
+    changes = { status: 'open', close_reason: null, duplicate_of: null, closed_at: null, closed_by: null }
+  } else {
+    // A moderator's own choice decides; otherwise the voters' most common reason does
+    const outcome = isBinding && closeVote
+      ? closeOutcome([{ reason: closeVote.reason, duplicate_of: closeVote.duplicateOf }])
+      : closeOutcome(roundVotes)
+
+    changes = {
+      ...outcome,
+      closed_at: new Date().toISOString(),
+      closed_by: isBinding ? profile.id : null
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('questions')
+    .update(changes)
+    .eq('id', questionId)
+    .select()
+    .single()
+
+  if (updateError) {
+    return failure(updateError.message, 500)
+  }
+
+  const { error: clearError } = await supabaseAdmin
+    .from('question_status_votes')
+    .delete()
+    .eq('question_id', questionId)
+
+  if (clearError) {
+    console.error('Status votes clear error:', clearError)
+  }
+
+  if (isBinding) {
+    await logModeratorAction({
+      moderatorId: profile.id,
+      action: kind === 'close' ? 'question_closed' : 'question_reopened',
+      targetType: 'question',
+      targetId: questionId,
+      questionId,
+      note: updated.status === 'duplicate' ? `duplicate of ${updated.duplicate_of}` : updated.close_reason
+    })
+  }
+
+  console.log('Question status changed:', {
+    questionId,
+    status: updated.status,
+    byModerator: isBinding
+  })
+
+  return {
+    question: updated,
+    status_votes: await getStatusVoteSummary(questionId, profile.id),
+    error: null,
+    status: 200
+  }
+}
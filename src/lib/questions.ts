@@ -0,0 +1,215 @@
+import { cache } from 'react'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { getSession } from '@/lib/auth'
+import { COMMENT_SELECT } from '@/lib/comments'
+import { getStatusVoteSummary } from '@/lib/question-status'
+import { canDeletePost, canSeePost, Viewer } from '@/lib/permissions'
+import { SIMILAR_QUESTIONS_LIMIT, SIMILAR_QUESTIONS_MIN_TITLE_LENGTH } from '@/lib/constants'
+import { AnswerWithAuthor, CommentWithAuthor, QuestionWithAnswers, SimilarQuestion, SimilarQuestionMatch } from '@/types/database'
+
+/**
+ * Server-only question helpers for SlackIt Q&A platform
+ */
+
+/**
+ * Find existing questions that may duplicate a draft, best match first
+ * Used for the hints on the Ask page and to check new questions before they are created
+ * A failed lookup returns no matches: missing a hint is better than blocking a question
+ */
+export const findSimilarQuestions = async (
+  title: string,
+  tags: string[] = [],
+  limit: number = SIMILAR_QUESTIONS_LIMIT
+): Promise<SimilarQuestion[]> => {
+  const trimmed = title.trim()
+
+  if (trimmed.length < SIMILAR_QUESTIONS_MIN_TITLE_LENGTH) return []
+
+  const { data, error: matchError } = await supabaseAdmin.rpc('similar_questions', {
+    p_title: trimmed,
+    p_tags: tags,
+    p_limit: limit
+  })
+
+  if (matchError) {
+    console.error('Similar questions lookup error:', matchError)
+    return []
+  }
+
+  const matches = (data || []) as SimilarQuestionMatch[]
+
+  if (matches.length === 0) return []
+
+  const { data: questions, error: questionsError } = await supabaseAdmin
+    .from('questions')
+    .select('id, title, tags, votes, answer_count, has_accepted_answer, created_at')
+    .in('id', matches.map(match => match.id))
+
+  if (questionsError) {
+    console.error('Similar questions fetch error:', questionsError)
+    return []
+  }
+
+  const questionsById = new Map((questions || []).map(question => [question.id, question]))
+
+  // Keep the ranking from similar_questions
+  return matches.flatMap(match => {
+    const question = questionsById.get(match.id)
+    if (!question) return []
+
+    return [{
+      ...question,
+      similarity: match.similarity,
+      shared_tags: match.shared_tags
+    }]
+  })
+}
+
+/**
+ * Load a question with its answers and comments as the given viewer may see it
+ * Deleted posts are only returned in full to their author and moderators;
+ * deleted answers that were voted on are replaced by a tombstone for everyone else.
+ * Shadowed posts are left out entirely for everyone but their author and moderators
+ */
+export const getQuestionDetail = async (
+  questionId: string,
+  viewer: Viewer | null
+): Promise<
+  | { question: QuestionWithAnswers; error: null; status: 200 }
+  | { question: null; error: string; status: 404 | 500 }
+> => {
+  // First, get the question with author
+  const { data: question, error: questionError } = await supabaseAdmin
+    .from('questions')
+    .select(`
+      *,
+      author:profiles!author_id(id, username, avatar_url, reputation)
+    `)
+    .eq('id', questionId)
+    .maybeSingle()
+
+  if (questionError) {
+    console.error('Question fetch error:', questionError)
+    return { question: null, error: questionError.message, status: 500 }
+  }
+
+  if (!question || (question.deleted_at && !canDeletePost(question, viewer)) || !canSeePost(question, viewer)) {
+    return { question: null, error: 'Question not found', status: 404 }
+  }
+
+  // Get answers for this question
+  const { data: answers, error: answersError } = await supabaseAdmin
+    .from('answers')
+    .select(`
+      *,
+      author:profiles!author_id(id, username, avatar_url, reputation)
+    `)
+    .eq('question_id', questionId)
+    .order('created_at', { ascending: false })
+
+  if (answersError) {
+    console.error('Answers fetch error:', answersError)
+    return { question: null, error: answersError.message, status: 500 }
+  }
+
+  // Deleted answers that were voted on leave a tombstone so the vote history still makes sense
+  const hiddenAnswerIds = (answers || [])
+    .filter(answer => answer.deleted_at && !canDeletePost(answer, viewer))
+    .map(answer => answer.id)
+
+  let votedAnswerIds = new Set<string>()
+
+  if (hiddenAnswerIds.length > 0) {
+    const { data: votes, error: votesError } = await supabaseAdmin
+      .from('votes')
+      .select('target_id')
+      .eq('target_type', 'answer')
+      .in('target_id', hiddenAnswerIds)
+
+    if (votesError) {
+      console.error('Deleted answer votes fetch error:', votesError)
+    }
+
+    votedAnswerIds = new Set((votes || []).map(vote => vote.target_id))
+  }
+
+  const visibleAnswers: AnswerWithAuthor[] = (answers || []).flatMap(answer => {
+    if (!canSeePost(answer, viewer)) {
+      return []
+    }
+
+    if (!hiddenAnswerIds.includes(answer.id)) {
+      return [answer]
+    }
+
+    return votedAnswerIds.has(answer.id)
+      ? [{ ...answer, content: '', is_tombstone: true }]
+      : []
+  })
+
+  // Get answer count
+  const { count: answerCount, error: countError } = await supabaseAdmin
+    .from('answers')
+    .select('*', { count: 'exact', head: true })
+    .eq('question_id', questionId)
+    .is('deleted_at', null)
+    .eq('is_shadowed', false)
+
+  if (countError) {
+    console.error('Answer count error:', countError)
+  }
+
+  // Get all comments on the question and its answers in one query
+  const { data: comments, error: commentsError } = await supabaseAdmin
+    .from('comments')
+    .select(COMMENT_SELECT)
+    .eq('question_id', questionId)
+    .order('created_at', { ascending: true })
+    .returns<CommentWithAuthor[]>()
+
+  if (commentsError) {
+    console.error('Comments fetch error:', commentsError)
+  }
+
+  // Closed as a duplicate: link to the canonical question
+  let duplicateQuestion = null
+
+  if (question.duplicate_of) {
+    const { data: canonical } = await supabaseAdmin
+      .from('questions')
+      .select('id, title')
+      .eq('id', question.duplicate_of)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    duplicateQuestion = canonical
+  }
+
+  const statusVotes = await getStatusVoteSummary(questionId, viewer?.id)
+
+  const commentsFor = (answerId: string | null) =>
+    (comments || []).filter(comment => comment.answer_id === answerId)
+
+  // Combine the data
+  const questionWithAnswers: QuestionWithAnswers = {
+    ...question,
+    answers: visibleAnswers.map(answer => ({
+      ...answer,
+      comments: answer.is_tombstone ? [] : commentsFor(answer.id)
+    })),
+    comments: commentsFor(null),
+    answer_count: answerCount || 0,
+    duplicate_question: duplicateQuestion,
+    status_votes: statusVotes
+  }
+
+  return { question: questionWithAnswers, error: null, status: 200 }
+}
+
+/**
+ * The question for a server-rendered page, as the signed-in user may see it
+ * Cached for the request, so generateMetadata and the page share one lookup
+ */
+export const getQuestionForPage = cache(async (questionId: string) =>
+  getQuestionDetail(questionId, await getSession())
+)
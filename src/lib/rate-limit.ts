@@ -0,0 +1,183 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { isModerator, Viewer } from '@/lib/permissions'
+import { RATE_LIMITS, RATE_LIMIT_TIER_THRESHOLDS } from '@/lib/constants'
+import { RateLimitAction, ReputationTier } from '@/types/database'
+
+/**
+ * Server-only rate limiting for write routes
+ * Each action is counted in fixed windows per user and per IP address. The counts live in
+ * a pluggable store: in memory for development, in Postgres when several server instances
+ * have to share them (production, or RATE_LIMIT_STORE=postgres)
+ */
+
+export interface RateLimitStore {
+  /** Count one hit against the key and return the hits so far in its window */
+  hit: (key: string, windowSeconds: number) => Promise<{ hits: number; resetAt: number }>
+}
+
+const ACTION_DESCRIPTIONS: Record<RateLimitAction, string> = {
+  question: 'asking questions',
+  question_check: 'submitting questions',
+  answer: 'posting answers',
+  vote: 'voting',
+  upload: 'uploading images'
+}
+
+// Expired windows are swept once the memory store grows past this many keys
+const MEMORY_STORE_SWEEP_SIZE = 10000
+
+/**
+ * Keep counts in this server process; they reset on restart and aren't shared between instances
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const windows = new Map<string, { hits: number; resetAt: number }>()
+
+  return {
+    hit: async (key, windowSeconds) => {
+      const now = Date.now()
+
+      if (windows.size > MEMORY_STORE_SWEEP_SIZE) {
+        windows.forEach((window, windowKey) => {
+          if (window.resetAt <= now) windows.delete(windowKey)
+        })
+      }
+
+      const current = windows.get(key)
+      const window = current && current.resetAt > now
+        ? { hits: current.hits + 1, resetAt: current.resetAt }
+        : { hits: 1, resetAt: now + windowSeconds * 1000 }
+
+      windows.set(key, window)
+      return window
+    }
+  }
+}
+
+/**
+ * Keep counts in the rate_limits table through hit_rate_limit()
+ */
+export const createPostgresStore = (): RateLimitStore => ({
+  hit: async (key, windowSeconds) => {
+    const { data, error } = await supabaseAdmin.rpc('hit_rate_limit', {
+      p_key: key,
+      p_window_seconds: windowSeconds
+    })
+
+    if (error || !data?.[0]) {
+      throw new Error(error?.message || 'hit_rate_limit returned no row')
+    }
+
+    return { hits: data[0].hits, resetAt: new Date(data[0].reset_at).getTime() }
+  }
+})
+
+let store: RateLimitStore | null = null
+
+const getStore = () => {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory')
+    store = kind === 'postgres' ? createPostgresStore() : createMemoryStore()
+  }
+  return store
+}
+
+/**
+ * Swap the store, e.g. for one backed by Redis
+ */
+export const setRateLimitStore = (custom: RateLimitStore) => {
+  store = custom
+}
+
+/**
+ * The user's rate limit tier, from their reputation
+ */
+export const reputationTier = (user: Viewer): ReputationTier => {
+  if (isModerator(user.role) || user.reputation >= RATE_LIMIT_TIER_THRESHOLDS.trusted) return 'trusted'
+  if (user.reputation >= RATE_LIMIT_TIER_THRESHOLDS.established) return 'established'
+  return 'new'
+}
+
+/**
+ * The caller's address as reported by the proxy in front of the app
+ * Clients can send their own X-Forwarded-For, so only the hop the proxy appended (the last one) is trusted
+ */
+const clientIp = (request: Request) =>
+  request.headers.get('x-real-ip')?.trim()
+  || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  || 'unknown'
+
+/**
+ * Say how long to wait in words: "40 seconds", "3 minutes", "1 hour"
+ */
+const describeWait = (seconds: number) => {
+  const [amount, unit] = seconds < 60
+    ? [seconds, 'second']
+    : seconds < 60 * 60
+      ? [Math.ceil(seconds / 60), 'minute']
+      : [Math.ceil(seconds / (60 * 60)), 'hour']
+
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`
+}
+
+/**
+ * Check whether this is the first time the viewer does something within the window,
+ * e.g. viewing a question; signed-in viewers are told apart by user, others by IP address.
+ * If the store is unreachable it counts as the first time
+ */
+export const isFirstInWindow = async (
+  request: Request,
+  key: string,
+  windowSeconds: number,
+  user: Viewer | null
+) => {
+  try {
+    const viewer = user ? `user:${user.id}` : `ip:${clientIp(request)}`
+    const { hits } = await getStore().hit(`${key}:${viewer}`, windowSeconds)
+    return hits === 1
+  } catch (error) {
+    console.error('Rate limit store error:', error)
+    return true
+  }
+}
+
+/**
+ * Count a write against the user's and their IP's budgets for the action
+ * Returns the error and the seconds to wait (for a 429 with Retry-After) once either is spent.
+ * If the store is unreachable the write is allowed, so an outage doesn't block all posting
+ */
+export const checkRateLimit = async (
+  request: Request,
+  action: RateLimitAction,
+  user: Viewer
+): Promise<{ error: string; retryAfter: number } | { error: null; retryAfter: null }> => {
+  const budget = RATE_LIMITS[action]
+
+  try {
+    const [byUser, byIp] = await Promise.all([
+      getStore().hit(`${action}:user:${user.id}`, budget.windowSeconds),
+      getStore().hit(`${action}:ip:${clientIp(request)}`, budget.windowSeconds)
+    ])
+
+    const spent = [
+      byUser.hits > budget.perUser[reputationTier(user)] ? byUser : null,
+      byIp.hits > budget.perIp ? byIp : null
+    ].flatMap(window => (window ? [window] : []))
+
+    if (spent.length === 0) {
+      return { error: null, retryAfter: null }
+    }
+
+    const resetAt = Math.max(...spent.map(window => window.resetAt))
+    const retryAfter = Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1)
+
+    console.log('Rate limit reached:', { action, userId: user.id, retryAfter })
+
+    return {
+      error: `You are ${ACTION_DESCRIPTIONS[action]} too quickly. Try again in ${describeWait(retryAfter)}.`,
+      retryAfter
+    }
+  } catch (error) {
+    console.error('Rate limit store error:', error)
+    return { error: null, retryAfter: null }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Search query helpers for SlackIt Q&A platform
+ * Pure functions shared by the search API route and the UI
+ */
+
+export interface ParsedSearchQuery {
+  /** Free text passed to Postgres web-search parsing (quotes, OR and -word still work) */
+  text: string
+  /** [tag] - questions must have every listed tag */
+  tags: string[]
+  /** user:name - questions asked by this username */
+  author: string | null
+  /** is:answered / is:unanswered */
+  isAnswered: boolean | null
+  /** score:>5, score:>=5, score:<0, score:=3 - inclusive vote bounds */
+  minScore: number | null
+  maxScore: number | null
+}
+
+// [tag] | operator:"quoted value" | operator:value | "quoted phrase" | word
+const TOKEN_PATTERN = /\[([^\]]+)\]|(user|is|score):("[^"]*"|\S+)|"[^"]*"|\S+/gi
+
+const SCORE_PATTERN = /^(>=|<=|>|<|=)?(-?\d+)$/
+
+// Score bounds are passed to Postgres as INTEGER
+const MIN_SCORE = -2147483648
+const MAX_SCORE = 2147483647
+
+/**
+ * Split a search box query into free text and structured filters
+ * Operators that can't be understood are kept as plain search text
+ */
+export const parseSearchQuery = (raw: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    tags: [],
+    author: null,
+    isAnswered: null,
+    minScore: null,
+    maxScore: null
+  }
+
+  const words: string[] = []
+
+  for (const match of raw.matchAll(TOKEN_PATTERN)) {
+    const [token, tag, operator, rawValue] = match
+
+    if (tag !== undefined) {
+      const name = tag.trim().toLowerCase()
+      if (name && !parsed.tags.includes(name)) {
+        parsed.tags.push(name)
+      }
+      continue
+    }
+
+    if (operator !== undefined && applyOperator(parsed, operator.toLowerCase(), rawValue.replace(/^"|"$/g, ''))) {
+      continue
+    }
+
+    words.push(token)
+  }
+
+  parsed.text = words.join(' ').trim()
+  return parsed
+}
+
+/**
+ * Apply one operator:value token, returning false if it isn't a valid operator
+ */
+const applyOperator = (parsed: ParsedSearchQuery, operator: string, value: string) => {
+  switch (operator) {
+    case 'user':
+      if (!value) return false
+      parsed.author = value
+      return true
+
+    case 'is':
+      if (value.toLowerCase() === 'answered') {
+        parsed.isAnswered = true
+        return true
+      }
+      if (value.toLowerCase() === 'unanswered') {
+        parsed.isAnswered = false
+        return true
+      }
+      return false
+
+    case 'score': {
+      const scoreMatch = SCORE_PATTERN.exec(value)
+      if (!scoreMatch) return false
+
+      const comparison = scoreMatch[1] || '>='
+      const score = parseInt(scoreMatch[2], 10)
+        + (comparison === '>' ? 1 : 0)
+        - (comparison === '<' ? 1 : 0)
+
+      // A bound no vote count can reach is treated as plain search text
+      if (score < MIN_SCORE || score > MAX_SCORE) return false
+
+      if (comparison === '>' || comparison === '>=') parsed.minScore = score
+      if (comparison === '<' || comparison === '<=') parsed.maxScore = score
+      if (comparison === '=') {
+        parsed.minScore = score
+        parsed.maxScore = score
+      }
+      return true
+    }
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Check whether a parsed query has anything to search for
+ */
+export const isEmptySearch = (parsed: ParsedSearchQuery) =>
+  !parsed.text &&
+  parsed.tags.length === 0 &&
+  parsed.author === null &&
+  parsed.isAnswered === null &&
+  parsed.minScore === null &&
+  parsed.maxScore === null
+
+/**
+ * Split a highlighted string into plain and matched segments
+ * Rendering segments as text (instead of HTML) keeps user content escaped
+ */
+export const splitHighlights = (highlighted: string): { text: string; isMatch: boolean }[] =>
+  highlighted
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), isMatch: true }
+      : { text: part, isMatch: false })
@@ -0,0 +1,167 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { questionPath, siteUrl } from '@/lib/urls'
+import { escapeXml } from '@/lib/xml'
+
+/**
+ * Server-only sitemap for SlackIt Q&A platform
+ * Lists the home and tags pages, every tag in use and every public question. The URLs are
+ * numbered in that order and split into sitemaps of at most SITEMAP_MAX_URLS, the limit
+ * search engines accept; /sitemap.xml is the only sitemap until there are more than that,
+ * then it becomes an index of /sitemap/1.xml, /sitemap/2.xml and so on
+ */
+
+export const SITEMAP_MAX_URLS = 50000
+
+// Rows per query; Supabase returns at most 1000 at a time
+const QUERY_PAGE_SIZE = 1000
+
+const STATIC_PATHS = ['/', '/tags']
+
+interface SitemapUrl {
+  path: string
+  lastmod?: string
+}
+
+export interface SitemapCounts {
+  tags: number
+  questions: number
+  total: number
+}
+
+/**
+ * Count the URLs across all sitemaps
+ */
+export const countSitemapUrls = async (): Promise<SitemapCounts> => {
+  const [tags, questions] = await Promise.all([
+    supabaseAdmin
+      .from('tags')
+      .select('*', { count: 'exact', head: true })
+      .gt('usage_count', 0),
+    supabaseAdmin
+      .from('questions')
+      .select('*', { count: 'exact', head: true })
+      .is('deleted_at', null)
+      .eq('is_shadowed', false)
+  ])
+
+  if (tags.error || questions.error) {
+    throw new Error(tags.error?.message || questions.error?.message)
+  }
+
+  return {
+    tags: tags.count || 0,
+    questions: questions.count || 0,
+    total: STATIC_PATHS.length + (tags.count || 0) + (questions.count || 0)
+  }
+}
+
+/**
+ * Load rows offset..offset+limit of a query in pages Supabase will return whole
+ */
+const loadRange = async <T>(
+  limit: number,
+  offset: number,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = []
+
+  for (let from = offset; from < offset + limit; from += QUERY_PAGE_SIZE) {
+    const to = Math.min(from + QUERY_PAGE_SIZE, offset + limit) - 1
+    const { data, error } = await fetchPage(from, to)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < to - from + 1) break
+  }
+
+  return rows
+}
+
+/**
+ * The number of sitemaps needed for all the URLs
+ */
+export const sitemapCount = (counts: SitemapCounts) => Math.ceil(counts.total / SITEMAP_MAX_URLS)
+
+/**
+ * The URLs of one sitemap, numbered from 1
+ */
+export const getSitemapUrls = async (sitemap: number, counts: SitemapCounts): Promise<SitemapUrl[]> => {
+  let offset = (sitemap - 1) * SITEMAP_MAX_URLS
+  let remaining = SITEMAP_MAX_URLS
+  const urls: SitemapUrl[] = []
+
+  // Take what falls in this sitemap from each source in turn, moving the offset past each one
+  const staticUrls = STATIC_PATHS.slice(offset, offset + remaining).map(path => ({ path }))
+  urls.push(...staticUrls)
+  remaining -= staticUrls.length
+  offset = Math.max(offset - STATIC_PATHS.length, 0)
+
+  if (remaining > 0 && offset < counts.tags) {
+    const tags = await loadRange(Math.min(remaining, counts.tags - offset), offset, (from, to) =>
+      supabaseAdmin
+        .from('tags')
+        .select('name, updated_at')
+        .gt('usage_count', 0)
+        .order('name')
+        .range(from, to)
+    )
+
+    urls.push(...tags.map(tag => ({ path: `/tags/${encodeURIComponent(tag.name)}`, lastmod: tag.updated_at })))
+    remaining -= tags.length
+  }
+  offset = Math.max(offset - counts.tags, 0)
+
+  if (remaining > 0 && offset < counts.questions) {
+    const questions = await loadRange(Math.min(remaining, counts.questions - offset), offset, (from, to) =>
+      supabaseAdmin
+        .from('questions')
+        .select('id, title, updated_at')
+        .is('deleted_at', null)
+        .eq('is_shadowed', false)
+        .order('created_at')
+        .order('id')
+        .range(from, to)
+    )
+
+    urls.push(...questions.map(question => ({ path: questionPath(question), lastmod: question.updated_at })))
+  }
+
+  return urls
+}
+
+/**
+ * A <urlset> sitemap
+ */
+export const renderSitemap = (urls: SitemapUrl[]) => {
+  const origin = siteUrl()
+  const entries = urls.map(url =>
+    `  <url><loc>${escapeXml(`${origin}${url.path}`)}</loc>${url.lastmod ? `<lastmod>${new Date(url.lastmod).toISOString()}</lastmod>` : ''}</url>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</urlset>'
+  ].join('\n')
+}
+
+/**
+ * A <sitemapindex> listing the numbered sitemaps
+ */
+export const renderSitemapIndex = (sitemapCount: number) => {
+  const origin = siteUrl()
+  const entries = Array.from({ length: sitemapCount }, (_, index) =>
+    `  <sitemap><loc>${escapeXml(`${origin}/sitemap/${index + 1}.xml`)}</loc></sitemap>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</sitemapindex>'
+  ].join('\n')
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
+
+/**
+ * Server-only file storage for uploaded attachments
+ * Files go through a pluggable adapter: the local filesystem (served from public/uploads) in
+ * development, or an S3-compatible bucket in production or with ATTACHMENT_STORAGE=s3
+ */
+
+export interface StorageAdapter {
+  /** Write a file under the key (e.g. "2026/10/<id>.png") and return its public URL */
+  put: (key: string, body: Buffer, contentType: string) => Promise<string>
+}
+
+/**
+ * Write files under public/uploads, where the dev server serves them
+ * Files added after a production build are not served, so this is for development only
+ */
+export const createLocalStorage = (
+  directory: string = path.join(process.cwd(), 'public', 'uploads'),
+  baseUrl: string = '/uploads'
+): StorageAdapter => ({
+  put: async (key, body) => {
+    const filePath = path.join(directory, key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+    return `${baseUrl}/${key}`
+  }
+})
+
+/**
+ * Write files to an S3 bucket, or any S3-compatible store (R2, MinIO, Supabase Storage) through S3_ENDPOINT
+ * S3_PUBLIC_URL is where the bucket is served from, e.g. a CDN in front of it
+ */
+export const createS3Storage = (): StorageAdapter => {
+  const bucket = process.env.S3_BUCKET
+  const region = process.env.S3_REGION || 'us-east-1'
+  const endpoint = process.env.S3_ENDPOINT
+
+  if (!bucket) {
+    throw new Error('S3_BUCKET must be set to store attachments in S3')
+  }
+
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle: !!endpoint,
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+      : undefined
+  })
+
+  const publicUrl = (
+    process.env.S3_PUBLIC_URL || (endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`)
+  ).replace(/\/+$/, '')
+
+  return {
+    put: async (key, body, contentType) => {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        // Keys are never reused, so the files can be cached forever
+        CacheControl: 'public, max-age=31536000, immutable'
+      }))
+      return `${publicUrl}/${key}`
+    }
+  }
+}
+
+let storage: StorageAdapter | null = null
+
+/**
+ * The adapter for this server, created on first use
+ */
+export const getStorage = () => {
+  if (!storage) {
+    const kind = process.env.ATTACHMENT_STORAGE || (process.env.NODE_ENV === 'production' ? 's3' : 'local')
+    storage = kind === 's3' ? createS3Storage() : createLocalStorage()
+  }
+  return storage
+}
+
+/**
+ * Swap the adapter, e.g. for one backed by another provider's SDK
+ */
+export const setStorageAdapter = (custom: StorageAdapter) => {
+  storage = custom
+}
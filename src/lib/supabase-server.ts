@@ -0,0 +1,68 @@
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { Database, Profile } from '@/types/database'
+
+/**
+ * Server-side Supabase helpers for SlackIt Q&A platform
+ * Bound to the request cookies so API routes can resolve the signed-in user
+ * Never import this in client components or browser code
+ */
+
+/**
+ * Create a Supabase client that reads the session from request cookies
+ */
+export const createSupabaseServerClient = async () => {
+  const cookieStore = await cookies()
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+      },
+    }
+  )
+}
+
+/**
+ * Get the authenticated user for the current request
+ * Returns null if no user is signed in
+ */
+export const getSessionUser = async () => {
+  const supabase = await createSupabaseServerClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    return null
+  }
+
+  return user
+}
+
+/**
+ * Get the authenticated user's profile (including role) for the current request
+ * Returns null if no user is signed in or the profile is missing
+ */
+export const getSessionProfile = async (): Promise<Profile | null> => {
+  const user = await getSessionUser()
+
+  if (!user) {
+    return null
+  }
+
+  const { data: profile, error } = await supabaseAdmin
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (error || !profile) {
+    return null
+  }
+
+  return profile
+}
@@ -0,0 +1,29 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+
+/**
+ * Server-only tag helpers for SlackIt Q&A platform
+ */
+
+/**
+ * Normalize tags and rewrite known synonyms to their main tag (e.g. "reactjs" -> "react")
+ * Order is kept and duplicates created by the rewrite are dropped
+ */
+export const resolveTagSynonyms = async (tags: string[]): Promise<string[]> => {
+  const normalized = tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)
+
+  if (normalized.length === 0) return []
+
+  const { data: synonyms, error } = await supabaseAdmin
+    .from('tag_synonyms')
+    .select('synonym, tag_name')
+    .in('synonym', normalized)
+
+  if (error) {
+    // Posting with an unresolved synonym is better than failing the whole write
+    console.error('Tag synonym lookup error:', error)
+  }
+
+  const targets = new Map((synonyms || []).map(row => [row.synonym, row.tag_name]))
+
+  return Array.from(new Set(normalized.map(tag => targets.get(tag) || tag)))
+}
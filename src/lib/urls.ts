@@ -0,0 +1,39 @@
+import { Question } from '@/types/database'
+
+/**
+ * Public URLs for SlackIt Q&A platform
+ * Shared by links in the UI and the absolute URLs in page metadata
+ */
+
+// Longest slug kept from a title; the id alone identifies the question
+const SLUG_MAX_LENGTH = 80
+
+// Static routes next to [slug] under /questions/[id] win over it, so slugs must avoid them
+const RESERVED_SLUGS = ['revisions', 'feed']
+
+/**
+ * The site's origin without a trailing slash, for absolute URLs in metadata and structured data
+ */
+export const siteUrl = () => (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+
+/**
+ * Turn a question title into its URL slug: "How do I use useEffect?" -> "how-do-i-use-useeffect"
+ */
+export const questionSlug = (title: string) => {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/^-+|-+$/g, '')
+
+  if (!slug) return 'question'
+  return RESERVED_SLUGS.includes(slug) ? `${slug}-question` : slug
+}
+
+/**
+ * The canonical path of a question page
+ */
+export const questionPath = (question: Pick<Question, 'id' | 'title'>) =>
+  `/questions/${question.id}/${questionSlug(question.title)}`
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { deleteDraft, getDraft, saveDraft } from '@/lib/api'
+import { DRAFT_LOCAL_SAVE_DELAY_MS, DRAFT_SERVER_SYNC_DELAY_MS } from '@/lib/constants'
+
+/**
+ * Draft autosave for the ask and answer forms
+ * Drafts are kept in localStorage as the user types and, for signed-in users, synced to the
+ * drafts table so they follow them to other devices. A draft found when the form opens is
+ * offered back rather than filled in, and is cleared once the post is submitted
+ */
+
+export interface SavedDraft<T> {
+  content: T
+  saved_at: string
+}
+
+interface UseDraftOptions<T> {
+  /** Whether a value has nothing worth keeping; should be a stable function */
+  isEmpty: (value: T) => boolean
+  /** Also keep the draft on the server */
+  syncToServer: boolean
+}
+
+const storageKey = (key: string) => `slackit:draft:${key}`
+
+const readLocalDraft = <T>(key: string): SavedDraft<T> | null => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(key))
+    return raw ? JSON.parse(raw) : null
+  } catch {
+    return null
+  }
+}
+
+const writeLocalDraft = <T>(key: string, draft: SavedDraft<T> | null) => {
+  try {
+    if (draft) {
+      window.localStorage.setItem(storageKey(key), JSON.stringify(draft))
+    } else {
+      window.localStorage.removeItem(storageKey(key))
+    }
+  } catch {
+    // Storage is full or disabled; the server copy (if any) still works
+  }
+}
+
+/**
+ * Autosave the form value under the key
+ * Returns the draft found when the form opened (if the form is still empty) with restore and
+ * discard actions for it, and clear() to drop the draft after a successful submit.
+ * The draft stays on offer until it is restored, discarded or the user starts typing
+ */
+export function useDraft<T extends Record<string, unknown>>(key: string, value: T, { isEmpty, syncToServer }: UseDraftOptions<T>) {
+  const [pendingDraft, setPendingDraft] = useState<SavedDraft<T> | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const serialized = JSON.stringify(value)
+
+  const valueRef = useRef(value)
+  // The last content written, or null when no draft is stored
+  const lastSavedRef = useRef<string | null>(null)
+  const pendingWriteRef = useRef<(() => void) | null>(null)
+  const localTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const serverTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    valueRef.current = value
+  })
+
+  const cancelTimers = () => {
+    if (localTimerRef.current) clearTimeout(localTimerRef.current)
+    if (serverTimerRef.current) clearTimeout(serverTimerRef.current)
+    pendingWriteRef.current = null
+  }
+
+  // Look for a draft: the newer of the local and server copies
+  useEffect(() => {
+    let cancelled = false
+    setIsLoaded(false)
+
+    const load = async () => {
+      const local = readLocalDraft<T>(key)
+      const remote = syncToServer ? await getDraft(key) : null
+      if (cancelled) return
+
+      const candidates = [
+        local,
+        remote && { content: remote.content as T, saved_at: remote.updated_at }
+      ].flatMap(draft => (draft ? [draft] : []))
+      const newest = candidates.sort((a, b) => b.saved_at.localeCompare(a.saved_at))[0]
+
+      if (newest && !isEmpty(newest.content)) {
+        lastSavedRef.current = JSON.stringify(newest.content)
+        if (isEmpty(valueRef.current)) {
+          setPendingDraft(newest)
+        }
+      } else {
+        lastSavedRef.current = null
+      }
+      setIsLoaded(true)
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [key, syncToServer, isEmpty])
+
+  // Save changes, debounced: locally after a short pause and to the server after a longer one
+  // Typing while a draft is on offer declines it, so the new text is saved in its place
+  useEffect(() => {
+    if (!isLoaded || serialized === lastSavedRef.current) return
+
+    const content = JSON.parse(serialized) as T
+    const empty = isEmpty(content)
+
+    if (pendingDraft) {
+      if (empty) return
+      setPendingDraft(null)
+    }
+
+    if (empty && lastSavedRef.current === null) return
+
+    const write = () => {
+      writeLocalDraft(key, empty ? null : { content, saved_at: new Date().toISOString() })
+      lastSavedRef.current = empty ? null : serialized
+      pendingWriteRef.current = null
+    }
+
+    if (localTimerRef.current) clearTimeout(localTimerRef.current)
+    pendingWriteRef.current = write
+    localTimerRef.current = setTimeout(write, DRAFT_LOCAL_SAVE_DELAY_MS)
+
+    if (syncToServer) {
+      if (serverTimerRef.current) clearTimeout(serverTimerRef.current)
+      serverTimerRef.current = setTimeout(() => {
+        if (empty) {
+          deleteDraft(key)
+        } else {
+          saveDraft(key, content)
+        }
+      }, DRAFT_SERVER_SYNC_DELAY_MS)
+    }
+  }, [key, serialized, isLoaded, pendingDraft, syncToServer, isEmpty])
+
+  // Keep the last keystrokes when the form goes away before the local save fires
+  useEffect(() => {
+    const localTimer = localTimerRef
+    const serverTimer = serverTimerRef
+    const pendingWrite = pendingWriteRef
+
+    return () => {
+      pendingWrite.current?.()
+      if (localTimer.current) clearTimeout(localTimer.current)
+      if (serverTimer.current) clearTimeout(serverTimer.current)
+    }
+  }, [key])
+
+  /**
+   * Drop the stored draft, locally and on the server
+   */
+  const clear = () => {
+    cancelTimers()
+    writeLocalDraft(key, null)
+    lastSavedRef.current = null
+    if (syncToServer) {
+      deleteDraft(key)
+    }
+  }
+
+  /**
+   * Take the offered draft; the caller fills the form with the returned content
+   */
+  const restore = (): T | null => {
+    const content = pendingDraft?.content ?? null
+    setPendingDraft(null)
+    return content
+  }
+
+  /**
+   * Throw the offered draft away
+   */
+  const discard = () => {
+    setPendingDraft(null)
+    clear()
+  }
+
+  return { pendingDraft, restore, discard, clear }
+}
@@ -0,0 +1,36 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { Profile, UserPostSort } from '@/types/database'
+
+/**
+ * Server-only helpers shared by the /api/users routes
+ */
+
+/**
+ * Find a public profile by username (usernames are unique, matching is exact)
+ */
+export const findProfileByUsername = async (username: string): Promise<Profile | null> => {
+  const { data: profile, error } = await supabaseAdmin
+    .from('profiles')
+    .select('*')
+    .eq('username', username)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Profile lookup error:', error)
+  }
+
+  return profile || null
+}
+
+/**
+ * Read page, limit and sort for the profile question and answer lists
+ */
+export const parseUserPostParams = (request: Request) => {
+  const { searchParams } = new URL(request.url)
+
+  return {
+    page: Math.max(parseInt(searchParams.get('page') || '1') || 1, 1),
+    limit: Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 50),
+    sort: (searchParams.get('sort') === 'newest' ? 'newest' : 'votes') as UserPostSort
+  }
+}
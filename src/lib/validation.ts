@@ -0,0 +1,343 @@
+import {
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_TYPES,
+  DRAFT_KEY_PATTERN,
+  DRAFT_MAX_LENGTH,
+  COMMENT_MIN_LENGTH,
+  COMMENT_MAX_LENGTH,
+  QUESTION_TITLE_MAX_LENGTH,
+  QUESTION_DESCRIPTION_MAX_LENGTH,
+  DIFFERENCE_NOTE_MAX_LENGTH,
+  FLAG_REASONS,
+  FLAG_NOTE_MAX_LENGTH,
+  SUSPENSION_DAYS,
+  SUSPENSION_REASON_MAX_LENGTH,
+  TAG_MAX_COUNT,
+  TAG_MAX_LENGTH,
+  TAG_PATTERN,
+  TAG_PREFERENCES_MAX,
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  USERNAME_PATTERN
+} from '@/lib/constants'
+
+/**
+ * Validation helpers for SlackIt Q&A platform
+ * Each helper returns an error message, or null when the input is valid
+ */
+
+/**
+ * Validate comment content against the length limits
+ */
+export const validateCommentContent = (content: unknown): string | null => {
+  if (typeof content !== 'string' || !content.trim()) {
+    return 'Comment content is required'
+  }
+
+  const length = content.trim().length
+
+  if (length < COMMENT_MIN_LENGTH) {
+    return `Comments must be at least ${COMMENT_MIN_LENGTH} characters`
+  }
+
+  if (length > COMMENT_MAX_LENGTH) {
+    return `Comments cannot exceed ${COMMENT_MAX_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Validate the title, description and tags of a new or edited question
+ */
+export const validateQuestionInput = ({
+  title,
+  description,
+  tags
+}: {
+  title: unknown
+  description: unknown
+  tags: unknown
+}): string | null => {
+  if (typeof title !== 'string' || !title.trim()) {
+    return 'Question title is required'
+  }
+
+  if (title.trim().length > QUESTION_TITLE_MAX_LENGTH) {
+    return `Question title cannot exceed ${QUESTION_TITLE_MAX_LENGTH} characters`
+  }
+
+  if (typeof description !== 'string' || !description.trim()) {
+    return 'Question description is required'
+  }
+
+  if (description.trim().length > QUESTION_DESCRIPTION_MAX_LENGTH) {
+    return `Question description cannot exceed ${QUESTION_DESCRIPTION_MAX_LENGTH.toLocaleString()} characters`
+  }
+
+  if (!Array.isArray(tags) || tags.length === 0) {
+    return 'At least one tag is required'
+  }
+
+  if (tags.length > TAG_MAX_COUNT) {
+    return `Questions can have at most ${TAG_MAX_COUNT} tags`
+  }
+
+  for (const tag of tags) {
+    const tagError = validateTag(tag)
+    if (tagError) return tagError
+  }
+
+  return null
+}
+
+/**
+ * Validate the optional "this is different because..." note on a new question
+ */
+export const validateDifferenceNote = (note: unknown): string | null => {
+  if (note === undefined || note === null) return null
+
+  if (typeof note !== 'string') {
+    return 'The difference note must be text'
+  }
+
+  if (note.trim().length > DIFFERENCE_NOTE_MAX_LENGTH) {
+    return `The difference note cannot exceed ${DIFFERENCE_NOTE_MAX_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Turn typed text into tag form: trimmed, lowercase, spaces become dashes
+ */
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/\s+/g, '-')
+
+/**
+ * Validate a single tag's length and characters
+ */
+export const validateTag = (tag: unknown): string | null => {
+  if (typeof tag !== 'string' || !tag.trim()) {
+    return 'Tags cannot be empty'
+  }
+
+  const normalized = tag.trim().toLowerCase()
+
+  if (normalized.length > TAG_MAX_LENGTH) {
+    return `Tags cannot exceed ${TAG_MAX_LENGTH} characters`
+  }
+
+  if (!TAG_PATTERN.test(normalized)) {
+    return `"${normalized}" is not a valid tag. Use lowercase letters, numbers and + # . -`
+  }
+
+  return null
+}
+
+/**
+ * Validate answer content
+ */
+export const validateAnswerContent = (content: unknown): string | null => {
+  if (typeof content !== 'string' || !content.trim()) {
+    return 'Answer content is required'
+  }
+
+  return null
+}
+
+/**
+ * Validate watched and ignored tag lists (a tag can't be in both)
+ */
+export const validateTagPreferences = ({
+  watched_tags,
+  ignored_tags,
+  hide_ignored_tags
+}: {
+  watched_tags: unknown
+  ignored_tags: unknown
+  hide_ignored_tags: unknown
+}): string | null => {
+  for (const [label, list] of [['watched', watched_tags], ['ignored', ignored_tags]] as const) {
+    if (!Array.isArray(list)) {
+      return `The ${label} tags must be a list`
+    }
+
+    if (list.length > TAG_PREFERENCES_MAX) {
+      return `You can have at most ${TAG_PREFERENCES_MAX} ${label} tags`
+    }
+
+    for (const tag of list) {
+      const tagError = validateTag(tag)
+      if (tagError) return tagError
+    }
+  }
+
+  if ((watched_tags as string[]).some(tag => (ignored_tags as string[]).includes(tag))) {
+    return 'A tag cannot be both watched and ignored'
+  }
+
+  if (typeof hide_ignored_tags !== 'boolean') {
+    return 'hide_ignored_tags must be true or false'
+  }
+
+  return null
+}
+
+/**
+ * Validate a username's length and characters (uniqueness is checked against the database)
+ */
+export const validateUsername = (username: unknown): string | null => {
+  if (typeof username !== 'string' || !username.trim()) {
+    return 'Username is required'
+  }
+
+  const trimmed = username.trim()
+
+  if (trimmed.length < USERNAME_MIN_LENGTH || trimmed.length > USERNAME_MAX_LENGTH) {
+    return `Username must be between ${USERNAME_MIN_LENGTH} and ${USERNAME_MAX_LENGTH} characters`
+  }
+
+  if (!USERNAME_PATTERN.test(trimmed)) {
+    return 'Username can only contain letters, numbers, dots, dashes and underscores'
+  }
+
+  return null
+}
+
+/**
+ * Validate an optional avatar URL
+ */
+export const validateAvatarUrl = (avatarUrl: unknown): string | null => {
+  if (avatarUrl === null || avatarUrl === undefined || avatarUrl === '') {
+    return null
+  }
+
+  if (typeof avatarUrl !== 'string') {
+    return 'Avatar URL must be a string'
+  }
+
+  try {
+    const url = new URL(avatarUrl)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'Avatar URL must start with http:// or https://'
+    }
+  } catch {
+    return 'Avatar URL is not a valid URL'
+  }
+
+  return null
+}
+
+/**
+ * Validate a flag raised on a question, answer or comment
+ */
+export const validateFlagInput = ({
+  target_type,
+  target_id,
+  reason,
+  note
+}: {
+  target_type: unknown
+  target_id: unknown
+  reason: unknown
+  note: unknown
+}): string | null => {
+  if (target_type !== 'question' && target_type !== 'answer' && target_type !== 'comment') {
+    return 'Flags can only be raised on questions, answers and comments'
+  }
+
+  if (typeof target_id !== 'string' || !target_id) {
+    return 'Choose a post to flag'
+  }
+
+  if (typeof reason !== 'string' || !Object.hasOwn(FLAG_REASONS, reason)) {
+    return 'Choose a reason for flagging'
+  }
+
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    return 'The note must be text'
+  }
+
+  const trimmedNote = typeof note === 'string' ? note.trim() : ''
+
+  if (reason === 'other' && !trimmedNote) {
+    return 'Tell the moderators what is wrong with this post'
+  }
+
+  if (trimmedNote.length > FLAG_NOTE_MAX_LENGTH) {
+    return `The note cannot exceed ${FLAG_NOTE_MAX_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Validate a moderator's suspension or shadow ban of a user
+ */
+export const validateSuspensionInput = ({
+  mode,
+  days,
+  reason
+}: {
+  mode: unknown
+  days: unknown
+  reason: unknown
+}): string | null => {
+  if (mode !== 'suspend' && mode !== 'shadow') {
+    return 'Choose whether to suspend or shadow-ban the user'
+  }
+
+  if (typeof days !== 'number' || !(SUSPENSION_DAYS as readonly number[]).includes(days)) {
+    return `Choose a length of ${SUSPENSION_DAYS.join(', ')} days`
+  }
+
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return 'Give a reason for the suspension'
+  }
+
+  if (reason.trim().length > SUSPENSION_REASON_MAX_LENGTH) {
+    return `The reason cannot exceed ${SUSPENSION_REASON_MAX_LENGTH} characters`
+  }
+
+  return null
+}
+
+/**
+ * Validate an image before it is uploaded, from the type and size the browser reports
+ * The server checks the file contents again, since both can be forged
+ */
+export const validateAttachment = ({ type, size }: { type: unknown; size: unknown }): string | null => {
+  if (typeof type !== 'string' || !ATTACHMENT_TYPES.includes(type)) {
+    return 'Only PNG, JPEG, GIF and WebP images can be uploaded'
+  }
+
+  if (typeof size !== 'number' || size <= 0) {
+    return 'The image is empty'
+  }
+
+  if (size > ATTACHMENT_MAX_BYTES) {
+    return `Images cannot exceed ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`
+  }
+
+  return null
+}
+
+/**
+ * Validate a draft key and its saved form fields
+ */
+export const validateDraftInput = ({ key, content }: { key: unknown; content: unknown }): string | null => {
+  if (typeof key !== 'string' || !DRAFT_KEY_PATTERN.test(key)) {
+    return 'Unknown draft'
+  }
+
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    return 'Draft content must be an object'
+  }
+
+  if (JSON.stringify(content).length > DRAFT_MAX_LENGTH) {
+    return `Drafts cannot exceed ${DRAFT_MAX_LENGTH} characters`
+  }
+
+  return null
+}
@@ -0,0 +1,129 @@
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { logModeratorAction } from '@/lib/moderation-log'
+
+/**
+ * Server-only vote fraud job
+ * Each rule names a pattern evaluated by the vote_fraud_candidates function in
+ * database/schema.sql. Matching votes are deleted: the vote triggers then take them off the
+ * post scores and drop their reputation events, which takes the points back from the author
+ */
+
+export type VoteFraudPattern = 'serial' | 'ring'
+
+export interface VoteFraudRule {
+  pattern: VoteFraudPattern
+  /** Minimum votes from one user on one author's posts */
+  threshold: number
+  /** Length of a burst of serial votes */
+  windowHours: number
+  /** How far back to look; a little over a day, so bursts that straddle two nightly runs are caught */
+  lookbackHours: number
+}
+
+export const VOTE_FRAUD_RULES: VoteFraudRule[] = [
+  { pattern: 'serial', threshold: 5, windowHours: 1, lookbackHours: 26 },
+  { pattern: 'ring', threshold: 10, windowHours: 0, lookbackHours: 30 * 24 }
+]
+
+/** Votes deleted per request; vote ids go in the query string, so long lists are split up */
+const VOTE_REVERSAL_CHUNK_SIZE = 100
+
+const PATTERN_DESCRIPTIONS: Record<VoteFraudPattern, string> = {
+  serial: 'serial voting',
+  ring: 'voting ring'
+}
+
+export interface VoteFraudJobResult {
+  reversed: Record<VoteFraudPattern, number>
+  failed: VoteFraudPattern[]
+}
+
+/**
+ * Look up usernames for the moderation log notes
+ */
+const loadUsernames = async (userIds: string[]) => {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('id, username')
+    .in('id', userIds)
+
+  return new Map((data || []).map(profile => [profile.id, profile.username]))
+}
+
+/**
+ * Delete the votes in fixed-size batches
+ * Returns how many were deleted, including those from batches before a failing one
+ */
+const deleteVotes = async (voteIds: string[]) => {
+  let count = 0
+
+  for (let start = 0; start < voteIds.length; start += VOTE_REVERSAL_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('votes')
+      .delete()
+      .in('id', voteIds.slice(start, start + VOTE_REVERSAL_CHUNK_SIZE))
+      .select('id')
+
+    if (error) return { count, error }
+    count += data?.length || 0
+  }
+
+  return { count, error: null }
+}
+
+/**
+ * Find the votes matching every fraud rule, reverse them and log each reversal for moderators
+ * A failing rule is logged and skipped so the others still run
+ */
+export const runVoteFraudJob = async (): Promise<VoteFraudJobResult> => {
+  const result: VoteFraudJobResult = { reversed: { serial: 0, ring: 0 }, failed: [] }
+
+  for (const rule of VOTE_FRAUD_RULES) {
+    const { data, error } = await supabaseAdmin.rpc('vote_fraud_candidates', {
+      p_pattern: rule.pattern,
+      p_threshold: rule.threshold,
+      p_window_hours: rule.windowHours,
+      p_lookback_hours: rule.lookbackHours
+    })
+
+    if (error) {
+      console.error('Vote fraud rule error:', { pattern: rule.pattern, error })
+      result.failed.push(rule.pattern)
+      continue
+    }
+
+    const candidates = (data || []) as { voter_id: string; author_id: string; vote_ids: string[] }[]
+    if (candidates.length === 0) continue
+
+    const usernames = await loadUsernames(candidates.flatMap(row => [row.voter_id, row.author_id]))
+
+    for (const candidate of candidates) {
+      const { count, error: deleteError } = await deleteVotes(candidate.vote_ids)
+
+      if (deleteError) {
+        console.error('Vote reversal error:', { pattern: rule.pattern, voterId: candidate.voter_id, error: deleteError })
+        if (!result.failed.includes(rule.pattern)) {
+          result.failed.push(rule.pattern)
+        }
+      }
+
+      // An earlier rule may already have reversed some of these votes
+      if (count === 0) continue
+
+      result.reversed[rule.pattern] += count
+
+      const voter = usernames.get(candidate.voter_id) || 'a deleted user'
+      const author = usernames.get(candidate.author_id) || 'a deleted user'
+
+      await logModeratorAction({
+        moderatorId: null,
+        action: 'votes_reversed',
+        targetType: 'user',
+        targetId: candidate.voter_id,
+        note: `${PATTERN_DESCRIPTIONS[rule.pattern]}: reversed ${count} vote${count === 1 ? '' : 's'} by ${voter} on posts by ${author}`
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,16 @@
+/**
+ * XML helpers for the sitemap and feeds of SlackIt Q&A platform
+ */
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export const escapeXml = (text: string) => text.replace(/[&<>"']/g, char => XML_ENTITIES[char])
@@ -1,6 +1,8 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { hasRole } from '@/lib/permissions'
+import { UserRole } from '@/types/database'
 
 /**
  * Next.js middleware for authentication and route protection
@@ -68,7 +70,13 @@ export async function middleware(request: NextRequest) {
   const url = request.nextUrl.clone()
   
   // Define protected routes that require authentication
-  const protectedRoutes = ['/ask', '/profile', '/my-questions', '/my-answers']
+  const protectedRoutes = ['/ask', '/profile', '/my-questions', '/my-answers', '/moderation', '/admin']
+  
+  // Define staff routes and the role each one needs (the API routes check again)
+  const roleRoutes: { route: string; role: UserRole }[] = [
+    { route: '/moderation', role: 'moderator' },
+    { route: '/admin', role: 'admin' }
+  ]
   
   // Define auth routes that redirect to home if already logged in
   const authRoutes = ['/auth/login', '/auth/register']
@@ -90,6 +98,22 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
+  // If user lacks the role a staff route needs, send them home
+  const roleRoute = roleRoutes.find(({ route }) => url.pathname.startsWith(route))
+  if (session && roleRoute) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', session.user.id)
+      .single()
+
+    if (!hasRole(profile?.role, roleRoute.role)) {
+      url.pathname = '/'
+      url.search = ''
+      return NextResponse.redirect(url)
+    }
+  }
+
   // If user is authenticated and trying to access auth routes
   if (session && isAuthRoute) {
     url.pathname = '/'
@@ -3,6 +3,71 @@
  * Auto-generated from Supabase schema
  */
 
+export type NotificationType = 'new_answer' | 'answer_accepted' | 'mention' | 'badge_awarded' | 'watched_tag_question'
+
+export type UserRole = 'user' | 'moderator' | 'admin'
+
+export type QuestionStatus = 'open' | 'closed' | 'duplicate'
+
+export type CloseReason = 'off_topic' | 'unclear' | 'too_broad' | 'opinion_based'
+
+/**
+ * A close vote either names a close reason or marks the question as a duplicate
+ */
+export type CloseVoteReason = CloseReason | 'duplicate'
+
+export type StatusVoteKind = 'close' | 'reopen'
+
+export type FlagTargetType = 'question' | 'answer' | 'comment'
+
+export type FlagReason = 'spam' | 'rude' | 'low_quality' | 'other'
+
+export type FlagStatus = 'pending' | 'approved' | 'dismissed'
+
+/**
+ * Write actions with their own rate limit budgets
+ */
+export type RateLimitAction = 'question' | 'question_check' | 'answer' | 'vote' | 'upload'
+
+/**
+ * Rate limit budgets grow with reputation; moderators and admins are always trusted
+ */
+export type ReputationTier = 'new' | 'established' | 'trusted'
+
+/**
+ * A suspension blocks posting outright; a shadow ban lets the user post but hides the posts
+ */
+export type SuspensionMode = 'suspend' | 'shadow'
+
+/**
+ * Actions recorded in the moderation audit log
+ */
+export type ModerationAction =
+  | 'flag_approved'
+  | 'flag_dismissed'
+  | 'post_deleted'
+  | 'post_restored'
+  | 'question_closed'
+  | 'question_reopened'
+  | 'role_changed'
+  | 'user_suspended'
+  | 'user_shadow_banned'
+  | 'user_unsuspended'
+  | 'votes_reversed'
+
+export type ModerationTargetType = FlagTargetType | 'flag' | 'user'
+
+export type ReputationReason =
+  | 'question_upvoted'
+  | 'question_downvoted'
+  | 'answer_upvoted'
+  | 'answer_downvoted'
+  | 'answer_accepted'
+
+export type QuestionSort = 'for_you' | 'newest' | 'active' | 'votes' | 'hot' | 'unanswered' | 'no_accepted_answer'
+
+export type TagSort = 'popular' | 'name' | 'new'
+
 export interface Database {
   public: {
     Tables: {
@@ -11,18 +76,39 @@ export interface Database {
           id: string
           username: string
           avatar_url: string | null
+          role: UserRole
+          reputation: number
+          watched_tags: string[]
+          ignored_tags: string[]
+          hide_ignored_tags: boolean
+          suspended_until: string | null
+          suspension_reason: string | null
           created_at: string
         }
         Insert: {
           id: string
           username: string
           avatar_url?: string | null
+          role?: UserRole
+          reputation?: number
+          watched_tags?: string[]
+          ignored_tags?: string[]
+          hide_ignored_tags?: boolean
+          suspended_until?: string | null
+          suspension_reason?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           username?: string
           avatar_url?: string | null
+          role?: UserRole
+          reputation?: number
+          watched_tags?: string[]
+          ignored_tags?: string[]
+          hide_ignored_tags?: boolean
+          suspended_until?: string | null
+          suspension_reason?: string | null
           created_at?: string
         }
       }
@@ -36,6 +122,22 @@ export interface Database {
           votes: number
           created_at: string
           updated_at: string
+          edited_at: string | null
+          edited_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          answer_count: number
+          has_accepted_answer: boolean
+          last_activity_at: string
+          hot_score: number
+          view_count: number
+          difference_note: string | null
+          status: QuestionStatus
+          close_reason: CloseReason | null
+          duplicate_of: string | null
+          closed_at: string | null
+          closed_by: string | null
+          is_shadowed: boolean
         }
         Insert: {
           id?: string
@@ -46,6 +148,22 @@ export interface Database {
           votes?: number
           created_at?: string
           updated_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          answer_count?: number
+          has_accepted_answer?: boolean
+          last_activity_at?: string
+          hot_score?: number
+          view_count?: number
+          difference_note?: string | null
+          status?: QuestionStatus
+          close_reason?: CloseReason | null
+          duplicate_of?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          is_shadowed?: boolean
         }
         Update: {
           id?: string
@@ -56,6 +174,22 @@ export interface Database {
           votes?: number
           created_at?: string
           updated_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          answer_count?: number
+          has_accepted_answer?: boolean
+          last_activity_at?: string
+          hot_score?: number
+          view_count?: number
+          difference_note?: string | null
+          status?: QuestionStatus
+          close_reason?: CloseReason | null
+          duplicate_of?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          is_shadowed?: boolean
         }
       }
       answers: {
@@ -68,6 +202,11 @@ export interface Database {
           is_accepted: boolean
           created_at: string
           updated_at: string
+          edited_at: string | null
+          edited_by: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          is_shadowed: boolean
         }
         Insert: {
           id?: string
@@ -78,6 +217,11 @@ export interface Database {
           is_accepted?: boolean
           created_at?: string
           updated_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          is_shadowed?: boolean
         }
         Update: {
           id?: string
@@ -88,6 +232,11 @@ export interface Database {
           is_accepted?: boolean
           created_at?: string
           updated_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          is_shadowed?: boolean
         }
       }
       votes: {
@@ -116,12 +265,503 @@ export interface Database {
           created_at?: string
         }
       }
+      comments: {
+        Row: {
+          id: string
+          question_id: string
+          answer_id: string | null
+          parent_id: string | null
+          author_id: string
+          content: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          answer_id?: string | null
+          parent_id?: string | null
+          author_id: string
+          content: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          answer_id?: string | null
+          parent_id?: string | null
+          author_id?: string
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      post_revisions: {
+        Row: {
+          id: string
+          question_id: string
+          answer_id: string | null
+          revision_number: number
+          title: string | null
+          description: string | null
+          tags: string[] | null
+          content: string | null
+          editor_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          answer_id?: string | null
+          revision_number: number
+          title?: string | null
+          description?: string | null
+          tags?: string[] | null
+          content?: string | null
+          editor_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          answer_id?: string | null
+          revision_number?: number
+          title?: string | null
+          description?: string | null
+          tags?: string[] | null
+          content?: string | null
+          editor_id?: string | null
+          created_at?: string
+        }
+      }
+      reputation_events: {
+        Row: {
+          id: string
+          user_id: string
+          actor_id: string | null
+          reason: ReputationReason
+          points: number
+          vote_id: string | null
+          question_id: string | null
+          answer_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          actor_id?: string | null
+          reason: ReputationReason
+          points: number
+          vote_id?: string | null
+          question_id?: string | null
+          answer_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          actor_id?: string | null
+          reason?: ReputationReason
+          points?: number
+          vote_id?: string | null
+          question_id?: string | null
+          answer_id?: string | null
+          created_at?: string
+        }
+      }
+      tags: {
+        Row: {
+          id: string
+          name: string
+          excerpt: string | null
+          wiki: string | null
+          usage_count: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          excerpt?: string | null
+          wiki?: string | null
+          usage_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          excerpt?: string | null
+          wiki?: string | null
+          usage_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      tag_synonyms: {
+        Row: {
+          synonym: string
+          tag_name: string
+          created_at: string
+        }
+        Insert: {
+          synonym: string
+          tag_name: string
+          created_at?: string
+        }
+        Update: {
+          synonym?: string
+          tag_name?: string
+          created_at?: string
+        }
+      }
+      user_badges: {
+        Row: {
+          id: string
+          user_id: string
+          badge_slug: string
+          tag: string | null
+          question_id: string | null
+          answer_id: string | null
+          awarded_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          badge_slug: string
+          tag?: string | null
+          question_id?: string | null
+          answer_id?: string | null
+          awarded_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          badge_slug?: string
+          tag?: string | null
+          question_id?: string | null
+          answer_id?: string | null
+          awarded_at?: string
+        }
+      }
+      question_status_votes: {
+        Row: {
+          id: string
+          question_id: string
+          user_id: string
+          kind: StatusVoteKind
+          reason: CloseVoteReason | null
+          duplicate_of: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          user_id: string
+          kind: StatusVoteKind
+          reason?: CloseVoteReason | null
+          duplicate_of?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          user_id?: string
+          kind?: StatusVoteKind
+          reason?: CloseVoteReason | null
+          duplicate_of?: string | null
+          created_at?: string
+        }
+      }
+      flags: {
+        Row: {
+          id: string
+          reporter_id: string
+          target_type: FlagTargetType
+          target_id: string
+          question_id: string
+          reason: FlagReason
+          note: string | null
+          status: FlagStatus
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          reporter_id: string
+          target_type: FlagTargetType
+          target_id: string
+          question_id: string
+          reason: FlagReason
+          note?: string | null
+          status?: FlagStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          reporter_id?: string
+          target_type?: FlagTargetType
+          target_id?: string
+          question_id?: string
+          reason?: FlagReason
+          note?: string | null
+          status?: FlagStatus
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+      }
+      moderation_log: {
+        Row: {
+          id: string
+          moderator_id: string | null
+          action: ModerationAction
+          target_type: ModerationTargetType
+          target_id: string
+          question_id: string | null
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          moderator_id?: string | null
+          action: ModerationAction
+          target_type: ModerationTargetType
+          target_id: string
+          question_id?: string | null
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          moderator_id?: string | null
+          action?: ModerationAction
+          target_type?: ModerationTargetType
+          target_id?: string
+          question_id?: string | null
+          note?: string | null
+          created_at?: string
+        }
+      }
+      shadow_bans: {
+        Row: {
+          user_id: string
+          reason: string | null
+          expires_at: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          reason?: string | null
+          expires_at: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          reason?: string | null
+          expires_at?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      attachments: {
+        Row: {
+          id: string
+          uploader_id: string | null
+          url: string
+          thumbnail_url: string
+          content_type: string
+          size: number
+          width: number
+          height: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          uploader_id?: string | null
+          url: string
+          thumbnail_url: string
+          content_type: string
+          size: number
+          width: number
+          height: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          uploader_id?: string | null
+          url?: string
+          thumbnail_url?: string
+          content_type?: string
+          size?: number
+          width?: number
+          height?: number
+          created_at?: string
+        }
+      }
+      drafts: {
+        Row: {
+          user_id: string
+          key: string
+          content: Record<string, unknown>
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          key: string
+          content: Record<string, unknown>
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          key?: string
+          content?: Record<string, unknown>
+          updated_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          actor_id: string | null
+          type: NotificationType
+          question_id: string | null
+          answer_id: string | null
+          comment_id: string | null
+          badge_id: string | null
+          is_read: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          actor_id?: string | null
+          type: NotificationType
+          question_id?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          badge_id?: string | null
+          is_read?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          actor_id?: string | null
+          type?: NotificationType
+          question_id?: string | null
+          answer_id?: string | null
+          comment_id?: string | null
+          badge_id?: string | null
+          is_read?: boolean
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      set_answer_accepted: {
+        Args: {
+          p_answer_id: string
+          p_accepted: boolean
+        }
+        Returns: Database['public']['Tables']['answers']['Row']
+      }
+      increment_question_views: {
+        Args: {
+          p_question_id: string
+        }
+        Returns: undefined
+      }
+      award_badge: {
+        Args: {
+          p_slug: string
+          p_criterion: string
+          p_threshold: number
+          p_days?: number | null
+        }
+        Returns: number
+      }
+      vote_fraud_candidates: {
+        Args: {
+          p_pattern: string
+          p_threshold: number
+          p_window_hours: number
+          p_lookback_hours: number
+        }
+        Returns: {
+          voter_id: string
+          author_id: string
+          vote_ids: string[]
+        }[]
+      }
+      hit_rate_limit: {
+        Args: {
+          p_key: string
+          p_window_seconds: number
+        }
+        Returns: {
+          hits: number
+          reset_at: string
+        }[]
+      }
+      for_you_questions: {
+        Args: {
+          p_user_id: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          total_count: number
+        }[]
+      }
+      user_top_tags: {
+        Args: {
+          p_user_id: string
+          p_limit?: number
+        }
+        Returns: UserTopTag[]
+      }
+      search_questions: {
+        Args: {
+          p_query?: string | null
+          p_tags?: string[] | null
+          p_author?: string | null
+          p_is_answered?: boolean | null
+          p_min_score?: number | null
+          p_max_score?: number | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          rank: number
+          title_highlight: string
+          snippet: string
+          total_count: number
+        }[]
+      }
+      similar_questions: {
+        Args: {
+          p_title: string
+          p_tags?: string[]
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          similarity: number
+          shared_tags: string[]
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -136,16 +776,32 @@ export type Profile = Database['public']['Tables']['profiles']['Row']
 export type Question = Database['public']['Tables']['questions']['Row']
 export type Answer = Database['public']['Tables']['answers']['Row']
 export type Vote = Database['public']['Tables']['votes']['Row']
+export type Comment = Database['public']['Tables']['comments']['Row']
+export type Notification = Database['public']['Tables']['notifications']['Row']
+export type PostRevision = Database['public']['Tables']['post_revisions']['Row']
+export type ReputationEvent = Database['public']['Tables']['reputation_events']['Row']
+export type UserBadge = Database['public']['Tables']['user_badges']['Row']
+export type Tag = Database['public']['Tables']['tags']['Row']
+export type TagSynonym = Database['public']['Tables']['tag_synonyms']['Row']
+export type QuestionStatusVote = Database['public']['Tables']['question_status_votes']['Row']
+export type Flag = Database['public']['Tables']['flags']['Row']
+export type ModerationLogEntry = Database['public']['Tables']['moderation_log']['Row']
+export type ShadowBan = Database['public']['Tables']['shadow_bans']['Row']
+export type Attachment = Database['public']['Tables']['attachments']['Row']
+export type Draft = Database['public']['Tables']['drafts']['Row']
 
 export type QuestionInsert = Database['public']['Tables']['questions']['Insert']
 export type AnswerInsert = Database['public']['Tables']['answers']['Insert']
 export type VoteInsert = Database['public']['Tables']['votes']['Insert']
 export type ProfileInsert = Database['public']['Tables']['profiles']['Insert']
+export type CommentInsert = Database['public']['Tables']['comments']['Insert']
+export type NotificationInsert = Database['public']['Tables']['notifications']['Insert']
 
 export type QuestionUpdate = Database['public']['Tables']['questions']['Update']
 export type AnswerUpdate = Database['public']['Tables']['answers']['Update']
 export type VoteUpdate = Database['public']['Tables']['votes']['Update']
 export type ProfileUpdate = Database['public']['Tables']['profiles']['Update']
+export type CommentUpdate = Database['public']['Tables']['comments']['Update']
 
 /**
  * Extended types for UI components
@@ -155,13 +811,162 @@ export interface QuestionWithAuthor extends Question {
   answer_count: number
 }
 
+/**
+ * Highlighted match data returned by full-text search
+ * title_highlight and snippet wrap matched words in <mark></mark>
+ */
+export interface SearchHighlight {
+  rank: number
+  title_highlight: string
+  snippet: string
+}
+
+export type SearchMatch = Database['public']['Functions']['search_questions']['Returns'][number]
+
+export interface SearchResult extends QuestionWithAuthor, SearchHighlight {}
+
+export type SimilarQuestionMatch = Database['public']['Functions']['similar_questions']['Returns'][number]
+
+/**
+ * A possible duplicate shown while asking, with how closely its title matches (0-1)
+ */
+export type SimilarQuestion = Pick<Question, 'id' | 'title' | 'tags' | 'votes' | 'answer_count' | 'has_accepted_answer' | 'created_at'> &
+  Omit<SimilarQuestionMatch, 'id'>
+
+/**
+ * A question as shown in a list - search results carry highlights
+ */
+export type QuestionListItem = QuestionWithAuthor & Partial<SearchHighlight>
+
+export interface CommentWithAuthor extends Comment {
+  author: Profile
+}
+
 export interface AnswerWithAuthor extends Answer {
   author: Profile
   user_vote?: Vote | null
+  comments?: CommentWithAuthor[]
+  is_tombstone?: boolean
 }
 
 export interface QuestionWithAnswers extends QuestionWithAuthor {
   answers: AnswerWithAuthor[]
+  comments?: CommentWithAuthor[]
+  /** The canonical question when this one is closed as a duplicate */
+  duplicate_question?: Pick<Question, 'id' | 'title'> | null
+  status_votes?: StatusVoteSummary
+}
+
+/**
+ * Close/reopen votes cast in the current round, and the viewer's own vote
+ */
+export interface StatusVoteSummary {
+  close_votes: number
+  reopen_votes: number
+  user_vote: StatusVoteKind | null
+}
+
+export interface SuspensionFormData {
+  mode: SuspensionMode
+  days: number
+  reason: string
+}
+
+/**
+ * Sent with a 403 when a suspended user tries to post, vote or comment
+ */
+export interface SuspensionDetails {
+  suspended_until: string
+  reason: string | null
+}
+
+export interface FlagFormData {
+  target_type: FlagTargetType
+  target_id: string
+  reason: FlagReason
+  note?: string
+}
+
+/**
+ * The flagged post as shown in the moderation queue (null once it has been removed)
+ */
+export interface FlagTarget {
+  question_id: string
+  author: Pick<Profile, 'id' | 'username'> | null
+  excerpt: string
+  deleted: boolean
+}
+
+export interface FlagWithDetails extends Flag {
+  reporter: Pick<Profile, 'id' | 'username'> | null
+  target: FlagTarget | null
+}
+
+export interface ModerationLogEntryWithModerator extends ModerationLogEntry {
+  moderator: Pick<Profile, 'id' | 'username'> | null
+}
+
+/**
+ * A user as listed on the admin roles page
+ */
+export type UserWithRole = Pick<Profile, 'id' | 'username' | 'avatar_url' | 'role' | 'reputation' | 'created_at'>
+
+export interface StatusVoteResponse {
+  question: Question
+  status_votes: StatusVoteSummary
+}
+
+export interface StatusVoteFormData {
+  reason?: CloseVoteReason
+  /** Canonical question id, required when reason is 'duplicate' */
+  duplicate_of?: string
+}
+
+export interface PostRevisionWithEditor extends PostRevision {
+  editor: Pick<Profile, 'id' | 'username' | 'avatar_url'> | null
+}
+
+export interface NotificationWithDetails extends Notification {
+  actor: Pick<Profile, 'id' | 'username' | 'avatar_url'> | null
+  question: Pick<Question, 'id' | 'title'> | null
+  badge: Pick<UserBadge, 'badge_slug' | 'tag'> | null
+}
+
+export interface TagWithSynonyms extends Tag {
+  synonyms: string[]
+}
+
+/**
+ * Tag autocomplete entry; matched_synonym is set when the typed text matched a synonym
+ */
+export interface TagSuggestion extends Pick<Tag, 'name' | 'excerpt' | 'usage_count'> {
+  matched_synonym: string | null
+}
+
+/**
+ * Public profile page data
+ */
+export interface UserTopTag {
+  tag: string
+  score: number
+  post_count: number
+}
+
+export interface UserProfileSummary extends Profile {
+  question_count: number
+  answer_count: number
+  top_tags: UserTopTag[]
+  /** Only sent to moderators */
+  shadow_ban?: ShadowBan | null
+}
+
+/**
+ * Order of the question and answer lists on a profile
+ */
+export type UserPostSort = 'votes' | 'newest'
+
+export interface AnswerWithQuestion extends Answer {
+  question: Pick<Question, 'id' | 'title'>
 }
 
 /**
@@ -171,12 +976,26 @@ export interface QuestionFormData {
   title: string
   description: string
   tags: string[]
+  /** "This is different because..." - only sent when similar questions were found */
+  difference_note?: string
 }
 
 export interface AnswerFormData {
   content: string
 }
 
+export interface ProfileFormData {
+  username: string
+  avatar_url: string | null
+}
+
+export type TagPreferences = Pick<Profile, 'watched_tags' | 'ignored_tags' | 'hide_ignored_tags'>
+
+export interface CommentFormData {
+  content: string
+  parent_id?: string | null
+}
+
 export interface VoteFormData {
   target_id: string
   target_type: 'question' | 'answer'
@@ -192,6 +1011,11 @@ export interface ApiResponse<T = any> {
   message?: string
 }
 
+export interface NotificationListResponse {
+  data: NotificationWithDetails[]
+  unread_count: number
+}
+
 export interface PaginatedResponse<T = any> {
   data: T[]
   count: number